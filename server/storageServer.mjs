@@ -0,0 +1,209 @@
+// Local storage server
+// A small HTTP server that keeps transactions, parties, party mappings,
+// settings and the audit trail in one JSON file on disk. Point the app at it with
+// VITE_STORAGE_SERVER_URL (see README). Workspaces other than the default one
+// are served under /workspaces/<id>/ and each has a data file of its own next
+// to STORAGE_FILE (storage-<id>.json). No dependencies - run it with
+//
+//   npm run storage-server
+//
+// Environment: PORT (default 8787), STORAGE_FILE (default ./data/storage.json)
+
+import http from "node:http";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+const PORT = Number(process.env.PORT) || 8787;
+const STORAGE_FILE = path.resolve(process.env.STORAGE_FILE || "data/storage.json");
+
+const EMPTY_DATA = { transactions: [], parties: [], partyMappings: [], settings: {}, history: [] };
+const WORKSPACE_ID = /^[A-Za-z0-9_-]+$/;
+
+// Loaded data files by workspace ID ("" is the default workspace)
+const stores = new Map();
+
+async function load(file) {
+  try {
+    const text = await fs.readFile(file, "utf8");
+    return { ...EMPTY_DATA, ...JSON.parse(text) };
+  } catch (error) {
+    if (error.code === "ENOENT") return structuredClone(EMPTY_DATA);
+    throw error;
+  }
+}
+
+function storageFile(workspace) {
+  if (!workspace) return STORAGE_FILE;
+  const { dir, name, ext } = path.parse(STORAGE_FILE);
+  return path.join(dir, `${name}-${workspace}${ext}`);
+}
+
+/**
+ * A workspace's data, loaded from its file the first time it is asked for
+ */
+function getStore(workspace) {
+  if (!stores.has(workspace)) {
+    const file = storageFile(workspace);
+    const store = load(file).then((data) => ({ file, data, writeChain: Promise.resolve() }));
+    // Let the next request try again if the file couldn't be read
+    store.catch(() => stores.delete(workspace));
+    stores.set(workspace, store);
+  }
+  return stores.get(workspace);
+}
+
+/**
+ * Write to a temporary file and rename it over the old one, so a crash
+ * mid-write never leaves a half-written data file. Writes to one file go
+ * one after another, so two requests can't interleave a save. A failed write
+ * fails its own request only; the next one writes everything held in memory.
+ */
+function save(store) {
+  const write = store.writeChain.then(async () => {
+    await fs.mkdir(path.dirname(store.file), { recursive: true });
+    const tmp = `${store.file}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(store.data, null, 2));
+    await fs.rename(tmp, store.file);
+  });
+  store.writeChain = write.catch(() => undefined);
+  return write;
+}
+
+function upsert(list, item, key = "id") {
+  const index = list.findIndex((existing) => existing[key] === item[key]);
+  if (index === -1) {
+    list.push(item);
+  } else {
+    list[index] = item;
+  }
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, body === undefined ? {} : { "Content-Type": "application/json" });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  let segments = url.pathname.split("/").filter(Boolean);
+  let workspace = "";
+  if (segments[0] === "workspaces") {
+    workspace = decodeURIComponent(segments[1] || "");
+    if (!WORKSPACE_ID.test(workspace)) return send(res, 400, { error: "Invalid workspace ID" });
+    segments = segments.slice(2);
+  }
+  const [resource, rawId] = segments;
+  const id = rawId === undefined ? undefined : decodeURIComponent(rawId);
+  const method = req.method;
+
+  const store = await getStore(workspace);
+  const data = store.data;
+
+  if (resource === "transactions") {
+    if (method === "GET" && !id) return send(res, 200, data.transactions);
+    if (method === "POST" && !id) {
+      // Rows already stored are skipped, so an append retried after a lost
+      // response neither duplicates them nor undoes later edits
+      const transactions = await readBody(req);
+      if (!Array.isArray(transactions)) return send(res, 400, { error: "Expected an array of transactions" });
+      const storedIds = new Set(data.transactions.map((t) => t.id));
+      transactions.filter((t) => !storedIds.has(t.id)).forEach((t) => data.transactions.push(t));
+      await save(store);
+      return send(res, 204);
+    }
+    if (method === "PUT" && id) {
+      // Only update a row that is still at the version the client read;
+      // otherwise answer 409 with the stored row so the client can merge
+      const transaction = await readBody(req);
+      if (!transaction || typeof transaction !== "object" || Array.isArray(transaction)) {
+        return send(res, 400, { error: "Expected a transaction" });
+      }
+      const existing = data.transactions.find((t) => t.id === id);
+      const currentVersion = existing?.version || 0;
+      if (existing && (transaction.version || 0) !== currentVersion) {
+        return send(res, 409, { error: "The transaction was changed by someone else", current: existing });
+      }
+      upsert(data.transactions, { ...transaction, id, version: currentVersion + 1 });
+      await save(store);
+      return send(res, 204);
+    }
+  }
+
+  if (resource === "parties" && !id) {
+    if (method === "GET") return send(res, 200, data.parties);
+    if (method === "PUT") {
+      const parties = await readBody(req);
+      if (!Array.isArray(parties)) return send(res, 400, { error: "Expected an array of parties" });
+      data.parties = parties;
+      await save(store);
+      return send(res, 204);
+    }
+  }
+
+  if (resource === "party-mappings") {
+    if (method === "GET" && !id) return send(res, 200, data.partyMappings);
+    if (method === "PUT" && id) {
+      const mapping = await readBody(req);
+      upsert(data.partyMappings, { ...mapping, id });
+      await save(store);
+      return send(res, 204);
+    }
+    if (method === "DELETE" && id) {
+      data.partyMappings = data.partyMappings.filter((m) => m.id !== id);
+      await save(store);
+      return send(res, 204);
+    }
+  }
+
+  if (resource === "settings") {
+    if (method === "GET" && !id) return send(res, 200, data.settings);
+    if (method === "PUT" && id) {
+      const body = await readBody(req);
+      data.settings[id] = body?.value;
+      await save(store);
+      return send(res, 204);
+    }
+  }
+
+  if (resource === "history" && !id) {
+    if (method === "GET") return send(res, 200, data.history);
+    if (method === "POST") {
+      // Append only - entries already stored are skipped, nothing is ever changed or removed
+      const entries = await readBody(req);
+      if (!Array.isArray(entries)) return send(res, 400, { error: "Expected an array of history entries" });
+      const storedIds = new Set(data.history.map((e) => e.id));
+      entries.filter((e) => !storedIds.has(e.id)).forEach((e) => data.history.push(e));
+      await save(store);
+      return send(res, 204);
+    }
+  }
+
+  return send(res, 404, { error: `No route for ${method} ${url.pathname}` });
+}
+
+// Fail at startup, not on the first request, if the default data file can't be read
+await getStore("");
+
+http
+  .createServer((req, res) => {
+    // The app runs on the Vite dev server's origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") return send(res, 204);
+
+    handle(req, res).catch((error) => {
+      console.error(`${req.method} ${req.url} failed:`, error);
+      send(res, error instanceof SyntaxError ? 400 : 500, { error: error.message });
+    });
+  })
+  .listen(PORT, () => {
+    console.log(`Storage server listening on http://localhost:${PORT} (data file: ${STORAGE_FILE})`);
+  });
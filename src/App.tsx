@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import { Sidebar } from "./components/Sidebar";
 import { Dashboard } from "./pages/Dashboard";
@@ -7,8 +8,16 @@ import { Transactions } from "./pages/Transactions";
 import { Reconciliation } from "./pages/Reconciliation";
 import { Parties } from "./pages/Parties";
 import { PartyMappings } from "./pages/PartyMappings";
+import { Rules } from "./pages/Rules";
+import { ActivityLog } from "./pages/ActivityLog";
+import { Backup } from "./pages/Backup";
+import { Settings } from "./pages/Settings";
+import { SyncOutbox } from "./services/syncOutbox";
 
 function App() {
+  // Send queued changes to Google Sheets in the background for as long as the app is open
+  useEffect(() => SyncOutbox.start(), []);
+
   return (
     <Router>
       <div className="min-h-screen bg-gradient-hero">
@@ -23,6 +32,10 @@ function App() {
               <Route path="/reconciliation" element={<Reconciliation />} />
               <Route path="/parties" element={<Parties />} />
               <Route path="/party-mappings" element={<PartyMappings />} />
+              <Route path="/rules" element={<Rules />} />
+              <Route path="/activity-log" element={<ActivityLog />} />
+              <Route path="/backup" element={<Backup />} />
+              <Route path="/settings" element={<Settings />} />
             </Routes>
           </div>
         </main>
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { Modal } from "./ui/Modal";
+import { Button } from "./ui/Button";
+import { Input } from "./ui/Input";
+import { Label } from "./ui/Label";
+import { Select } from "./ui/Select";
+import { cn } from "../lib/utils";
+import { StatementColumn, StatementDateFormat } from "../services/bankProfiles";
+import { StatementTemplate, StatementTemplateService } from "../services/statementTemplateService";
+
+interface ColumnMappingWizardProps {
+  isOpen: boolean;
+  fileName: string;
+  /** First raw rows of the statement, one array of cells per line */
+  rows: string[][];
+  onClose: () => void;
+  onSave: (template: StatementTemplate) => void;
+}
+
+const MAPPABLE_COLUMNS: { column: StatementColumn; label: string; required: boolean }[] = [
+  { column: "date", label: "Date", required: true },
+  { column: "narration", label: "Narration", required: true },
+  { column: "reference", label: "Ref / Cheque No.", required: false },
+  { column: "deposit", label: "Deposit", required: false },
+  { column: "withdrawal", label: "Withdrawal", required: false },
+  { column: "balance", label: "Balance", required: false },
+];
+
+export function ColumnMappingWizard({ isOpen, fileName, rows, onClose, onSave }: ColumnMappingWizardProps) {
+  const [headerRowIndex, setHeaderRowIndex] = useState<number | null>(null);
+  const [columnIndexes, setColumnIndexes] = useState<Partial<Record<StatementColumn, number>>>({});
+  const [dateFormat, setDateFormat] = useState<StatementDateFormat>("DD/MM/YYYY");
+  const [templateName, setTemplateName] = useState("");
+
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const headerRow = headerRowIndex !== null ? rows[headerRowIndex] || [] : [];
+  const missingColumns = MAPPABLE_COLUMNS.filter(
+    (c) => c.required && columnIndexes[c.column] === undefined
+  ).map((c) => c.label);
+  // Either amount column is enough - the import mode decides which one is used
+  if (columnIndexes.deposit === undefined && columnIndexes.withdrawal === undefined) {
+    missingColumns.push("Deposit or Withdrawal");
+  }
+  const canSave = headerRowIndex !== null && missingColumns.length === 0 && templateName.trim() !== "";
+
+  const handleSelectHeaderRow = (index: number) => {
+    setHeaderRowIndex(index);
+    setColumnIndexes({});
+  };
+
+  const handleColumnChange = (column: StatementColumn, value: string) => {
+    setColumnIndexes((prev) => {
+      const next = { ...prev };
+      if (value === "") {
+        delete next[column];
+      } else {
+        next[column] = parseInt(value);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (!canSave || headerRowIndex === null) return;
+
+    const template: StatementTemplate = {
+      id: `tmpl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: templateName.trim(),
+      fingerprint: StatementTemplateService.fingerprint(headerRow),
+      columnIndexes,
+      dateFormat,
+      createdAt: new Date().toISOString(),
+    };
+
+    StatementTemplateService.saveTemplate(template);
+    onSave(template);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Map Statement Columns" className="max-w-5xl">
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          The format of <span className="font-semibold text-foreground">{fileName}</span> was not recognised.
+          Click the header row below, then choose which column holds each field. The mapping is saved as a
+          template and used automatically for statements with the same header.
+        </p>
+
+        <div className="border rounded-lg overflow-hidden">
+          <div className="max-h-72 overflow-auto">
+            <table className="w-full text-xs">
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr
+                    key={rowIndex}
+                    onClick={() => handleSelectHeaderRow(rowIndex)}
+                    className={cn(
+                      "border-t cursor-pointer hover:bg-accent",
+                      headerRowIndex === rowIndex && "bg-primary/10 font-semibold"
+                    )}
+                  >
+                    <td className="p-1 text-muted-foreground">{rowIndex + 1}</td>
+                    {Array.from({ length: columnCount }, (_, cellIndex) => (
+                      <td key={cellIndex} className="p-1 whitespace-nowrap max-w-[12rem] truncate">
+                        {row[cellIndex] || ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {headerRowIndex === null ? (
+          <p className="text-sm text-muted-foreground">Click the row that contains the column headings.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {MAPPABLE_COLUMNS.map(({ column, label, required }) => (
+                <div key={column} className="space-y-2">
+                  <Label htmlFor={`map-${column}`}>
+                    {label}
+                    {required && " *"}
+                  </Label>
+                  <Select
+                    id={`map-${column}`}
+                    value={columnIndexes[column] !== undefined ? String(columnIndexes[column]) : ""}
+                    onChange={(e) => handleColumnChange(column, e.target.value)}
+                  >
+                    <option value="">{required ? "Select column" : "Not in statement"}</option>
+                    {Array.from({ length: columnCount }, (_, cellIndex) => (
+                      <option key={cellIndex} value={cellIndex}>
+                        {`Column ${cellIndex + 1}${headerRow[cellIndex] ? `: ${headerRow[cellIndex]}` : ""}`}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Template Name *</Label>
+                <Input
+                  id="template-name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="e.g. Branch 2 current account"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-date-format">Date Format</Label>
+                <Select
+                  id="template-date-format"
+                  value={dateFormat}
+                  onChange={(e) => setDateFormat(e.target.value as StatementDateFormat)}
+                >
+                  <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                  <option value="DD-MMM-YYYY">DD-MMM-YYYY</option>
+                  <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                </Select>
+              </div>
+            </div>
+
+            {missingColumns.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Still required: {missingColumns.join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave} className="btn-gradient">
+            Save Template & Parse
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { GitMerge } from "lucide-react";
+import { Transaction } from "../types/transaction";
+import { Button } from "./ui/Button";
+import { Modal } from "./ui/Modal";
+import { OutboxConflict, OutboxStatus, SyncOutbox } from "../services/syncOutbox";
+import { MERGE_FIELDS, MergeField, mergeTransactions, sameFieldValue } from "../services/transactionConflicts";
+import { cn, formatCurrency, formatDate } from "../lib/utils";
+
+type Choice = "mine" | "theirs";
+
+function displayValue(value: unknown): string {
+  if (value === true) return "Yes";
+  if (value === false || value === undefined || value === null || value === "") return "—";
+  return String(value);
+}
+
+interface ConflictResolverProps {
+  /** Called after a conflict is resolved, so the page can reload its list */
+  onResolved?: () => void;
+}
+
+/**
+ * Edits that someone else's change got in the way of, with a side-by-side merge
+ */
+export function ConflictResolver({ onResolved }: ConflictResolverProps) {
+  const [conflicts, setConflicts] = useState<OutboxConflict[]>(() => SyncOutbox.getStatus().conflicts);
+  const [reviewing, setReviewing] = useState<OutboxConflict | null>(null);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, Choice>>>({});
+
+  useEffect(() => SyncOutbox.subscribe((status: OutboxStatus) => setConflicts(status.conflicts)), []);
+
+  if (conflicts.length === 0) return null;
+
+  const differingFields = reviewing
+    ? MERGE_FIELDS.filter(({ key }) => !sameFieldValue(reviewing.mine, reviewing.theirs, key))
+    : [];
+
+  const handleReview = (conflict: OutboxConflict) => {
+    // Fields only one side changed start on that side; clashing fields start on theirs
+    const { merged } = mergeTransactions(conflict.mine, conflict.theirs, conflict.base);
+    const initial: Partial<Record<MergeField, Choice>> = {};
+    MERGE_FIELDS.forEach(({ key }) => {
+      if (sameFieldValue(conflict.mine, conflict.theirs, key)) return;
+      initial[key] = sameFieldValue(merged, conflict.mine, key) ? "mine" : "theirs";
+    });
+    setChoices(initial);
+    setReviewing(conflict);
+  };
+
+  const handleSaveMerged = async () => {
+    if (!reviewing) return;
+    const merged: Transaction = { ...reviewing.theirs };
+    differingFields.forEach(({ key }) => {
+      if (choices[key] === "mine") {
+        (merged as unknown as Record<MergeField, unknown>)[key] = reviewing.mine[key];
+      }
+    });
+    await SyncOutbox.resolveConflict(reviewing.theirs.id, merged);
+    setReviewing(null);
+    onResolved?.();
+  };
+
+  const handleKeepTheirs = async () => {
+    if (!reviewing) return;
+    await SyncOutbox.discardConflict(reviewing.theirs.id);
+    setReviewing(null);
+    onResolved?.();
+  };
+
+  return (
+    <>
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-3">
+        <p className="text-sm font-semibold text-red-900">
+          {conflicts.length} transaction(s) were changed by someone else while you were editing them
+        </p>
+        <p className="text-sm text-red-800">
+          Your changes have not been saved to the shared copy yet. Review each one to choose which values to keep.
+        </p>
+        <div className="space-y-2">
+          {conflicts.map((conflict) => (
+            <div
+              key={conflict.theirs.id}
+              className="flex items-center justify-between gap-4 p-3 bg-white/70 border border-red-100 rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {formatDate(conflict.theirs.date)} · {formatCurrency(conflict.theirs.amount)}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{conflict.theirs.description}</p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleReview(conflict)}>
+                <GitMerge className="h-4 w-4" />
+                Review
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Modal
+        isOpen={reviewing !== null}
+        onClose={() => setReviewing(null)}
+        title="Merge Changes"
+        className="max-w-3xl"
+      >
+        {reviewing && (
+          <div className="space-y-6">
+            <div className="p-4 bg-muted/30 rounded-lg border border-border/60">
+              <p className="text-sm font-medium">
+                {formatDate(reviewing.theirs.date)} · {formatCurrency(reviewing.theirs.amount)}
+              </p>
+              <p className="text-sm text-muted-foreground">{reviewing.theirs.description}</p>
+            </div>
+
+            {differingFields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Both versions now have the same values. Keep their version to clear this.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/60 text-left">
+                    <th className="py-2 pr-4 font-semibold">Field</th>
+                    <th className="py-2 pr-4 font-semibold">Your version</th>
+                    <th className="py-2 font-semibold">Their version</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {differingFields.map(({ key, label }) => (
+                    <tr key={key} className="border-b border-border/40">
+                      <td className="py-2 pr-4 font-medium">{label}</td>
+                      {(["mine", "theirs"] as Choice[]).map((side) => {
+                        const source = side === "mine" ? reviewing.mine : reviewing.theirs;
+                        return (
+                          <td key={side} className="py-2 pr-4">
+                            <label
+                              className={cn(
+                                "flex items-start gap-2 p-2 rounded-md border cursor-pointer",
+                                choices[key] === side ? "border-primary bg-primary/5" : "border-transparent"
+                              )}
+                            >
+                              <input
+                                type="radio"
+                                name={`merge-${key}`}
+                                checked={choices[key] === side}
+                                onChange={() => setChoices((prev) => ({ ...prev, [key]: side }))}
+                                className="mt-1"
+                              />
+                              <span className="break-words">{displayValue(source[key])}</span>
+                            </label>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleKeepTheirs}>
+                Keep Their Version
+              </Button>
+              {differingFields.length > 0 && <Button onClick={handleSaveMerged}>Save Merged</Button>}
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
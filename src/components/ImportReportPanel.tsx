@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { Button } from "./ui/Button";
+import {
+  IMPORT_ROW_OUTCOMES,
+  ImportReport,
+  describeOutcome,
+  importReportToCSV,
+  skippedRows,
+} from "../services/importReport";
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  fileName: string;
+}
+
+export function ImportReportPanel({ report, fileName }: ImportReportPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const skipped = skippedRows(report);
+  const showSheet = skipped.some((row) => row.sheetName);
+
+  const handleDownload = () => {
+    const blob = new Blob([importReportToCSV(skipped)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, "")}-skipped-rows.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 bg-muted/50 border border-border/60 rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-semibold">
+            Import report: {report.rows.length} rows read, {report.counts.imported} imported, {skipped.length} skipped
+          </p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+            {IMPORT_ROW_OUTCOMES.filter((o) => o !== "imported" && report.counts[o] > 0).map((outcome) => (
+              <span
+                key={outcome}
+                className={outcome === "error" ? "text-xs text-destructive" : "text-xs text-muted-foreground"}
+              >
+                {describeOutcome(outcome)}: {report.counts[outcome]}
+              </span>
+            ))}
+          </div>
+        </div>
+        {skipped.length > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+            <Download className="h-4 w-4" />
+            Download skipped rows
+          </Button>
+        )}
+      </div>
+
+      {skipped.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {expanded ? "Hide" : "Show"} skipped rows
+        </button>
+      )}
+
+      {expanded && (
+        <div className="max-h-64 overflow-auto border rounded bg-card">
+          <table className="w-full text-xs">
+            <thead className="bg-muted sticky top-0">
+              <tr>
+                <th className="p-2 text-left">Row</th>
+                {showSheet && <th className="p-2 text-left">Sheet</th>}
+                <th className="p-2 text-left">Outcome</th>
+                <th className="p-2 text-left">Reason</th>
+                <th className="p-2 text-left">Values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {skipped.map((row) => (
+                <tr key={`${row.sheetName || ""}-${row.rowNumber}`} className="border-t align-top">
+                  <td className="p-2">{row.rowNumber}</td>
+                  {showSheet && <td className="p-2">{row.sheetName}</td>}
+                  <td className="p-2 whitespace-nowrap">{describeOutcome(row.outcome)}</td>
+                  <td className="p-2">{row.reason}</td>
+                  <td className="p-2 text-muted-foreground font-mono">
+                    {row.values.filter((value) => value !== "").join(" | ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { ArrowLeftRight, Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/Button";
+import { Input } from "./ui/Input";
+import { Label } from "./ui/Label";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/Card";
+import { OwnAccount, OwnAccountService } from "../services/ownAccountService";
+import { maskAccountNumber } from "../services/statementAccount";
+import { generateId } from "../lib/utils";
+
+/**
+ * Our own account numbers and UPI IDs, used to spot self transfers on import
+ */
+export function OwnAccountsCard() {
+  const [accounts, setAccounts] = useState<OwnAccount[]>(() => OwnAccountService.getOwnAccounts());
+  const [pairWindowDays, setPairWindowDays] = useState(() => OwnAccountService.getPairWindowDays());
+  const [label, setLabel] = useState("");
+  const [accountNumber, setAccountNumber] = useState("");
+  const [vpa, setVpa] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const trimmedAccount = accountNumber.trim();
+    const trimmedVpa = vpa.trim().toLowerCase();
+    if (!trimmedAccount && !trimmedVpa) {
+      setError("Enter an account number or a UPI ID");
+      return;
+    }
+    if (trimmedAccount && !maskAccountNumber(trimmedAccount)) {
+      setError("Enter at least the last four digits of the account number");
+      return;
+    }
+    if (trimmedVpa && !trimmedVpa.includes("@")) {
+      setError("A UPI ID looks like name@bank");
+      return;
+    }
+
+    OwnAccountService.addOwnAccount({
+      id: generateId(),
+      label: label.trim() || trimmedAccount || trimmedVpa,
+      accountNumber: trimmedAccount || undefined,
+      vpa: trimmedVpa || undefined,
+    });
+    setAccounts(OwnAccountService.getOwnAccounts());
+    setLabel("");
+    setAccountNumber("");
+    setVpa("");
+    setError(null);
+  };
+
+  const handleDelete = (account: OwnAccount) => {
+    if (!confirm(`Remove "${account.label}" from our accounts?`)) return;
+    OwnAccountService.deleteOwnAccount(account.id);
+    setAccounts(OwnAccountService.getOwnAccounts());
+  };
+
+  const handlePairWindowChange = (value: string) => {
+    const days = parseInt(value, 10);
+    if (isNaN(days) || days < 0) return;
+    OwnAccountService.setPairWindowDays(days);
+    setPairWindowDays(days);
+  };
+
+  return (
+    <Card className="glass-card border-2 border-border/60 animate-fade-in">
+      <CardHeader className="bg-muted/30 border-b border-border/60">
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Our Accounts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Deposits whose narration names one of these accounts or UPI IDs are marked as self transfers on import
+          and kept out of the pending Vyapar queue.
+        </p>
+
+        {accounts.length > 0 && (
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-semibold text-sm">{account.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[account.accountNumber && maskAccountNumber(account.accountNumber), account.vpa]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(account)}
+                  className="p-2 hover:bg-red-100 rounded"
+                  title="Remove"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <Label htmlFor="own-account-label">Label</Label>
+            <Input
+              id="own-account-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. HDFC current account"
+            />
+          </div>
+          <div>
+            <Label htmlFor="own-account-number">Account number</Label>
+            <Input
+              id="own-account-number"
+              value={accountNumber}
+              onChange={(e) => setAccountNumber(e.target.value)}
+              placeholder="Full number or last 4 digits"
+            />
+          </div>
+          <div>
+            <Label htmlFor="own-account-vpa">UPI ID</Label>
+            <Input
+              id="own-account-vpa"
+              value={vpa}
+              onChange={(e) => setVpa(e.target.value)}
+              placeholder="e.g. business@okhdfcbank"
+            />
+          </div>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="button" variant="outline" onClick={handleAdd}>
+          <Plus className="h-4 w-4" />
+          Add Account
+        </Button>
+
+        <div className="pt-4 border-t border-border/60">
+          <Label htmlFor="own-account-window">Transfer pair window (days)</Label>
+          <Input
+            id="own-account-window"
+            type="number"
+            min={0}
+            className="w-32"
+            value={pairWindowDays}
+            onChange={(e) => handlePairWindowChange(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            When withdrawals are imported too, a withdrawal and a deposit of the same amount in different accounts
+            at most this many days apart are offered as a transfer pair.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 import { Link, useLocation } from "react-router-dom";
-import { Home, Plus, Upload, List, CheckSquare, Users, Menu, X, Sparkles } from "lucide-react";
+import { Home, Plus, Upload, List, CheckSquare, Users, Menu, X, Sparkles, Wand2, History, DatabaseBackup, Settings } from "lucide-react";
 import { useState } from "react";
 import { cn } from "../lib/utils";
+import { SyncStatus } from "./SyncStatus";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: Home },
@@ -11,6 +13,10 @@ const navigation = [
   { name: "Reconciliation", href: "/reconciliation", icon: CheckSquare },
   { name: "Parties", href: "/parties", icon: Users },
   { name: "Party Mappings", href: "/party-mappings", icon: Sparkles },
+  { name: "Rules", href: "/rules", icon: Wand2 },
+  { name: "Activity Log", href: "/activity-log", icon: History },
+  { name: "Backup & Restore", href: "/backup", icon: DatabaseBackup },
+  { name: "Settings", href: "/settings", icon: Settings },
 ];
 
 export function Sidebar() {
@@ -50,6 +56,8 @@ export function Sidebar() {
             <p className="text-sm text-muted-foreground mt-1">Transaction Manager</p>
           </div>
 
+          <WorkspaceSwitcher />
+
           <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
             {navigation.map((item) => {
               const isActive = location.pathname === item.href;
@@ -71,6 +79,8 @@ export function Sidebar() {
               );
             })}
           </nav>
+
+          <SyncStatus />
         </div>
       </aside>
     </>
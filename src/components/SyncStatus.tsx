@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { CloudOff, RefreshCw, CheckCircle2 } from "lucide-react";
+import { OutboxStatus, SyncOutbox } from "../services/syncOutbox";
+import { StorageService } from "../services/storageService";
+import { formatCurrency, formatDate } from "../lib/utils";
+
+// Failed rows listed by name; the rest are counted
+const MAX_LISTED_FAILURES = 3;
+
+/**
+ * Changes still waiting to reach the remote backend, shown at the bottom of the sidebar
+ */
+export function SyncStatus() {
+  const [status, setStatus] = useState<OutboxStatus>(SyncOutbox.getStatus());
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => SyncOutbox.subscribe(setStatus), []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  if (!StorageService.hasRemoteBackend()) return null;
+
+  if (status.pending === 0) {
+    return (
+      <div className="p-4 border-t border-sidebar-border flex items-center gap-2 text-xs text-muted-foreground">
+        <CheckCircle2 className="h-4 w-4 text-success" />
+        {isOnline ? "All changes synced" : "Offline - all changes synced"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border-t border-sidebar-border space-y-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-amber-700">
+        {isOnline ? (
+          <RefreshCw className={`h-4 w-4 ${status.isFlushing ? "animate-spin" : ""}`} />
+        ) : (
+          <CloudOff className="h-4 w-4" />
+        )}
+        {status.pending} change(s) waiting to sync
+      </div>
+      {!isOnline && <p className="text-xs text-muted-foreground">Offline - changes are sent when you reconnect.</p>}
+      {isOnline && status.failing > 0 && (
+        <>
+          <p className="text-xs text-muted-foreground" title={status.lastError}>
+            {status.failing} failed - retrying automatically.
+          </p>
+          <ul className="space-y-1">
+            {status.failures.slice(0, MAX_LISTED_FAILURES).map(({ transaction, error }) => (
+              <li key={transaction.id} className="text-xs" title={error}>
+                <span className="font-medium">
+                  {formatDate(transaction.date)} · {formatCurrency(transaction.amount)}
+                </span>
+                <span className="block text-red-600 truncate">{error}</span>
+              </li>
+            ))}
+          </ul>
+          {status.failures.length > MAX_LISTED_FAILURES && (
+            <p className="text-xs text-muted-foreground">
+              and {status.failures.length - MAX_LISTED_FAILURES} more
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => SyncOutbox.flush(true)}
+            disabled={status.isFlushing}
+            className="text-xs font-medium text-primary hover:underline disabled:opacity-50"
+          >
+            Retry now
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import { HistoryEntry } from "../types/transaction";
+import { AuditTrail } from "../services/auditTrail";
+import { formatDateTime } from "../lib/utils";
+
+/**
+ * What one history entry changed, e.g. "Vyapar Ref No.: — → VY-1042"
+ */
+export function HistoryChange({ entry }: { entry: HistoryEntry }) {
+  if (entry.action === "created") {
+    return <span className="font-medium">Created</span>;
+  }
+  return (
+    <span>
+      <span className="font-medium">{AuditTrail.getFieldLabel(entry.field)}</span>
+      {": "}
+      <span className="text-muted-foreground line-through">{entry.oldValue || "—"}</span>
+      {" → "}
+      <span className="font-medium">{entry.newValue || "—"}</span>
+      {entry.action === "merged" && <span className="text-xs text-muted-foreground"> (merged)</span>}
+    </span>
+  );
+}
+
+interface TransactionHistoryProps {
+  transactionId: string;
+}
+
+/**
+ * Collapsible change history of one transaction, for the edit modal
+ */
+export function TransactionHistory({ transactionId }: TransactionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      // Show the local copy straight away, then again with other operators' changes
+      const local = await AuditTrail.getHistory(transactionId);
+      if (!cancelled) setEntries(local);
+      await AuditTrail.refresh();
+      const refreshed = await AuditTrail.getHistory(transactionId);
+      if (!cancelled) {
+        setEntries(refreshed);
+        setIsLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, transactionId]);
+
+  return (
+    <div className="border border-border/60 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-4 py-3 text-sm font-semibold hover:bg-muted/50 rounded-lg"
+      >
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <History className="h-4 w-4" />
+        History
+        {isLoading && <span className="text-xs font-normal text-muted-foreground">Loading...</span>}
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4 max-h-64 overflow-y-auto">
+          {entries.length === 0 && !isLoading ? (
+            <p className="text-sm text-muted-foreground">No changes recorded for this transaction.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <li key={entry.id} className="text-sm border-l-2 border-border pl-3">
+                  <HistoryChange entry={entry} />
+                  <p className="text-xs text-muted-foreground">
+                    {entry.operator} · {formatDateTime(entry.timestamp)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
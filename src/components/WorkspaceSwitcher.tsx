@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { Building2 } from "lucide-react";
+import { Workspace, WorkspaceService } from "../services/workspaceService";
+import { switchToWorkspace } from "../services/workspaceSwitch";
+import { Select } from "./ui/Select";
+
+/**
+ * The company being worked on, shown at the top of the sidebar. A list to
+ * switch from once there is more than one workspace.
+ */
+export function WorkspaceSwitcher() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(WorkspaceService.getWorkspaces());
+  const active = workspaces.find((w) => w.id === WorkspaceService.getActiveWorkspace().id) || workspaces[0];
+
+  useEffect(() => WorkspaceService.subscribe(setWorkspaces), []);
+
+  if (workspaces.length < 2) {
+    return (
+      <div className="px-6 py-3 border-b border-sidebar-border flex items-center gap-2 text-sm text-muted-foreground">
+        <Building2 className="h-4 w-4 shrink-0" />
+        <span className="truncate">{active.name}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 py-3 border-b border-sidebar-border">
+      <label htmlFor="workspace-switcher" className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+        <Building2 className="h-3.5 w-3.5" />
+        Workspace
+      </label>
+      <Select
+        id="workspace-switcher"
+        value={active.id}
+        onChange={(e) => {
+          // The select stays on the active workspace if the switch is cancelled
+          const workspace = workspaces.find((w) => w.id === e.target.value);
+          if (workspace) switchToWorkspace(workspace);
+        }}
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </Select>
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 import { useState, useRef, useEffect } from "react";
 import { Calendar, X } from "lucide-react";
 import { cn } from "../../lib/utils";
+import {
+  CalendarDate,
+  calendarDateFromLocal,
+  calendarDateFromParts,
+  formatCalendarDate,
+  parseCalendarDate,
+  todayCalendarDate,
+} from "../../lib/calendarDate";
 import { Input } from "./Input";
 import { Button } from "./Button";
 
@@ -15,19 +23,14 @@ interface DatePickerProps {
 export function DatePicker({ value, onChange, placeholder = "DD/MM/YYYY", className, id }: DatePickerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [displayValue, setDisplayValue] = useState("");
-  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedDate, setSelectedDate] = useState<CalendarDate | null>(null);
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const pickerRef = useRef<HTMLDivElement>(null);
 
   // Convert ISO to DD/MM/YYYY for display
   const isoToDisplay = (iso: string): string => {
     if (!iso) return "";
-    const date = new Date(iso);
-    if (isNaN(date.getTime())) return "";
-    const day = String(date.getDate()).padStart(2, '0');
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const year = date.getFullYear();
-    return `${day}/${month}/${year}`;
+    return formatCalendarDate(iso);
   };
 
   // Convert DD/MM/YYYY to ISO
@@ -35,23 +38,24 @@ export function DatePicker({ value, onChange, placeholder = "DD/MM/YYYY", classN
     if (!display) return "";
     const match = display.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
     if (!match) return "";
-    const day = parseInt(match[1], 10);
-    const month = parseInt(match[2], 10);
-    const year = parseInt(match[3], 10);
-    if (day < 1 || day > 31 || month < 1 || month > 12) return "";
-    const date = new Date(year, month - 1, day);
-    if (date.getDate() !== day || date.getMonth() !== month - 1 || date.getFullYear() !== year) return "";
-    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return calendarDateFromParts(parseInt(match[3], 10), parseInt(match[2], 10), parseInt(match[1], 10)) || "";
+  };
+
+  // Show the month containing a calendar date
+  const showMonthOf = (isoDate: CalendarDate) => {
+    const parts = parseCalendarDate(isoDate);
+    if (parts) {
+      setCurrentMonth(new Date(parts.year, parts.month - 1, 1));
+    }
   };
 
   // Initialize display value and selected date from ISO value
   useEffect(() => {
     if (value) {
-      const date = new Date(value);
-      if (!isNaN(date.getTime())) {
+      if (parseCalendarDate(value)) {
         setDisplayValue(isoToDisplay(value));
-        setSelectedDate(date);
-        setCurrentMonth(new Date(date.getFullYear(), date.getMonth(), 1));
+        setSelectedDate(value);
+        showMonthOf(value);
       } else {
         setDisplayValue("");
         setSelectedDate(null);
@@ -82,9 +86,8 @@ export function DatePicker({ value, onChange, placeholder = "DD/MM/YYYY", classN
     const isoDate = displayToISO(inputValue);
     if (isoDate) {
       onChange(isoDate);
-      const date = new Date(isoDate);
-      setSelectedDate(date);
-      setCurrentMonth(new Date(date.getFullYear(), date.getMonth(), 1));
+      setSelectedDate(isoDate);
+      showMonthOf(isoDate);
     } else if (inputValue === "") {
       onChange("");
       setSelectedDate(null);
@@ -99,8 +102,9 @@ export function DatePicker({ value, onChange, placeholder = "DD/MM/YYYY", classN
   };
 
   const handleDateSelect = (date: Date) => {
-    setSelectedDate(date);
-    const isoDate = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    // Calendar cells are local dates - read them back with local getters
+    const isoDate = calendarDateFromLocal(date);
+    setSelectedDate(isoDate);
     onChange(isoDate);
     setDisplayValue(isoToDisplay(isoDate));
     setIsOpen(false);
@@ -123,6 +127,7 @@ export function DatePicker({ value, onChange, placeholder = "DD/MM/YYYY", classN
   };
 
   const today = new Date();
+  const todayIso = todayCalendarDate();
   const daysInMonth = getDaysInMonth(currentMonth);
   const firstDay = getFirstDayOfMonth(currentMonth);
   const monthNames = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
@@ -204,8 +209,9 @@ export function DatePicker({ value, onChange, placeholder = "DD/MM/YYYY", classN
                 return <div key={`empty-${index}`} className="h-8" />;
               }
               const date = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day);
-              const isToday = date.toDateString() === today.toDateString();
-              const isSelected = selectedDate && date.toDateString() === selectedDate.toDateString();
+              const cellDate = calendarDateFromLocal(date);
+              const isToday = cellDate === todayIso;
+              const isSelected = cellDate === selectedDate;
               const isCurrentMonth = date.getMonth() === currentMonth.getMonth();
 
               return (
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Windowing for long tables with fixed-height rows: only the rows in (and
+ * just around) the scroll viewport are rendered, with spacer rows standing in
+ * for the rest so the scrollbar keeps its full length.
+ */
+export function useVirtualRows(count: number, rowHeight: number, overscan = 10) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateHeight = () => setViewportHeight(container.clientHeight);
+    updateHeight();
+    window.addEventListener("resize", updateHeight);
+    return () => window.removeEventListener("resize", updateHeight);
+  }, [count]);
+
+  // Back to the top when the rows are replaced (new file, import mode change)
+  useEffect(() => {
+    setScrollTop(0);
+    if (containerRef.current) {
+      containerRef.current.scrollTop = 0;
+    }
+  }, [count]);
+
+  const visibleRows = Math.ceil((viewportHeight || 400) / rowHeight);
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.floor(scrollTop / rowHeight) + visibleRows + overscan);
+
+  return {
+    containerRef,
+    onScroll: (e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop),
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+}
@@ -0,0 +1,144 @@
+// Calendar dates (transaction dates, value dates, filter bounds) are plain
+// "YYYY-MM-DD" strings with no time of day. They are built from and split into
+// year/month/day numbers directly, never through Date + toISOString(), which
+// converts local midnight to UTC and shifts the day back in timezones ahead of
+// UTC (a 01/04 deposit in IST would become 31/03 - the previous financial year).
+
+export type CalendarDate = string;
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Build a calendar date from year, month (1-12) and day.
+ * Returns null for impossible dates (31/02, month 13, ...).
+ */
+export function calendarDateFromParts(year: number, month: number, day: number): CalendarDate | null {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  if (month < 1 || month > 12 || day < 1) return null;
+  // Date.UTC never touches the local timezone, so it can be used to validate the day
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Calendar date of a Date as seen on the local wall clock (date picker cells,
+ * "today", timestamps). Use this instead of toISOString().split("T")[0].
+ */
+export function calendarDateFromLocal(date: Date): CalendarDate {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function todayCalendarDate(): CalendarDate {
+  return calendarDateFromLocal(new Date());
+}
+
+export function isCalendarDate(value: unknown): value is CalendarDate {
+  return typeof value === "string" && parseCalendarDate(value) !== null;
+}
+
+export function parseCalendarDate(value: CalendarDate): { year: number; month: number; day: number } | null {
+  const match = (value || "").match(CALENDAR_DATE_PATTERN);
+  if (!match) return null;
+  const [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  return calendarDateFromParts(year, month, day) ? { year, month, day } : null;
+}
+
+/**
+ * Read a date value from storage or a spreadsheet into a calendar date.
+ * Accepts YYYY-MM-DD, DD/MM/YYYY, DD-MM-YYYY, DD MMM YYYY and full timestamps.
+ * A timestamp (e.g. a Sheets date cell serialised as "2024-03-31T18:30:00.000Z")
+ * is an instant, so its calendar date is taken on the local clock - that is the
+ * day that was originally entered.
+ */
+export function toCalendarDate(value: unknown): CalendarDate | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : calendarDateFromLocal(value);
+  }
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (!text) return null;
+
+  if (CALENDAR_DATE_PATTERN.test(text)) {
+    return parseCalendarDate(text) ? text : null;
+  }
+
+  const dmy = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (dmy) {
+    return calendarDateFromParts(parseInt(dmy[3]), parseInt(dmy[2]), parseInt(dmy[1]));
+  }
+
+  const textMonth = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{4})$/);
+  if (textMonth) {
+    const month = MONTH_NAMES.indexOf(textMonth[2].toLowerCase()) + 1;
+    return month > 0 ? calendarDateFromParts(parseInt(textMonth[3]), month, parseInt(textMonth[1])) : null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    const instant = new Date(text);
+    return isNaN(instant.getTime()) ? null : calendarDateFromLocal(instant);
+  }
+
+  return null;
+}
+
+/**
+ * DD/MM/YYYY for display
+ */
+export function formatCalendarDate(value: CalendarDate): string {
+  const parts = parseCalendarDate(value);
+  if (!parts) return "";
+  return `${pad(parts.day)}/${pad(parts.month)}/${parts.year}`;
+}
+
+/**
+ * Negative if a is before b, 0 if the same day, positive if after.
+ * YYYY-MM-DD strings sort chronologically, so this is a string comparison.
+ */
+export function compareCalendarDates(a: CalendarDate, b: CalendarDate): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function toUTCDays(value: CalendarDate): number {
+  const parts = parseCalendarDate(value);
+  if (!parts) return NaN;
+  return Date.UTC(parts.year, parts.month - 1, parts.day) / MS_PER_DAY;
+}
+
+/**
+ * Whole days from a to b (positive if b is later)
+ */
+export function daysBetween(a: CalendarDate, b: CalendarDate): number {
+  return toUTCDays(b) - toUTCDays(a);
+}
+
+export function addDays(value: CalendarDate, days: number): CalendarDate {
+  const base = toUTCDays(value);
+  if (isNaN(base)) return value;
+  const date = new Date((base + days) * MS_PER_DAY);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * First day of the month / year containing the date
+ */
+export function startOfMonth(value: CalendarDate): CalendarDate {
+  return `${value.substring(0, 7)}-01`;
+}
+
+export function startOfYear(value: CalendarDate): CalendarDate {
+  return `${value.substring(0, 4)}-01-01`;
+}
+
+export function calendarYear(value: CalendarDate): number {
+  return parseCalendarDate(value)?.year ?? NaN;
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { calendarDateFromParts, formatCalendarDate, toCalendarDate } from "./calendarDate";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -13,12 +14,29 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+/**
+ * DD/MM/YYYY for a calendar date (YYYY-MM-DD), timestamp or Date.
+ * Calendar dates are formatted from their parts, never through the local timezone.
+ */
 export function formatDate(date: string | Date): string {
-  const d = typeof date === "string" ? new Date(date) : date;
-  const day = String(d.getDate()).padStart(2, '0');
-  const month = String(d.getMonth() + 1).padStart(2, '0');
-  const year = d.getFullYear();
-  return `${day}/${month}/${year}`;
+  const calendarDate = toCalendarDate(date);
+  if (calendarDate) return formatCalendarDate(calendarDate);
+  return typeof date === "string" ? date : '';
+}
+
+/**
+ * Date and time of an ISO timestamp in the local timezone, e.g. "05/03/2025, 4:12 pm"
+ */
+export function formatDateTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return timestamp;
+  return date.toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
 }
 
 /**
@@ -26,12 +44,7 @@ export function formatDate(date: string | Date): string {
  */
 export function isoToDDMMYYYY(isoDate: string): string {
   if (!isoDate) return '';
-  const date = new Date(isoDate);
-  if (isNaN(date.getTime())) return '';
-  const day = String(date.getDate()).padStart(2, '0');
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const year = date.getFullYear();
-  return `${day}/${month}/${year}`;
+  return formatCalendarDate(isoDate);
 }
 
 /**
@@ -45,8 +58,8 @@ export function ddmmYYYYToISO(dateStr: string): string {
   const match = cleaned.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
   if (!match) return '';
   
-  let day = parseInt(match[1], 10);
-  let month = parseInt(match[2], 10);
+  const day = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
   let year = parseInt(match[3], 10);
   
   // Handle 2-digit years
@@ -54,16 +67,7 @@ export function ddmmYYYYToISO(dateStr: string): string {
     year = year < 50 ? 2000 + year : 1900 + year;
   }
   
-  // Validate date
-  if (day < 1 || day > 31 || month < 1 || month > 12) return '';
-  
-  // Create date and validate
-  const date = new Date(year, month - 1, day);
-  if (date.getDate() !== day || date.getMonth() !== month - 1 || date.getFullYear() !== year) {
-    return '';
-  }
-  
-  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return calendarDateFromParts(year, month, day) || '';
 }
 
 export function generateId(): string {
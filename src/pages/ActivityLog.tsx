@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, Search, UserCircle } from "lucide-react";
+import { HistoryEntry, Transaction } from "../types/transaction";
+import { AuditTrail } from "../services/auditTrail";
+import { StorageService } from "../services/storageService";
+import { HistoryChange } from "../components/TransactionHistory";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Label } from "../components/ui/Label";
+import { Select } from "../components/ui/Select";
+import { formatCurrency, formatDate, formatDateTime } from "../lib/utils";
+
+// Rendering tens of thousands of rows at once freezes the page; filter to narrow it down
+const MAX_ROWS = 500;
+
+export function ActivityLog() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [transactions, setTransactions] = useState<Map<string, Transaction>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOffline, setIsOffline] = useState(false);
+  const [search, setSearch] = useState("");
+  const [operatorFilter, setOperatorFilter] = useState("");
+  const [operatorName, setOperatorName] = useState(AuditTrail.getOperatorName());
+  const [savedOperatorName, setSavedOperatorName] = useState(AuditTrail.getOperatorName());
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const [local, allTransactions] = await Promise.all([
+        AuditTrail.getHistory(),
+        StorageService.getLocalTransactions(),
+      ]);
+      setEntries(local);
+      setTransactions(new Map(allTransactions.map((t) => [t.id, t])));
+      // Then again with other operators' changes from the shared copy
+      setIsOffline(!(await AuditTrail.refresh()));
+      setEntries(await AuditTrail.getHistory());
+      setIsLoading(false);
+    };
+    load();
+  }, []);
+
+  const operators = useMemo(() => Array.from(new Set(entries.map((e) => e.operator))).sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (operatorFilter && entry.operator !== operatorFilter) return false;
+      if (!query) return true;
+      const transaction = transactions.get(entry.transactionId);
+      return [
+        AuditTrail.getFieldLabel(entry.field),
+        entry.oldValue,
+        entry.newValue,
+        entry.operator,
+        transaction?.description,
+        transaction?.partyName,
+        transaction?.vyapar_reference_number,
+      ].some((value) => value && value.toLowerCase().includes(query));
+    });
+  }, [entries, transactions, search, operatorFilter]);
+
+  const handleSaveOperatorName = () => {
+    AuditTrail.setOperatorName(operatorName);
+    setSavedOperatorName(operatorName.trim());
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-4xl font-display font-bold text-gradient">Activity Log</h1>
+        <p className="text-muted-foreground mt-2">
+          Every change made to a transaction, who made it and when
+        </p>
+      </div>
+
+      {!savedOperatorName && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            Enter your name below. Until you do, changes made on this device are recorded as "Unknown".
+          </p>
+        </div>
+      )}
+
+      {isOffline && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            {StorageService.getRemoteBackendLabel()} could not be reached. Showing the changes saved on this
+            device - other operators' changes may be missing.
+          </p>
+        </div>
+      )}
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <UserCircle className="h-5 w-5" />
+            Your Name
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="flex items-end gap-3 max-w-md">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="operator-name">Changes made on this device are recorded under</Label>
+              <Input
+                id="operator-name"
+                value={operatorName}
+                onChange={(e) => setOperatorName(e.target.value)}
+                placeholder="e.g. Priya"
+              />
+            </div>
+            <Button onClick={handleSaveOperatorName} disabled={operatorName.trim() === savedOperatorName}>
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Changes
+            {isLoading && <span className="text-sm font-normal text-muted-foreground">Loading...</span>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search narration, party, Vyapar ref or value..."
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={operatorFilter}
+              onChange={(e) => setOperatorFilter(e.target.value)}
+              className="md:w-56"
+            >
+              <option value="">All operators</option>
+              {operators.map((operator) => (
+                <option key={operator} value={operator}>
+                  {operator}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          {filteredEntries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{entries.length === 0 ? "No changes recorded yet." : "No changes match the filters."}</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/60 text-left">
+                    <th className="py-2 pr-4 font-semibold">When</th>
+                    <th className="py-2 pr-4 font-semibold">Operator</th>
+                    <th className="py-2 pr-4 font-semibold">Transaction</th>
+                    <th className="py-2 font-semibold">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredEntries.slice(0, MAX_ROWS).map((entry) => {
+                    const transaction = transactions.get(entry.transactionId);
+                    return (
+                      <tr key={entry.id} className="border-b border-border/40 align-top">
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+                        <td className="py-2 pr-4">{entry.operator}</td>
+                        <td className="py-2 pr-4 max-w-xs">
+                          {transaction ? (
+                            <>
+                              <p>
+                                {formatDate(transaction.date)} · {formatCurrency(transaction.amount)}
+                              </p>
+                              <p className="text-xs text-muted-foreground truncate">{transaction.description}</p>
+                            </>
+                          ) : (
+                            <span className="text-xs text-muted-foreground font-mono">{entry.transactionId}</span>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          <HistoryChange entry={entry} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {filteredEntries.length > MAX_ROWS && (
+                <p className="text-sm text-muted-foreground mt-4">
+                  Showing the latest {MAX_ROWS} of {filteredEntries.length} changes. Search or pick an operator to
+                  narrow the list.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useRef, useState } from "react";
+import { ArchiveRestore, DatabaseBackup, Download, FileUp } from "lucide-react";
+import {
+  BackupFormatError,
+  BackupService,
+  ParsedBackup,
+  RestoreMode,
+  RestorePreview,
+} from "../services/backupService";
+import { StorageService } from "../services/storageService";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
+import { Button } from "../components/ui/Button";
+import { cn, formatDateTime } from "../lib/utils";
+
+const RESTORE_MODES: { mode: RestoreMode; label: string; description: string }[] = [
+  {
+    mode: "merge",
+    label: "Merge",
+    description: "Add what is in the backup but missing here. Nothing already here is changed or deleted.",
+  },
+  {
+    mode: "replace",
+    label: "Replace",
+    description:
+      "Make everything match the backup. Transactions are set back to the backup's values but never deleted, " +
+      "and the audit trail is only added to.",
+  },
+];
+
+export function Backup() {
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backupMessage, setBackupMessage] = useState<{ text: string; warning: boolean } | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [restoreFile, setRestoreFile] = useState<(ParsedBackup & { name: string }) | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!restoreFile) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    BackupService.previewRestore(restoreFile.backup, mode).then((result) => {
+      if (!cancelled) setPreview(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreFile, mode]);
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    setBackupMessage(null);
+    try {
+      const { backup, fromRemote } = await BackupService.createBackup();
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = BackupService.getFileName(backup);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      const summary =
+        `${backup.transactions.length} transactions, ${backup.parties.length} parties, ` +
+        `${backup.partyMappings.length} mappings, ${backup.rules.length} rules, ` +
+        `${backup.templates.length} templates and ${backup.history.length} audit trail entries`;
+      setBackupMessage(
+        fromRemote
+          ? { text: `Backup saved: ${summary}.`, warning: false }
+          : {
+              text:
+                `Backup saved: ${summary}. ${StorageService.getRemoteBackendLabel()} could not be reached, so it ` +
+                "holds the copy in this browser - changes others made since it last synced are not included.",
+              warning: true,
+            }
+      );
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      setBackupMessage({
+        text: `The backup could not be created: ${error instanceof Error ? error.message : "Unknown error"}`,
+        warning: true,
+      });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setRestoreFile(null);
+    setRestoreError(null);
+    setRestoreMessage(null);
+    try {
+      setRestoreFile({ name: file.name, ...BackupService.parseBackup(await file.text()) });
+    } catch (error) {
+      setRestoreError(
+        error instanceof BackupFormatError ? error.message : "The file could not be read. Please try again."
+      );
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+    if (
+      mode === "replace" &&
+      !confirm("Replace your data with the backup? Parties, mappings, rules and templates not in the backup will be deleted.")
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      await BackupService.restoreBackup(restoreFile.backup, mode);
+      setRestoreMessage(`Restored ${restoreFile.name}.`);
+      setRestoreFile(null);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      setRestoreError(
+        `The restore did not finish: ${error instanceof Error ? error.message : "Unknown error"}. ` +
+          "Anything restored before the error has been kept; restoring the same file again is safe."
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const hasChanges = !!preview && preview.sections.some((s) => s.added + s.updated + s.removed > 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-4xl font-display font-bold text-gradient">Backup & Restore</h1>
+        <p className="text-muted-foreground mt-2">
+          Save everything to one file, or bring it back from one
+        </p>
+      </div>
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <DatabaseBackup className="h-5 w-5" />
+            Back Up
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Downloads a JSON file with all transactions (as {StorageService.getRemoteBackendLabel() || "this browser"}{" "}
+            has them), parties, party name mappings, categorisation rules, statement templates, own accounts, the
+            uploaded files list, settings and the audit trail.
+          </p>
+          <Button onClick={handleBackup} disabled={isBackingUp}>
+            <Download className="h-4 w-4" />
+            {isBackingUp ? "Creating backup..." : "Download backup"}
+          </Button>
+          {backupMessage && (
+            <div
+              className={cn(
+                "p-4 border rounded-lg",
+                backupMessage.warning ? "bg-amber-50 border-amber-200" : "bg-green-50 border-green-200"
+              )}
+            >
+              <p className={cn("text-sm", backupMessage.warning ? "text-amber-800" : "text-green-800")}>
+                {backupMessage.text}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <ArchiveRestore className="h-5 w-5" />
+            Restore
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-4 w-4" />
+              Choose backup file
+            </Button>
+          </div>
+
+          {restoreError && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{restoreError}</p>
+            </div>
+          )}
+
+          {restoreMessage && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-sm text-green-800">{restoreMessage}</p>
+            </div>
+          )}
+
+          {restoreFile && (
+            <>
+              <div className="p-4 bg-muted/30 rounded-lg border border-border/60">
+                <p className="text-sm font-medium">{restoreFile.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  Backed up {formatDateTime(restoreFile.backup.exportedAt)}
+                  {restoreFile.migratedFrom !== undefined &&
+                    ` · made by an older version of the app (schema ${restoreFile.migratedFrom}), converted to the current format`}
+                </p>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-3">
+                {RESTORE_MODES.map((option) => (
+                  <label
+                    key={option.mode}
+                    className={cn(
+                      "flex items-start gap-3 p-4 border rounded-lg cursor-pointer",
+                      mode === option.mode ? "border-primary bg-primary/5" : "border-border/60"
+                    )}
+                  >
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      checked={mode === option.mode}
+                      onChange={() => setMode(option.mode)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block font-semibold">{option.label}</span>
+                      <span className="block text-sm text-muted-foreground">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              {preview && !preview.fromRemote && (
+                <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm text-amber-800">
+                    {StorageService.getRemoteBackendLabel()} could not be reached, so the backup is compared with the
+                    copy in this browser - changes others made since it last synced are not shown.
+                  </p>
+                </div>
+              )}
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/60 text-left">
+                    <th className="py-2 pr-4 font-semibold">What</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Added</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Updated</th>
+                    <th className="py-2 pr-4 font-semibold text-right">Deleted</th>
+                    <th className="py-2 font-semibold text-right">Unchanged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview?.sections.map((section) => (
+                    <tr key={section.section} className="border-b border-border/40">
+                      <td className="py-2 pr-4">{section.label}</td>
+                      <td className={cn("py-2 pr-4 text-right", section.added > 0 && "text-green-700 font-medium")}>
+                        {section.added}
+                      </td>
+                      <td className={cn("py-2 pr-4 text-right", section.updated > 0 && "text-amber-700 font-medium")}>
+                        {section.updated}
+                      </td>
+                      <td className={cn("py-2 pr-4 text-right", section.removed > 0 && "text-red-700 font-medium")}>
+                        {section.removed}
+                      </td>
+                      <td className="py-2 text-right text-muted-foreground">{section.unchanged}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setRestoreFile(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleRestore} disabled={isRestoring || !hasChanges}>
+                  {isRestoring ? "Restoring..." : hasChanges ? "Restore" : "Nothing to restore"}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,168 +1,423 @@
 import { useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "../components/ui/Button";
+import { Label } from "../components/ui/Label";
+import { Input } from "../components/ui/Input";
+import { Select } from "../components/ui/Select";
+import { Checkbox } from "../components/ui/Checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
-import { BankCSVParser } from "../services/bankCSVParser";
-import { BankExcelParser } from "../services/bankExcelParser";
+import { ExcelSheetInfo } from "../services/bankExcelParser";
+import { BankPDFParser, PDFPasswordRequiredError } from "../services/bankPDFParser";
+import { OFXParser } from "../services/ofxParser";
+import { MT940Parser } from "../services/mt940Parser";
+import { CAMT053Parser } from "../services/camt053Parser";
+import {
+  BankProfile,
+  ImportMode,
+  StatementParseResult,
+  UnrecognisedStatementError,
+  describeImportMode,
+  getSupportedBankNames,
+} from "../services/bankProfiles";
+import { ColumnMappingWizard } from "../components/ColumnMappingWizard";
+import { ImportReportPanel } from "../components/ImportReportPanel";
+import { ImportReport } from "../services/importReport";
+import { ParseProgress } from "../services/parseProgress";
+import { useVirtualRows } from "../hooks/useVirtualRows";
+import { ParseCancelledError, StatementParseTask, StatementParserClient } from "../services/statementParserClient";
+import { BalanceCheckResult } from "../services/balanceContinuity";
+import { StatementAccount, describeStatementAccount } from "../services/statementAccount";
+import { StatementTemplate } from "../services/statementTemplateService";
 import { Transaction } from "../types/transaction";
 import { StorageService } from "../services/storageService";
+import { RuleService } from "../services/ruleService";
+import { OwnAccountService } from "../services/ownAccountService";
+import { UploadHistoryService } from "../services/uploadHistoryService";
+import { TransferPair, findTransferPairs, markSelfTransfers } from "../services/selfTransferDetection";
 import { PartyMappingService } from "../services/partyMappingService";
-import { saveTransactionsToSheets, isGoogleSheetsConfigured, getGoogleSheetsURL, testGoogleSheetsConnection } from "../services/googleSheetsService";
-import { generateId, formatDate } from "../lib/utils";
-import { Upload, FileText, CheckCircle, XCircle, Sparkles } from "lucide-react";
-
-// Storage key for tracking uploaded files
-const UPLOADED_FILES_KEY = "uploaded_files_tracker";
-
-interface UploadedFileInfo {
-  name: string;
-  size: number;
-  lastModified: number;
-  uploadedAt: string;
-}
+import { isGoogleSheetsConfigured, testGoogleSheetsConnection } from "../services/googleSheetsService";
+import { DuplicateMatch, findDuplicates, summariseDuplicates } from "../services/duplicateDetection";
+import { generateId, formatDate, cn } from "../lib/utils";
+import { Upload, FileText, CheckCircle, XCircle, Sparkles, ArrowLeftRight } from "lucide-react";
 
-// Helper functions to manage uploaded files list
-const getUploadedFiles = (): UploadedFileInfo[] => {
-  try {
-    const data = localStorage.getItem(UPLOADED_FILES_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch {
-    return [];
-  }
-};
-
-const addUploadedFile = (file: File): void => {
-  try {
-    const uploadedFiles = getUploadedFiles();
-    const fileInfo: UploadedFileInfo = {
-      name: file.name,
-      size: file.size,
-      lastModified: file.lastModified,
-      uploadedAt: new Date().toISOString(),
-    };
-    
-    // Check if file already exists (by name + size + lastModified)
-    const exists = uploadedFiles.some(
-      (f) =>
-        f.name === fileInfo.name &&
-        f.size === fileInfo.size &&
-        f.lastModified === fileInfo.lastModified
-    );
-    
-    if (!exists) {
-      uploadedFiles.push(fileInfo);
-      // Keep only last 100 uploaded files to prevent localStorage bloat
-      if (uploadedFiles.length > 100) {
-        uploadedFiles.shift();
-      }
-      localStorage.setItem(UPLOADED_FILES_KEY, JSON.stringify(uploadedFiles));
-    }
-  } catch (error) {
-    console.error("Error saving uploaded file info:", error);
-  }
-};
-
-const isFileAlreadyUploaded = (file: File): boolean => {
-  try {
-    const uploadedFiles = getUploadedFiles();
-    return uploadedFiles.some(
-      (f) =>
-        f.name === file.name &&
-        f.size === file.size &&
-        f.lastModified === file.lastModified
+// Statement file types accepted by the upload page
+const MT940_EXTENSIONS = [".sta", ".mt940", ".940", ".txt"];
+// Fixed row height of the preview table (px) - rows are windowed, so they must not wrap
+const PREVIEW_ROW_HEIGHT = 44;
+
+const SUPPORTED_EXTENSIONS = [".csv", ".xls", ".xlsx", ".pdf", ".ofx", ".qfx", ...MT940_EXTENSIONS, ".xml"];
+
+function DuplicateStatusCell({
+  match,
+  included,
+  onToggle,
+}: {
+  match?: DuplicateMatch;
+  included: boolean;
+  onToggle: () => void;
+}) {
+  if (!match || match.status === "new") {
+    return (
+      <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">New</span>
     );
-  } catch {
-    return false;
   }
-};
+
+  const existing = match.existing;
+  const existingLabel = existing
+    ? `Matches saved transaction of ${formatDate(existing.date)}: ₹${existing.amount.toLocaleString()} ${existing.description}`
+    : undefined;
+
+  return (
+    <label className="flex items-center gap-2 cursor-pointer" title={existingLabel}>
+      <Checkbox checked={included} onChange={onToggle} />
+      {match.status === "exact" ? (
+        <span className="px-2 py-1 rounded text-xs font-medium bg-gray-200 text-gray-700 whitespace-nowrap">
+          Duplicate
+        </span>
+      ) : (
+        <span className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 text-yellow-800 whitespace-nowrap">
+          Probable duplicate
+        </span>
+      )}
+    </label>
+  );
+}
 
 export function CSVUpload() {
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const pdfPasswordRef = useRef<string | undefined>(undefined);
+  // Transactions already saved (refreshed from Google Sheets once per visit) for duplicate checks
+  const existingTransactionsRef = useRef<Transaction[] | null>(null);
+  // CSV/Excel parse running in the background worker, so it can be cancelled
+  const parseTaskRef = useRef<StatementParseTask<unknown> | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [parsedTransactions, setParsedTransactions] = useState<Transaction[]>([]);
+  const [detectedProfile, setDetectedProfile] = useState<BankProfile | null>(null);
+  const [balanceCheck, setBalanceCheck] = useState<BalanceCheckResult | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [detectedAccounts, setDetectedAccounts] = useState<StatementAccount[]>([]);
+  const [manualAccount, setManualAccount] = useState("");
+  const [ruleMatchCount, setRuleMatchCount] = useState(0);
+  const [selfTransferCount, setSelfTransferCount] = useState(0);
+  const [transferPairs, setTransferPairs] = useState<TransferPair[]>([]);
+  const [importMode, setImportMode] = useState<ImportMode>("deposits");
+  const [excelSheets, setExcelSheets] = useState<ExcelSheetInfo[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [duplicateMatches, setDuplicateMatches] = useState<Record<string, DuplicateMatch>>({});
+  const [includedDuplicateIds, setIncludedDuplicateIds] = useState<Set<string>>(new Set());
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [previouslyUploaded, setPreviouslyUploaded] = useState(false);
+  const [mappingRows, setMappingRows] = useState<string[][] | null>(null);
+  const [showMappingWizard, setShowMappingWizard] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isTestingSheets, setIsTestingSheets] = useState(false);
   const [suggestionsCache, setSuggestionsCache] = useState<Record<string, string | null>>({});
 
+  // Transactions whose row breaks the running closing balance
+  const balanceBreakIds = new Set(
+    (balanceCheck?.breaks || []).map((b) => b.transactionId).filter(Boolean) as string[]
+  );
+
+  const duplicateSummary = summariseDuplicates(duplicateMatches);
+
+  // Only the rows scrolled into view are rendered, so large statements preview smoothly
+  const previewRows = useVirtualRows(parsedTransactions.length, PREVIEW_ROW_HEIGHT);
+
+  // New rows are always saved; duplicates only when the user ticks them
+  const isSelectedForImport = (t: Transaction) =>
+    !duplicateMatches[t.id] || duplicateMatches[t.id].status === "new" || includedDuplicateIds.has(t.id);
+  const transactionsToSave = parsedTransactions.filter(isSelectedForImport);
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
 
     const fileName = selectedFile.name.toLowerCase();
-    if (
-      !fileName.endsWith(".csv") &&
-      !fileName.endsWith(".xlsx") &&
-      !fileName.endsWith(".xls")
-    ) {
-      setError("Please select a CSV or Excel file (.csv, .xls, .xlsx)");
+    if (!SUPPORTED_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+      setError(`Please select a supported statement file (${SUPPORTED_EXTENSIONS.join(", ")})`);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
       return;
     }
 
-    // Check if file has already been uploaded
-    if (isFileAlreadyUploaded(selectedFile)) {
-      setError(
-        `This file has already been uploaded before.\n\n` +
-        `File: ${selectedFile.name}\n` +
-        `Size: ${(selectedFile.size / 1024).toFixed(2)} KB\n\n` +
-        `Please select a different file to avoid duplicate transactions.`
-      );
-      setFile(null);
-      setParsedTransactions([]);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
+    // Same file as an earlier upload - rows already saved are caught by the
+    // duplicate check below, so this is only a heads-up
+    setPreviouslyUploaded(UploadHistoryService.isFileAlreadyUploaded(selectedFile));
+
+    setFile(selectedFile);
+    pdfPasswordRef.current = undefined;
+    setSuggestionsCache({}); // Clear suggestions cache for new file
+
+    // Workbooks can hold several months or accounts - start with the first sheet
+    // that has a recognised statement and let the user pick or merge others
+    let sheets: string[] = [];
+    let sheetInfo: ExcelSheetInfo[] = [];
+    if (fileName.endsWith(".xlsx") || fileName.endsWith(".xls")) {
+      setIsParsing(true);
+      try {
+        sheetInfo = await runParseTask(StatementParserClient.listSheets(selectedFile));
+        const firstRecognised = sheetInfo.find((sheet) => sheet.recognised) || sheetInfo[0];
+        sheets = firstRecognised ? [firstRecognised.name] : [];
+      } catch (err) {
+        if (err instanceof ParseCancelledError) return;
+        console.error("Error reading workbook sheets:", err);
+      } finally {
+        if (!parseTaskRef.current) {
+          setIsParsing(false);
+        }
       }
-      return;
     }
+    setExcelSheets(sheetInfo);
+    setSelectedSheets(sheets);
 
-    setFile(selectedFile);
+    await parseStatementFile(selectedFile, importMode, sheets);
+  };
+
+  /**
+   * Track a background parse so it can be cancelled; a newer parse replaces an older one
+   */
+  const runParseTask = async <T,>(task: StatementParseTask<T>): Promise<T> => {
+    parseTaskRef.current?.cancel();
+    parseTaskRef.current = task;
+    try {
+      return await task.promise;
+    } finally {
+      if (parseTaskRef.current === task) {
+        parseTaskRef.current = null;
+      }
+    }
+  };
+
+  const handleCancelParse = () => {
+    parseTaskRef.current?.cancel();
+    parseTaskRef.current = null;
+    handleRemoveFile();
+  };
+
+  const parseStatementFile = async (
+    selectedFile: File,
+    mode: ImportMode,
+    sheets: string[] = selectedSheets
+  ) => {
     setError(null);
+    setParseProgress(null);
     setParsedTransactions([]);
-    setSuggestionsCache({}); // Clear suggestions cache for new file
+    setDetectedProfile(null);
+    setBalanceCheck(null);
+    setImportReport(null);
+    setDetectedAccounts([]);
+    setDuplicateMatches({});
+    setIncludedDuplicateIds(new Set());
+    setTransferPairs([]);
+    setMappingRows(null);
     setIsParsing(true);
 
     try {
       const fileName = selectedFile.name.toLowerCase();
-      let transactions: Transaction[];
+      let result: StatementParseResult;
 
       if (fileName.endsWith(".csv")) {
         console.log("Parsing bank CSV file:", selectedFile.name);
-        transactions = await BankCSVParser.parseFile(selectedFile);
+        result = await runParseTask(
+          StatementParserClient.parse(selectedFile, "csv", mode, undefined, setParseProgress)
+        );
       } else if (fileName.endsWith(".xlsx") || fileName.endsWith(".xls")) {
         console.log("Parsing bank Excel file:", selectedFile.name);
-        transactions = await BankExcelParser.parseFile(selectedFile);
+        result = await runParseTask(
+          StatementParserClient.parse(selectedFile, "excel", mode, sheets, setParseProgress)
+        );
+      } else if (fileName.endsWith(".pdf")) {
+        console.log("Parsing bank PDF file:", selectedFile.name);
+        result = await BankPDFParser.parseFile(selectedFile, mode, pdfPasswordRef.current);
+      } else if (fileName.endsWith(".ofx") || fileName.endsWith(".qfx")) {
+        console.log("Parsing OFX statement:", selectedFile.name);
+        result = await OFXParser.parseFile(selectedFile, mode);
+      } else if (MT940_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+        console.log("Parsing MT940 statement:", selectedFile.name);
+        result = await MT940Parser.parseFile(selectedFile, mode);
+      } else if (fileName.endsWith(".xml")) {
+        console.log("Parsing CAMT.053 statement:", selectedFile.name);
+        result = await CAMT053Parser.parseFile(selectedFile, mode);
       } else {
-        setError("Unsupported file format. Please use CSV or Excel files.");
+        setError("Unsupported file format. Please use CSV, Excel, PDF, OFX, MT940 or CAMT.053 files.");
         setIsParsing(false);
         return;
       }
 
-      console.log("Parsed deposit transactions:", transactions.length);
+      const { transactions, profile } = result;
+      const kind = describeImportMode(mode);
+      console.log(`Parsed ${transactions.length} ${kind} transactions (${profile.name})`);
 
       if (transactions.length === 0) {
+        // The import report below says what happened to each row
+        setDetectedProfile(profile);
+        setImportReport(result.report);
         setError(
-          "No deposit transactions found. Only rows with Deposit Amt. > 0 are processed. Please check:\n1. File has headers: Date, Narration, Chq./Ref.No., Value Dt, Withdrawal Amt., Deposit Amt., Closing Balance\n2. Deposit Amt. column contains values > 0\n3. Date format is DD/MM/YYYY or DD-MM-YYYY"
+          `No ${kind} transactions found in this ${profile.name} statement. Only rows with a ${kind} amount > 0 are processed - the import report below lists why each row was skipped. Please check:\n1. File is a statement export from a supported bank (${getSupportedBankNames().join(", ")})\n2. Deposit/Withdrawal columns contain values > 0\n3. Date format is DD/MM/YYYY, DD-MM-YYYY or DD-MMM-YYYY`
         );
       } else {
-        setParsedTransactions(transactions);
+        setDetectedProfile(profile);
+        setBalanceCheck(result.balanceCheck);
+        setImportReport(result.report);
+        setDetectedAccounts(result.accounts);
+        // Statements without an account number in the preamble keep the account typed in for the last one
+        const tagged =
+          result.accounts.length === 0 && manualAccount.trim()
+            ? transactions.map((t) => ({ ...t, bankAccount: manualAccount.trim() }))
+            : transactions;
+        const ruleRun = RuleService.applyRules(tagged);
+        setRuleMatchCount(ruleRun.changes.length);
+        const selfTransfers = markSelfTransfers(ruleRun.transactions, OwnAccountService.getOwnAccounts());
+        setSelfTransferCount(selfTransfers.marked);
+        setParsedTransactions(selfTransfers.transactions);
+        await checkDuplicates(selfTransfers.transactions);
+        setTransferPairs(
+          findTransferPairs(
+            selfTransfers.transactions,
+            existingTransactionsRef.current || [],
+            OwnAccountService.getPairWindowDays()
+          )
+        );
       }
     } catch (err) {
+      if (err instanceof ParseCancelledError) {
+        console.log("Parsing cancelled:", selectedFile.name);
+        return;
+      }
+      if (err instanceof PDFPasswordRequiredError) {
+        // Bank PDFs are usually protected (often with customer ID or date of birth)
+        const password = prompt(
+          err.incorrect
+            ? "Incorrect password. Please enter the PDF statement password again:"
+            : "This PDF statement is password protected. Please enter the password:"
+        );
+        if (password) {
+          // Remembered for re-parses of the same file (import mode change, template save)
+          pdfPasswordRef.current = password;
+          await parseStatementFile(selectedFile, mode, sheets);
+          return;
+        }
+      }
       console.error("CSV parsing error:", err);
+      if (err instanceof UnrecognisedStatementError) {
+        // Let the user map the columns instead of failing outright
+        setMappingRows(err.rows);
+        setShowMappingWizard(true);
+      }
       setError(`Failed to parse file: ${err instanceof Error ? err.message : "Unknown error"}. Please ensure the CSV file matches the required format.`);
       setParsedTransactions([]);
+      setDetectedProfile(null);
+      setBalanceCheck(null);
+      setImportReport(null);
+      setDetectedAccounts([]);
     } finally {
-      setIsParsing(false);
+      // A cancelled parse finishes after its replacement has started - leave that one's state alone
+      if (!parseTaskRef.current) {
+        setIsParsing(false);
+        setParseProgress(null);
+      }
+    }
+  };
+
+  const handleManualAccountChange = (value: string) => {
+    setManualAccount(value);
+    setParsedTransactions((prev) => prev.map((t) => ({ ...t, bankAccount: value.trim() || undefined })));
+  };
+
+  const checkDuplicates = async (transactions: Transaction[]) => {
+    setIsCheckingDuplicates(true);
+    try {
+      if (!existingTransactionsRef.current) {
+        // The local copy stands in when Google Sheets can't be reached
+        existingTransactionsRef.current =
+          (await StorageService.refreshTransactions()) ?? (await StorageService.getLocalTransactions());
+      }
+      const matches = findDuplicates(transactions, existingTransactionsRef.current);
+      const summary = summariseDuplicates(matches);
+      console.log(
+        `Duplicate check: ${summary.new} new, ${summary.exact} already imported, ${summary.probable} probable duplicates`
+      );
+      setDuplicateMatches(matches);
+    } catch (err) {
+      console.error("Error checking for duplicate transactions:", err);
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  const handleLinkTransferPair = (pair: TransferPair) => {
+    const links: Record<string, string> = { [pair.debit.id]: pair.credit.id, [pair.credit.id]: pair.debit.id };
+    const parsedIds = new Set(parsedTransactions.map((t) => t.id));
+
+    setParsedTransactions((prev) =>
+      prev.map((t) => (links[t.id] ? { ...t, selfTransfer: true, linkedTransactionId: links[t.id] } : t))
+    );
+    // The other side may come from an earlier import - update it in Sheets
+    [pair.debit, pair.credit]
+      .filter((t) => !parsedIds.has(t.id))
+      .forEach((t) => {
+        const updates = { selfTransfer: true, linkedTransactionId: links[t.id] };
+        StorageService.updateTransaction(t.id, updates, t);
+        existingTransactionsRef.current =
+          existingTransactionsRef.current?.map((e) => (e.id === t.id ? { ...e, ...updates } : e)) || null;
+      });
+    setTransferPairs((prev) => prev.filter((p) => p !== pair));
+  };
+
+  const handleDismissTransferPair = (pair: TransferPair) => {
+    setTransferPairs((prev) => prev.filter((p) => p !== pair));
+  };
+
+  const handleToggleDuplicate = (id: string) => {
+    setIncludedDuplicateIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleTemplateSaved = async (template: StatementTemplate) => {
+    console.log("Saved statement template:", template.name);
+    setShowMappingWizard(false);
+    if (file) {
+      await parseStatementFile(file, importMode);
+    }
+  };
+
+  const handleImportModeChange = async (mode: ImportMode) => {
+    setImportMode(mode);
+    // Re-parse the selected file so the preview matches the new mode
+    if (file) {
+      await parseStatementFile(file, mode);
+    }
+  };
+
+  const handleToggleSheet = async (sheetName: string) => {
+    const sheets = selectedSheets.includes(sheetName)
+      ? selectedSheets.filter((name) => name !== sheetName)
+      : excelSheets.map((sheet) => sheet.name).filter((name) => name === sheetName || selectedSheets.includes(name));
+    if (sheets.length === 0) return; // Keep at least one sheet selected
+
+    setSelectedSheets(sheets);
+    if (file) {
+      await parseStatementFile(file, importMode, sheets);
     }
   };
 
   const handleApplySuggestion = (index: number, originalName: string, suggestedName: string) => {
     // Learn the mapping
-    PartyMappingService.learnMapping(originalName, suggestedName);
+    PartyMappingService.learnMapping(originalName, suggestedName).catch(err => {
+      console.error('Error learning party mapping:', err);
+    });
 
     // Update the transaction in the parsed list
     setParsedTransactions((prev) =>
@@ -196,13 +451,29 @@ export function CSVUpload() {
   const handleSave = async () => {
     if (parsedTransactions.length === 0) return;
 
+    if (transactionsToSave.length === 0) {
+      alert("All transactions in this statement have already been imported. Tick any duplicates you want to import again.");
+      return;
+    }
+
+    if (balanceCheck && balanceCheck.checked && !balanceCheck.passed) {
+      const proceed = confirm(
+        `The closing balance check found ${balanceCheck.breaks.length} break(s) in this statement.\n\n` +
+        `This usually means a row is missing, duplicated or was read incorrectly.\n\n` +
+        `Save the transactions anyway?`
+      );
+      if (!proceed) return;
+    }
+
+    const importedLabel = `${transactionsToSave.length} ${describeImportMode(importMode)} transactions`;
+
     setIsSaving(true);
     try {
       const savedTransactions: Transaction[] = [];
       
       // Transactions are already in the correct format from parser
       // Apply mappings and prepare for Google Sheets
-      for (const transaction of parsedTransactions) {
+      for (const transaction of transactionsToSave) {
         // Apply any learned mappings before saving (async)
         const correctedName = await PartyMappingService.applyMapping(transaction.partyName);
         const finalTransaction = {
@@ -210,7 +481,6 @@ export function CSVUpload() {
           partyName: correctedName,
         };
         
-        // NO LOCAL STORAGE - Transaction will be saved to Google Sheets only
         savedTransactions.push(finalTransaction);
         
         // Also train from narration if party name was applied from suggestion
@@ -219,71 +489,26 @@ export function CSVUpload() {
             console.error('Error training party mapping:', err);
           });
         }
-        
-        // Update party balance (still uses local storage for parties - can be migrated later)
-        StorageService.updatePartyBalance(
-          correctedName,
-          finalTransaction.amount,
-          finalTransaction.type
-        );
       }
 
-      // Write to Google Sheets if configured
-      if (isGoogleSheetsConfigured()) {
-        try {
-          const result = await saveTransactionsToSheets(savedTransactions);
-          if (result.failed > 0) {
-            const sheetsURL = getGoogleSheetsURL();
-            alert(
-              `Successfully imported ${parsedTransactions.length} transactions!\n\n` +
-              `⚠️ Google Sheets: ${result.success} sent, ${result.failed} failed.\n\n` +
-              `If you see 401 errors in the console, the script needs authorization:\n` +
-              `1. Open: ${sheetsURL}\n` +
-              `2. Sign in and authorize the script\n` +
-              `3. Check your Google Sheet to verify data was saved`
-            );
-          } else {
-            alert(
-              `Successfully imported ${parsedTransactions.length} deposit transactions!\n\n` +
-              `✓ All transactions sent to Google Sheets.\n` +
-              `Note: If you see 401 errors, please authorize the script first.`
-            );
-          }
-        } catch (sheetsError) {
-          console.error("Error saving to Google Sheets:", sheetsError);
-          const errorMessage = sheetsError instanceof Error ? sheetsError.message : 'Unknown error';
-          const sheetsURL = getGoogleSheetsURL();
-          
-          if (errorMessage.includes('authorization') || errorMessage.includes('401')) {
-            alert(
-              `Successfully imported ${parsedTransactions.length} deposit transactions!\n\n` +
-              `⚠️ Google Sheets Error: Script requires authorization (401 error).\n\n` +
-              `Please:\n` +
-              `1. Open this URL in your browser:\n${sheetsURL}\n` +
-              `2. Sign in with your Google account\n` +
-              `3. Click "Review Permissions" or "Allow"\n` +
-              `4. Authorize the script\n` +
-              `5. Try uploading again\n\n` +
-              `After authorization, transactions will be saved automatically.`
-            );
-          } else {
-            alert(
-              `Successfully imported ${parsedTransactions.length} deposit transactions!\n\n` +
-              `⚠️ Warning: Failed to save to Google Sheets.\n` +
-              `Error: ${errorMessage}\n\n` +
-              `Please check the browser console for details.`
-            );
-          }
-        }
+      // Saved on this device first, then sent to the remote backend through the outbox
+      await StorageService.saveNewTransactions(savedTransactions);
+      if (StorageService.hasRemoteBackend()) {
+        alert(
+          `Successfully imported ${importedLabel}!\n\n` +
+          `They are saved on this device and are being sent to ${StorageService.getRemoteBackendLabel()}. ` +
+          `If the connection drops, they are retried automatically - the sidebar shows anything still waiting to sync.`
+        );
       } else {
-        alert(`Successfully imported ${parsedTransactions.length} deposit transactions!`);
+        alert(`Successfully imported ${importedLabel}!`);
       }
 
       // Mark file as uploaded after successful save
       if (file) {
-        addUploadedFile(file);
+        UploadHistoryService.addUploadedFile(file);
       }
 
+      existingTransactionsRef.current = null;
       setFile(null);
       setParsedTransactions([]);
       if (fileInputRef.current) {
@@ -301,6 +526,17 @@ export function CSVUpload() {
   const handleRemoveFile = () => {
     setFile(null);
     setParsedTransactions([]);
+    setDetectedProfile(null);
+    setBalanceCheck(null);
+    setImportReport(null);
+    setDetectedAccounts([]);
+    setMappingRows(null);
+    setExcelSheets([]);
+    setSelectedSheets([]);
+    setDuplicateMatches({});
+    setIncludedDuplicateIds(new Set());
+    setTransferPairs([]);
+    setPreviouslyUploaded(false);
     setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
@@ -349,15 +585,29 @@ export function CSVUpload() {
           <CardTitle>Upload Bank Statement</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="import-mode">Import</Label>
+            <Select
+              id="import-mode"
+              value={importMode}
+              onChange={(e) => handleImportModeChange(e.target.value as ImportMode)}
+              disabled={isParsing || isSaving}
+            >
+              <option value="deposits">Deposits only</option>
+              <option value="withdrawals">Withdrawals only</option>
+              <option value="both">Deposits and withdrawals</option>
+            </Select>
+          </div>
+
           <div className="border-2 border-dashed border-border/60 rounded-lg p-8 text-center hover:border-primary/40 transition-colors">
             <Upload className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-sm text-muted-foreground mb-4">
-              Upload your bank statement file (CSV, XLS, or XLSX)
+              Upload your bank statement file (CSV, XLS, XLSX, PDF, OFX/QFX, MT940 or CAMT.053 XML)
             </p>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,.xls,.xlsx"
+              accept={SUPPORTED_EXTENSIONS.join(",")}
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -368,17 +618,19 @@ export function CSVUpload() {
               disabled={isParsing}
               className="btn-gradient"
             >
-              {isParsing ? "Parsing..." : "Select File (CSV/Excel)"}
+              {isParsing ? "Parsing..." : "Select Statement File"}
             </Button>
           </div>
 
           <div className="p-4 bg-muted/50 rounded-lg border border-border/60">
             <p className="text-xs font-semibold mb-2">Required File Format:</p>
             <ul className="text-xs text-muted-foreground space-y-1 list-disc list-inside">
-              <li>Supported formats: CSV (.csv), Excel (.xls, .xlsx)</li>
-              <li>Headers: Date, Narration, Chq./Ref.No., Value Dt, Withdrawal Amt., Deposit Amt., Closing Balance</li>
-              <li>Only rows with Deposit Amt. &gt; 0 will be processed</li>
-              <li>Date format: DD/MM/YYYY or DD-MM-YYYY</li>
+              <li>Supported formats: CSV (.csv), Excel (.xls, .xlsx), text-based PDF (.pdf)</li>
+              <li>Structured formats: OFX/QFX (.ofx, .qfx), SWIFT MT940 (.sta, .mt940, .940, .txt), CAMT.053 (.xml)</li>
+              <li>Banks: {getSupportedBankNames().join(", ")} (other banks are matched by common header names)</li>
+              <li>Statement exports can be uploaded as downloaded - the header row and footer summary are detected automatically</li>
+              <li>Deposits are imported as credits and withdrawals as debits, depending on the import mode</li>
+              <li>Date format: DD/MM/YYYY, DD-MM-YYYY or DD-MMM-YYYY</li>
               <li>Amount columns should be numeric (no currency symbols)</li>
             </ul>
           </div>
@@ -386,9 +638,23 @@ export function CSVUpload() {
           {error && (
             <div className="p-4 bg-destructive/10 border border-destructive rounded-lg">
               <p className="text-sm text-destructive">{error}</p>
+              {mappingRows && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-3"
+                  onClick={() => setShowMappingWizard(true)}
+                >
+                  Map Columns Manually
+                </Button>
+              )}
             </div>
           )}
 
+          {parsedTransactions.length === 0 && importReport && file && (
+            <ImportReportPanel report={importReport} fileName={file.name} />
+          )}
+
           {file && (
             <div className="flex items-center gap-2 p-4 bg-accent rounded-lg">
               <FileText className="h-5 w-5" />
@@ -402,11 +668,55 @@ export function CSVUpload() {
             </div>
           )}
 
-          {isParsing && (
-            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-              <p className="text-sm text-blue-800">
-                ⏳ Parsing CSV file... Please wait.
+          {excelSheets.length > 1 && (
+            <div className="p-4 bg-muted/50 rounded-lg border border-border/60 space-y-2">
+              <p className="text-xs font-semibold">
+                This workbook has {excelSheets.length} sheets. Select the sheets to import (several sheets are merged):
               </p>
+              <div className="flex flex-wrap gap-4">
+                {excelSheets.map((sheet) => (
+                  <label key={sheet.name} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedSheets.includes(sheet.name)}
+                      onChange={() => handleToggleSheet(sheet.name)}
+                      disabled={isParsing}
+                    />
+                    <span>{sheet.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {sheet.recognised ? `(${sheet.profileName})` : "(no statement found)"}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isParsing && (
+            <div className="flex items-center justify-between gap-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <div className="flex-1 space-y-2">
+                <p className="text-sm text-blue-800">
+                  ⏳{" "}
+                  {!parseProgress
+                    ? "Parsing statement... Please wait."
+                    : parseProgress.stage === "reading"
+                      ? `Reading file: ${parseProgress.rowsRead.toLocaleString()} rows read...`
+                      : `Parsing rows: ${parseProgress.rowsRead.toLocaleString()} of ${(parseProgress.totalRows ?? 0).toLocaleString()}, ` +
+                        `${parseProgress.transactionsFound.toLocaleString()} ${describeImportMode(importMode)} transactions found`}
+                </p>
+                {parseProgress?.stage === "parsing" && parseProgress.totalRows ? (
+                  <div className="h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${Math.round((parseProgress.rowsRead / parseProgress.totalRows) * 100)}%` }}
+                    />
+                  </div>
+                ) : null}
+              </div>
+              {parseTaskRef.current && (
+                <Button variant="outline" size="sm" onClick={handleCancelParse}>
+                  Cancel
+                </Button>
+              )}
             </div>
           )}
 
@@ -421,19 +731,163 @@ export function CSVUpload() {
           {parsedTransactions.length > 0 && (
             <>
               <div className="flex items-center justify-between p-4 bg-success/10 border border-success/20 rounded-lg">
-                <p className="text-sm font-semibold text-success">
-                  ✅ Found {parsedTransactions.length} transactions
-                </p>
-                <Button onClick={handleSave} disabled={isSaving} className="btn-gradient">
-                  {isSaving ? "Saving..." : `Save ${parsedTransactions.length} Transactions`}
+                <div>
+                  <p className="text-sm font-semibold text-success">
+                    ✅ Found {parsedTransactions.length} transactions
+                  </p>
+                  {detectedProfile && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Detected format: {detectedProfile.name}
+                      {selectedSheets.length > 1 && ` (merged from sheets: ${selectedSheets.join(", ")})`}
+                    </p>
+                  )}
+                  {ruleMatchCount > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {ruleMatchCount} transaction(s) categorised by your rules
+                    </p>
+                  )}
+                  {selfTransferCount > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {selfTransferCount} deposit(s) from our own accounts marked as self transfers
+                    </p>
+                  )}
+                  {detectedAccounts.map((account) => (
+                    <p key={account.maskedAccount} className="text-xs text-muted-foreground mt-1">
+                      Account: {describeStatementAccount(account)}
+                    </p>
+                  ))}
+                </div>
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving || isCheckingDuplicates}
+                  className="btn-gradient"
+                >
+                  {isSaving
+                    ? "Saving..."
+                    : isCheckingDuplicates
+                      ? "Checking duplicates..."
+                      : `Save ${transactionsToSave.length} Transactions`}
                 </Button>
               </div>
 
+              {detectedAccounts.length === 0 && (
+                <div className="p-4 bg-muted/50 border border-border/60 rounded-lg space-y-2">
+                  <Label htmlFor="manual-account">
+                    No account number found in this statement - which account is it for?
+                  </Label>
+                  <Input
+                    id="manual-account"
+                    value={manualAccount}
+                    onChange={(e) => handleManualAccountChange(e.target.value)}
+                    placeholder="e.g. XXXX1234 (optional)"
+                    className="max-w-xs"
+                  />
+                </div>
+              )}
+
+              {previouslyUploaded && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-yellow-800">
+                    ⚠️ This file has been uploaded before. Transactions that were already imported are marked below
+                    and will be skipped.
+                  </p>
+                </div>
+              )}
+
+              {(duplicateSummary.exact > 0 || duplicateSummary.probable > 0) && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-yellow-800">
+                    {duplicateSummary.new} new, {duplicateSummary.exact} already imported
+                    {duplicateSummary.probable > 0 && `, ${duplicateSummary.probable} probable duplicate(s)`}.
+                    Only new transactions are saved - tick a duplicate in the Status column to import it anyway.
+                  </p>
+                </div>
+              )}
+
+              {transferPairs.length > 0 && (
+                <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg space-y-2">
+                  <p className="text-sm font-semibold text-purple-800 flex items-center gap-2">
+                    <ArrowLeftRight className="h-4 w-4" />
+                    {transferPairs.length} possible transfer(s) between our own accounts
+                  </p>
+                  <ul className="space-y-2">
+                    {transferPairs.map((pair) => (
+                      <li
+                        key={`${pair.debit.id}-${pair.credit.id}`}
+                        className="flex items-center justify-between gap-4 text-xs text-purple-800"
+                      >
+                        <span>
+                          ₹{pair.debit.amount.toLocaleString()} out of {pair.debit.bankAccount || "an account"} on{" "}
+                          {formatDate(pair.debit.date)}, in to {pair.credit.bankAccount || "another account"} on{" "}
+                          {formatDate(pair.credit.date)}
+                        </span>
+                        <span className="flex gap-2 shrink-0">
+                          <Button size="sm" variant="outline" onClick={() => handleLinkTransferPair(pair)}>
+                            Mark as self transfer
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDismissTransferPair(pair)}>
+                            Not a transfer
+                          </Button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {balanceCheck && balanceCheck.checked && balanceCheck.passed && (
+                <div className="flex items-start gap-2 p-4 bg-success/10 border border-success/20 rounded-lg">
+                  <CheckCircle className="h-5 w-5 text-success shrink-0" />
+                  <p className="text-sm text-success">
+                    Closing balance check passed: {balanceCheck.rowsChecked} rows reconcile from opening balance
+                    ₹{(balanceCheck.openingBalance ?? 0).toLocaleString()} to closing balance ₹
+                    {(balanceCheck.closingBalance ?? 0).toLocaleString()}.
+                  </p>
+                </div>
+              )}
+
+              {balanceCheck && balanceCheck.checked && !balanceCheck.passed && (
+                <div className="p-4 bg-destructive/10 border border-destructive rounded-lg space-y-2">
+                  <div className="flex items-start gap-2">
+                    <XCircle className="h-5 w-5 text-destructive shrink-0" />
+                    <p className="text-sm font-semibold text-destructive">
+                      Closing balance check failed: {balanceCheck.breaks.length} break(s) found. A row may be
+                      missing, duplicated or mis-read - check the highlighted rows before saving.
+                    </p>
+                  </div>
+                  <ul className="text-xs text-destructive space-y-1 list-disc list-inside">
+                    {balanceCheck.breaks.slice(0, 10).map((b) => (
+                      <li key={`${b.sheetName || ""}-${b.rowNumber}`}>
+                        {b.sheetName && `${b.sheetName}: `}Row {b.rowNumber} ({b.date}) {b.narration.substring(0, 40)}: expected ₹
+                        {b.expectedBalance.toLocaleString()}, statement shows ₹{b.statementBalance.toLocaleString()}
+                        {" "}(difference ₹{b.difference.toLocaleString()})
+                      </li>
+                    ))}
+                  </ul>
+                  {balanceCheck.breaks.length > 10 && (
+                    <p className="text-xs text-destructive">
+                      ...and {balanceCheck.breaks.length - 10} more
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {importReport && file && <ImportReportPanel report={importReport} fileName={file.name} />}
+
+              {balanceCheck && !balanceCheck.checked && (
+                <div className="p-4 bg-muted/50 border border-border/60 rounded-lg">
+                  <p className="text-sm text-muted-foreground">
+                    No closing balance column found - balance continuity was not checked.
+                  </p>
+                </div>
+              )}
+
               <div className="border rounded-lg overflow-hidden">
-                <div className="max-h-96 overflow-y-auto">
+                <div ref={previewRows.containerRef} onScroll={previewRows.onScroll} className="max-h-96 overflow-y-auto">
                   <table className="w-full text-sm">
                     <thead className="bg-muted sticky top-0">
                       <tr>
+                        <th className="p-2 text-left">Status</th>
                         <th className="p-2 text-left">Date</th>
                         <th className="p-2 text-left">Type</th>
                         <th className="p-2 text-left">Amount</th>
@@ -444,7 +898,11 @@ export function CSVUpload() {
                       </tr>
                     </thead>
                     <tbody>
-                      {parsedTransactions.slice(0, 50).map((t, idx) => {
+                      {previewRows.paddingTop > 0 && (
+                        <tr aria-hidden style={{ height: previewRows.paddingTop }} />
+                      )}
+                      {parsedTransactions.slice(previewRows.start, previewRows.end).map((t, offset) => {
+                        const idx = previewRows.start + offset;
                         // Use cached suggestion if available, otherwise load asynchronously
                         const suggestionKey = `${idx}-${t.description?.substring(0, 50)}`;
                         const suggested = suggestionsCache[suggestionKey] || null;
@@ -453,38 +911,11 @@ export function CSVUpload() {
                         if (t.description && !suggestionsCache[suggestionKey]) {
                           (async () => {
                             const desc = t.description.trim();
-                            let foundSuggestion: string | null = null;
                             
-                            // Method 1: Extract text between colons
-                            const colonPattern = desc.match(/:\s*([A-Z][A-Z\s\w]+?)\s*:/i);
-                            if (colonPattern && colonPattern[1]) {
-                              const extracted = colonPattern[1].trim().toLowerCase();
-                              if (extracted.length > 3 && extracted.length < 100) {
-                                foundSuggestion = await PartyMappingService.getSuggestedName(extracted);
-                              }
-                            }
+                            // Method 1: Payer VPA, account or name decoded from the narration
+                            let foundSuggestion = await PartyMappingService.getSuggestedNameFromNarration(desc);
                             
-                            // Method 2: Extract from patterns
-                            if (!foundSuggestion) {
-                              const patterns = [
-                                /(?:NEFT|IMPS|RTGS|UPI|FT)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w]+?)[\s\-]+(?:[A-Z]{4,}|[A-Z]{2}\d{10,}|\d{10,})/i,
-                                /(?:NEFT|IMPS|RTGS|UPI|FT|CHQ)\s*(?:CR|DR)?[\s\-]+\d+[\s\-]+([A-Z][A-Z\s\w]+?)(?:\s*-\s*\d+|\s*$)/i,
-                                /(?:UPI|NEFT|IMPS)[\s\-]+[\d\-@]+[\s\-]+([A-Z][A-Z\s\w]+?)[\s\-]+(?:[A-Z0-9@]+|\d+)/i,
-                              ];
-                              
-                              for (const pattern of patterns) {
-                                const match = desc.match(pattern);
-                                if (match && match[1]) {
-                                  const extracted = match[1].trim().toLowerCase();
-                                  if (extracted.length > 3 && extracted.length < 100) {
-                                    foundSuggestion = await PartyMappingService.getSuggestedName(extracted);
-                                    if (foundSuggestion) break;
-                                  }
-                                }
-                              }
-                            }
-                            
-                            // Method 3: Extract from parts
+                            // Method 2: Extract from parts
                             if (!foundSuggestion) {
                               const parts = desc
                                 .split(/[\s\-:]+/)
@@ -508,7 +939,7 @@ export function CSVUpload() {
                               }
                             }
                             
-                            // Method 4: Try cleaned description
+                            // Method 3: Try cleaned description
                             if (!foundSuggestion) {
                               const cleanedDesc = desc
                                 .replace(/REF\s*NO[:\-]?\s*[A-Z0-9]+/gi, " ")
@@ -536,15 +967,37 @@ export function CSVUpload() {
                           })();
                         }
                         return (
-                          <tr key={idx} className="border-t">
+                          <tr
+                            key={t.id}
+                            style={{ height: PREVIEW_ROW_HEIGHT }}
+                            className={cn(
+                              "border-t whitespace-nowrap",
+                              balanceBreakIds.has(t.id) && "bg-red-50",
+                              !isSelectedForImport(t) && "opacity-60"
+                            )}
+                            title={balanceBreakIds.has(t.id) ? "Closing balance does not match after this row" : undefined}
+                          >
+                            <td className="p-2">
+                              <DuplicateStatusCell
+                                match={duplicateMatches[t.id]}
+                                included={includedDuplicateIds.has(t.id)}
+                                onToggle={() => handleToggleDuplicate(t.id)}
+                              />
+                            </td>
                             <td className="p-2">{formatDate(t.date)}</td>
                             <td className="p-2">
-                              <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
-                                Deposit
-                              </span>
+                              {t.type === "credit" ? (
+                                <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
+                                  Deposit
+                                </span>
+                              ) : (
+                                <span className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-800">
+                                  Withdrawal
+                                </span>
+                              )}
                             </td>
                             <td className="p-2 font-medium">₹{t.amount.toLocaleString()}</td>
-                            <td className="p-2">{t.description}</td>
+                            <td className="p-2 max-w-xs truncate" title={t.description}>{t.description}</td>
                             <td className="p-2">
                               <div className="flex items-center gap-2">
                                 {t.partyName ? (
@@ -607,19 +1060,27 @@ export function CSVUpload() {
                           </tr>
                         );
                       })}
+                      {previewRows.paddingBottom > 0 && (
+                        <tr aria-hidden style={{ height: previewRows.paddingBottom }} />
+                      )}
                     </tbody>
                   </table>
-                  {parsedTransactions.length > 50 && (
-                    <div className="p-4 text-center text-sm text-muted-foreground">
-                      Showing first 50 of {parsedTransactions.length} transactions
-                    </div>
-                  )}
                 </div>
               </div>
             </>
           )}
         </CardContent>
       </Card>
+
+      {mappingRows && file && (
+        <ColumnMappingWizard
+          isOpen={showMappingWizard}
+          fileName={file.name}
+          rows={mappingRows}
+          onClose={() => setShowMappingWizard(false)}
+          onSave={handleTemplateSaved}
+        />
+      )}
     </div>
   );
 }
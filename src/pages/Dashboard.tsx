@@ -1,9 +1,10 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import { StorageService, DashboardStats } from "../services/storageService";
-import { fetchTransactionsFromSheets, isGoogleSheetsConfigured } from "../services/googleSheetsService";
+import { WorkspaceService } from "../services/workspaceService";
 import { Transaction } from "../types/transaction";
 import { formatCurrency } from "../lib/utils";
+import { calendarYear, compareCalendarDates, startOfMonth, startOfYear, todayCalendarDate } from "../lib/calendarDate";
 import { AlertCircle, CheckCircle, TrendingUp } from "lucide-react";
 import { Input } from "../components/ui/Input";
 import { Label } from "../components/ui/Label";
@@ -24,47 +25,78 @@ export function Dashboard() {
   });
 
   const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString());
+  // "" = all bank accounts
+  const [selectedAccount, setSelectedAccount] = useState("");
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  // The active workspace's deposits, or every workspace's added together
+  const [scope, setScope] = useState<"workspace" | "all">("workspace");
+  // Deposits of the other workspaces by workspace ID, loaded for the "all" scope
+  const [otherTransactions, setOtherTransactions] = useState<Record<string, Transaction[]>>({});
+  const workspaces = WorkspaceService.getWorkspaces();
+  const activeWorkspace = WorkspaceService.getActiveWorkspace();
 
-  // Load transactions from Google Sheets
+  // Load transactions from the local copy, refreshed from the remote backend when it can be reached
   useEffect(() => {
-    const loadTransactions = async () => {
-      if (isGoogleSheetsConfigured()) {
-        try {
-          const sheetsTransactions = await fetchTransactionsFromSheets();
-          // Only show deposits (credits)
-          const creditTransactions = sheetsTransactions.filter((t) => t.type === "credit");
-          setTransactions(creditTransactions);
-        } catch (error) {
-          console.error('Error fetching transactions for dashboard:', error);
-          setTransactions([]);
-        }
-      } else {
-        // Fallback to local storage if Google Sheets not configured
-        const localTransactions = StorageService.getTransactions();
-        const creditTransactions = localTransactions.filter((t) => t.type === "credit");
-        setTransactions(creditTransactions);
-      }
+    // Only show deposits (credits)
+    const showDeposits = (all: Transaction[]) => setTransactions(all.filter((t) => t.type === "credit"));
+
+    const loadLocalTransactions = async () => {
+      showDeposits(await StorageService.getLocalTransactions());
+    };
+    const refreshTransactions = async () => {
+      const refreshed = await StorageService.refreshTransactions();
+      if (refreshed) showDeposits(refreshed);
+    };
+
+    loadLocalTransactions().then(refreshTransactions);
+    // Pick up edits made on other pages every 5 seconds, and other people's changes every minute
+    const localInterval = setInterval(loadLocalTransactions, 5000);
+    const refreshInterval = setInterval(refreshTransactions, 60000);
+    return () => {
+      clearInterval(localInterval);
+      clearInterval(refreshInterval);
     };
-    
-    loadTransactions();
-    // Update stats every 5 seconds to reflect changes
-    const interval = setInterval(loadTransactions, 5000);
-    return () => clearInterval(interval);
   }, []);
 
+  // Other workspaces are only synced while they are open, so they are read from
+  // their local copies in this browser
+  useEffect(() => {
+    if (scope !== "all") return;
+    let cancelled = false;
+    const activeId = WorkspaceService.getActiveWorkspace().id;
+    Promise.all(
+      WorkspaceService.getWorkspaces()
+        .filter((w) => w.id !== activeId)
+        .map(async (w) => {
+          const all = await StorageService.getWorkspaceTransactions(w.id);
+          return [w.id, all.filter((t) => t.type === "credit")] as const;
+        })
+    ).then((entries) => {
+      if (!cancelled) setOtherTransactions(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const shownTransactions = useMemo(
+    () => (scope === "all" ? [...transactions, ...Object.values(otherTransactions).flat()] : transactions),
+    [scope, transactions, otherTransactions]
+  );
+
   // Calculate stats from transactions
   useEffect(() => {
     const calculateStats = (): DashboardStats => {
-      let filteredTransactions = [...transactions];
+      let filteredTransactions = [...shownTransactions];
       
       // Apply year filter if provided
       if (selectedYear) {
         const year = parseInt(selectedYear);
-        filteredTransactions = filteredTransactions.filter((t) => {
-          const tDate = new Date(t.date);
-          return tDate.getFullYear() === year;
-        });
+        filteredTransactions = filteredTransactions.filter((t) => calendarYear(t.date) === year);
+      }
+
+      if (selectedAccount) {
+        filteredTransactions = filteredTransactions.filter((t) => t.bankAccount === selectedAccount);
       }
 
       // Migrate legacy inVyapar to added_to_vyapar
@@ -75,17 +107,18 @@ export function Dashboard() {
         return t;
       });
 
-      const now = new Date();
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const startOfYear = new Date(now.getFullYear(), 0, 1);
+      const today = todayCalendarDate();
+      const monthStart = startOfMonth(today);
+      const yearStart = startOfYear(today);
 
       const totalDepositAmount = filteredTransactions.reduce((sum, t) => sum + t.amount, 0);
 
-      // Pending: not completed (not all: checked, has ref, AND has party name) AND not on hold
+      // Pending: not completed (not all: checked, has ref, AND has party name), not on hold and not a self transfer
       const pendingTransactions = filteredTransactions.filter(
         (t) => {
           const isHold = t.hold === true;
           if (isHold) return false; // Exclude hold transactions
+          if (t.selfTransfer === true) return false; // Exclude self transfer transactions
           const isChecked = Boolean(t.added_to_vyapar || t.inVyapar);
           const hasRef = Boolean(t.vyapar_reference_number && String(t.vyapar_reference_number).trim() !== '');
           const hasPartyName = Boolean(t.partyName && t.partyName.trim() !== '');
@@ -114,10 +147,10 @@ export function Dashboard() {
       const pendingSyncCount = pendingCount;
 
       const transactionsThisMonth = filteredTransactions.filter(
-        (t) => new Date(t.date) >= startOfMonth
+        (t) => compareCalendarDates(t.date, monthStart) >= 0
       ).length;
       const transactionsThisYear = filteredTransactions.filter(
-        (t) => new Date(t.date) >= startOfYear
+        (t) => compareCalendarDates(t.date, yearStart) >= 0
       ).length;
 
       return {
@@ -135,7 +168,35 @@ export function Dashboard() {
     };
 
     setStats(calculateStats());
-  }, [transactions, selectedYear]);
+  }, [shownTransactions, selectedYear, selectedAccount]);
+
+  const bankAccounts = [...new Set(shownTransactions.map((t) => t.bankAccount).filter(Boolean) as string[])].sort();
+
+  // Deposits per account for the selected year (transactions without an account are grouped as "Unknown")
+  const accountTotals = Object.entries(
+    shownTransactions
+      .filter((t) => !selectedYear || calendarYear(t.date) === parseInt(selectedYear))
+      .reduce<Record<string, { amount: number; count: number }>>((totals, t) => {
+        const account = t.bankAccount || "Unknown";
+        const total = totals[account] || { amount: 0, count: 0 };
+        totals[account] = { amount: total.amount + t.amount, count: total.count + 1 };
+        return totals;
+      }, {})
+  ).sort(([a], [b]) => a.localeCompare(b));
+
+  // Deposits per workspace for the selected year and account
+  const workspaceTotals = workspaces.map((workspace) => {
+    const deposits = (workspace.id === activeWorkspace.id ? transactions : otherTransactions[workspace.id] || []).filter(
+      (t) =>
+        (!selectedYear || calendarYear(t.date) === parseInt(selectedYear)) &&
+        (!selectedAccount || t.bankAccount === selectedAccount)
+    );
+    return {
+      workspace,
+      amount: deposits.reduce((sum, t) => sum + t.amount, 0),
+      count: deposits.length,
+    };
+  });
 
   // Generate year options (current year and 5 years back)
   const currentYear = new Date().getFullYear();
@@ -185,6 +246,15 @@ export function Dashboard() {
         </div>
       </div>
 
+      {scope === "all" && (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-800">
+            Showing all workspaces. Workspaces other than {activeWorkspace.name} are shown as they were when last
+            opened in this browser - switch to one to bring it up to date.
+          </p>
+        </div>
+      )}
+
       {/* Year Filter */}
       <Card className="glass-card border-2 border-border/60 animate-fade-in">
         <CardHeader className="bg-muted/30 border-b border-border/60">
@@ -207,6 +277,38 @@ export function Dashboard() {
                 ))}
               </select>
             </div>
+            {workspaces.length > 1 && (
+              <div className="flex-1 max-w-xs">
+                <Label htmlFor="scopeSelect" className="text-sm font-semibold mb-2 block">Workspaces</Label>
+                <select
+                  id="scopeSelect"
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as "workspace" | "all")}
+                  className="flex h-11 w-full rounded-md border-2 border-slate-400 bg-background px-3 py-2 text-base ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:border-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+                >
+                  <option value="workspace">{activeWorkspace.name} only</option>
+                  <option value="all">All workspaces</option>
+                </select>
+              </div>
+            )}
+            {bankAccounts.length > 0 && (
+              <div className="flex-1 max-w-xs">
+                <Label htmlFor="accountSelect" className="text-sm font-semibold mb-2 block">Bank Account</Label>
+                <select
+                  id="accountSelect"
+                  value={selectedAccount}
+                  onChange={(e) => setSelectedAccount(e.target.value)}
+                  className="flex h-11 w-full rounded-md border-2 border-slate-400 bg-background px-3 py-2 text-base ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:border-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+                >
+                  <option value="">All accounts</option>
+                  {bankAccounts.map((account) => (
+                    <option key={account} value={account}>
+                      {account}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div className="flex items-end">
               <Button 
                 variant="outline" 
@@ -273,6 +375,42 @@ export function Dashboard() {
           </CardContent>
         </Card>
 
+        {bankAccounts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Deposits by Account</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {accountTotals.map(([account, total]) => (
+                <div key={account} className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {account} ({total.count})
+                  </span>
+                  <span className="font-semibold">{formatCurrency(total.amount)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {scope === "all" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Deposits by Workspace</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {workspaceTotals.map(({ workspace, amount, count }) => (
+                <div key={workspace.id} className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {workspace.name} ({count})
+                  </span>
+                  <span className="font-semibold">{formatCurrency(amount)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Workflow</CardTitle>
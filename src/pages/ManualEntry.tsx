@@ -7,22 +7,11 @@ import { Label } from "../components/ui/Label";
 import { Select } from "../components/ui/Select";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import { StorageService } from "../services/storageService";
-import { Transaction, TransactionType, TransactionCategory } from "../types/transaction";
+import { TRANSACTION_CATEGORIES, Transaction, TransactionType, TransactionCategory } from "../types/transaction";
 import { generateId } from "../lib/utils";
+import { todayCalendarDate } from "../lib/calendarDate";
 import { Save } from "lucide-react";
 
-const categories: Record<TransactionType, TransactionCategory[]> = {
-  credit: [
-    "Credit Sale",
-    "Payment Received",
-    "Refund",
-    "Loan/Credit",
-    "Interest Income",
-    "Other Credit",
-  ],
-  debit: ["Purchase", "Payment Made", "Expense", "Other Debit"],
-};
-
 interface FormData {
   date: string;
   amount: string;
@@ -45,7 +34,7 @@ export function ManualEntry() {
     formState: { errors },
   } = useForm<FormData>({
     defaultValues: {
-      date: new Date().toISOString().split("T")[0],
+      date: todayCalendarDate(),
       type: "credit",
       category: "Credit Sale",
     },
@@ -72,23 +61,8 @@ export function ManualEntry() {
         updatedAt: new Date().toISOString(),
       };
 
-      // NO LOCAL STORAGE - Save directly to Google Sheets
-      StorageService.addTransaction(transaction);
-      
-      // Save to Google Sheets if configured
-      if (isGoogleSheetsConfigured()) {
-        try {
-          await saveTransactionToSheets(transaction);
-        } catch (error) {
-          console.error('Error saving to Google Sheets:', error);
-        }
-      }
-      
-      StorageService.updatePartyBalance(
-        transaction.partyName,
-        transaction.amount,
-        transaction.type
-      );
+      // Saved on this device and queued for the remote backend
+      await StorageService.addTransaction(transaction);
 
       reset();
       alert("Transaction added successfully!");
@@ -159,7 +133,7 @@ export function ManualEntry() {
               <div>
                 <Label htmlFor="category">Category *</Label>
                 <Select id="category" {...register("category", { required: true })}>
-                  {categories[selectedType].map((cat) => (
+                  {TRANSACTION_CATEGORIES[selectedType].map((cat) => (
                     <option key={cat} value={cat}>
                       {cat}
                     </option>
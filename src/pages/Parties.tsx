@@ -11,41 +11,27 @@ export function Parties() {
   const [parties, setParties] = useState<Party[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
 
+  // Balances are worked out from the transactions in the local copy, which is
+  // refreshed from the remote backend when it can be reached
   useEffect(() => {
-    const updateParties = () => {
-      const allParties = StorageService.getParties();
-      // Recalculate balances from transactions
-      const transactions = StorageService.getTransactions();
-      const updatedParties = allParties.map((party) => {
-        const partyTransactions = transactions.filter(
-          (t) => t.partyName.toLowerCase() === party.name.toLowerCase()
-        );
-        const totalCredits = partyTransactions
-          .filter((t) => t.type === "credit")
-          .reduce((sum, t) => sum + t.amount, 0);
-        const totalDebits = partyTransactions
-          .filter((t) => t.type === "debit")
-          .reduce((sum, t) => sum + t.amount, 0);
-        const balance = totalCredits - totalDebits;
+    let cancelled = false;
+    const showParties = async () => {
+      const balances = await StorageService.getPartyBalances();
+      if (!cancelled) setParties(balances.sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance)));
+    };
+    const refreshTransactions = async () => {
+      if (await StorageService.refreshTransactions()) await showParties();
+    };
 
-        return {
-          ...party,
-          totalCredits,
-          totalDebits,
-          balance,
-          lastTransactionDate:
-            partyTransactions.length > 0
-              ? partyTransactions.sort(
-                  (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-                )[0].date
-              : undefined,
-        };
-      });
-      setParties(updatedParties.sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance)));
+    showParties().then(refreshTransactions);
+    // Pick up edits made on other pages every 5 seconds, and other people's changes every minute
+    const localInterval = setInterval(showParties, 5000);
+    const refreshInterval = setInterval(refreshTransactions, 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(localInterval);
+      clearInterval(refreshInterval);
     };
-    updateParties();
-    const interval = setInterval(updateParties, 2000);
-    return () => clearInterval(interval);
   }, []);
 
   const filteredParties = parties.filter((p) => {
@@ -3,7 +3,10 @@ import { PartyMappingService, PartyNameMapping } from "../services/partyMappingS
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
-import { Edit2, Trash2, Sparkles, Check, X } from "lucide-react";
+import { Select } from "../components/ui/Select";
+import { Checkbox } from "../components/ui/Checkbox";
+import { Edit2, Trash2, Sparkles, Check, X, Share2 } from "lucide-react";
+import { WorkspaceService } from "../services/workspaceService";
 import { cn } from "../lib/utils";
 
 export function PartyMappings() {
@@ -11,6 +14,13 @@ export function PartyMappings() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editOriginal, setEditOriginal] = useState<string>("");
   const [editCorrected, setEditCorrected] = useState<string>("");
+  // Mappings belong to the active workspace; these are for sharing some with another one
+  const otherWorkspaces = WorkspaceService.getWorkspaces().filter(
+    (w) => w.id !== WorkspaceService.getActiveWorkspace().id
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [shareWorkspaceId, setShareWorkspaceId] = useState<string>(otherWorkspaces[0]?.id || "");
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
 
   useEffect(() => {
     loadMappings();
@@ -47,6 +57,7 @@ export function PartyMappings() {
       await loadMappings();
     } catch (error) {
       console.error('Error updating mapping:', error);
+      alert(`The mapping could not be saved: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   };
 
@@ -63,10 +74,37 @@ export function PartyMappings() {
         await loadMappings();
       } catch (error) {
         console.error('Error deleting mapping:', error);
+        alert(`The mapping could not be deleted: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => {
+      const next = new Set(ids);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleShare = () => {
+    const workspace = otherWorkspaces.find((w) => w.id === shareWorkspaceId);
+    if (!workspace || selectedIds.size === 0) return;
+    PartyMappingService.shareMappings(
+      mappings.filter((m) => selectedIds.has(m.id)),
+      workspace.id
+    );
+    setShareMessage(
+      `${selectedIds.size} mapping${selectedIds.size === 1 ? "" : "s"} shared with ${workspace.name}. ` +
+        "They are added the next time you open it, except for names it already has a mapping for."
+    );
+    setSelectedIds(new Set());
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -89,6 +127,35 @@ export function PartyMappings() {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {otherWorkspaces.length > 0 && mappings.length > 0 && (
+            <div className="mb-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {selectedIds.size} selected · share with
+                </span>
+                <Select
+                  value={shareWorkspaceId}
+                  onChange={(e) => setShareWorkspaceId(e.target.value)}
+                  className="w-auto"
+                >
+                  {otherWorkspaces.map((workspace) => (
+                    <option key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </option>
+                  ))}
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleShare} disabled={selectedIds.size === 0}>
+                  <Share2 className="h-4 w-4" />
+                  Share selected
+                </Button>
+              </div>
+              {shareMessage && (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-sm text-green-800">{shareMessage}</p>
+                </div>
+              )}
+            </div>
+          )}
           {mappings.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Sparkles className="h-12 w-12 mx-auto mb-4 opacity-50" />
@@ -141,6 +208,13 @@ export function PartyMappings() {
                     </>
                   ) : (
                     <>
+                      {otherWorkspaces.length > 0 && (
+                        <Checkbox
+                          checked={selectedIds.has(mapping.id)}
+                          onChange={() => toggleSelected(mapping.id)}
+                          title="Select to share with another workspace"
+                        />
+                      )}
                       <div className="flex-1 flex items-center gap-3">
                         <span className="font-medium text-muted-foreground">
                           {mapping.originalName}
@@ -201,6 +275,10 @@ export function PartyMappings() {
             <strong className="text-foreground">Auto-apply:</strong> Mappings are automatically
             applied during CSV upload if a match is found.
           </p>
+          <p>
+            <strong className="text-foreground">Workspaces:</strong> Each workspace learns its own
+            mappings. Select mappings above to share them with another workspace.
+          </p>
         </CardContent>
       </Card>
     </div>
@@ -13,18 +13,32 @@ export function Reconciliation() {
   const [searchQuery, setSearchQuery] = useState("");
 
   useEffect(() => {
-    const updateTransactions = () => {
-      setTransactions(StorageService.getTransactions());
+    let cancelled = false;
+    const updateTransactions = async () => {
+      const local = await StorageService.getLocalTransactions();
+      if (!cancelled) setTransactions(local);
     };
-    updateTransactions();
+    // Show the local copy straight away, then pick up changes from the remote backend
+    updateTransactions().then(() => StorageService.refreshTransactions()).then((refreshed) => {
+      if (!cancelled && refreshed) setTransactions(refreshed);
+    });
     const interval = setInterval(updateTransactions, 2000);
-    return () => clearInterval(interval);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
   }, []);
 
+  const applyUpdates = (transaction: Transaction, updates: Partial<Transaction>) => {
+    StorageService.updateTransaction(transaction.id, updates, transaction);
+    setTransactions((prev) => prev.map((t) => (t.id === transaction.id ? { ...t, ...updates } : t)));
+  };
+
   const pendingTransactions = useMemo(() => {
     return transactions
       .filter((t) => t.type === "credit") // Only deposits
       .filter((t) => !t.added_to_vyapar && !t.inVyapar)
+      .filter((t) => !t.selfTransfer) // Self transfers never go to Vyapar
       .filter((t) => {
         if (!searchQuery) return true;
         const query = searchQuery.toLowerCase();
@@ -46,19 +60,17 @@ export function Reconciliation() {
   }, [transactions]);
 
   const handleToggleVyapar = (id: string, checked: boolean) => {
-    StorageService.updateTransaction(id, { added_to_vyapar: checked });
-    if (!checked) {
+    const transaction = transactions.find((t) => t.id === id);
+    if (!transaction) return;
+    applyUpdates(
+      transaction,
       // Clear reference number when unchecked
-      StorageService.updateTransaction(id, { vyapar_reference_number: undefined });
-    }
-    setTransactions(StorageService.getTransactions());
+      checked ? { added_to_vyapar: true } : { added_to_vyapar: false, vyapar_reference_number: undefined }
+    );
   };
 
   const handleBulkSync = (checked: boolean) => {
-    pendingTransactions.forEach((t) => {
-      StorageService.updateTransaction(t.id, { inVyapar: checked });
-    });
-    setTransactions(StorageService.getTransactions());
+    pendingTransactions.forEach((t) => applyUpdates(t, { inVyapar: checked }));
   };
 
   const stats = {
@@ -0,0 +1,466 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Label } from "../components/ui/Label";
+import { Select } from "../components/ui/Select";
+import { Checkbox } from "../components/ui/Checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
+import { OwnAccountsCard } from "../components/OwnAccountsCard";
+import { CategorisationRule, RuleActions, RuleConditions, RuleService } from "../services/ruleService";
+import { StorageService } from "../services/storageService";
+import {
+  NarrationChannel,
+  TRANSACTION_CATEGORIES,
+  Transaction,
+  TransactionCategory,
+  TransactionType,
+} from "../types/transaction";
+import { cn, formatCurrency, generateId } from "../lib/utils";
+import { ArrowDown, ArrowUp, Edit2, Play, Plus, Trash2, Wand2 } from "lucide-react";
+
+const CHANNELS: NarrationChannel[] = ["UPI", "NEFT", "RTGS", "IMPS", "CHEQUE", "CASH", "TRANSFER", "OTHER"];
+
+interface RuleFormData {
+  name: string;
+  type: TransactionType | "";
+  narrationPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  channel: NarrationChannel | "";
+  bankAccount: string;
+  referencePattern: string;
+  category: TransactionCategory | "";
+  partyName: string;
+  hold: boolean;
+  selfTransfer: boolean;
+  notes: string;
+}
+
+const EMPTY_FORM: RuleFormData = {
+  name: "",
+  type: "credit",
+  narrationPattern: "",
+  minAmount: "",
+  maxAmount: "",
+  channel: "",
+  bankAccount: "",
+  referencePattern: "",
+  category: "",
+  partyName: "",
+  hold: false,
+  selfTransfer: false,
+  notes: "",
+};
+
+function toFormData(rule: CategorisationRule): RuleFormData {
+  const { conditions, actions } = rule;
+  return {
+    name: rule.name,
+    type: conditions.type || "",
+    narrationPattern: conditions.narrationPattern || "",
+    minAmount: conditions.minAmount !== undefined ? String(conditions.minAmount) : "",
+    maxAmount: conditions.maxAmount !== undefined ? String(conditions.maxAmount) : "",
+    channel: conditions.channel || "",
+    bankAccount: conditions.bankAccount || "",
+    referencePattern: conditions.referencePattern || "",
+    category: actions.category || "",
+    partyName: actions.partyName || "",
+    hold: Boolean(actions.hold),
+    selfTransfer: Boolean(actions.selfTransfer),
+    notes: actions.notes || "",
+  };
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = parseFloat(value.replace(/,/g, ""));
+  return isNaN(amount) ? undefined : amount;
+}
+
+function toConditions(data: RuleFormData): RuleConditions {
+  return {
+    type: data.type || undefined,
+    narrationPattern: data.narrationPattern.trim() || undefined,
+    minAmount: parseAmount(data.minAmount),
+    maxAmount: parseAmount(data.maxAmount),
+    channel: data.channel || undefined,
+    bankAccount: data.bankAccount.trim() || undefined,
+    referencePattern: data.referencePattern.trim() || undefined,
+  };
+}
+
+function toActions(data: RuleFormData): RuleActions {
+  return {
+    category: data.category || undefined,
+    partyName: data.partyName.trim() || undefined,
+    hold: data.hold || undefined,
+    selfTransfer: data.selfTransfer || undefined,
+    notes: data.notes.trim() || undefined,
+  };
+}
+
+function describeConditions(conditions: RuleConditions): string {
+  const parts: string[] = [];
+  if (conditions.type) parts.push(conditions.type === "credit" ? "deposits" : "withdrawals");
+  if (conditions.narrationPattern) parts.push(`narration ~ /${conditions.narrationPattern}/`);
+  if (conditions.minAmount !== undefined) parts.push(`amount ≥ ${formatCurrency(conditions.minAmount)}`);
+  if (conditions.maxAmount !== undefined) parts.push(`amount ≤ ${formatCurrency(conditions.maxAmount)}`);
+  if (conditions.channel) parts.push(`channel ${conditions.channel}`);
+  if (conditions.bankAccount) parts.push(`account ${conditions.bankAccount}`);
+  if (conditions.referencePattern) parts.push(`reference ~ /${conditions.referencePattern}/`);
+  return parts.join(", ");
+}
+
+function describeActions(actions: RuleActions): string {
+  const parts: string[] = [];
+  if (actions.category) parts.push(`category "${actions.category}"`);
+  if (actions.partyName) parts.push(`party "${actions.partyName}"`);
+  if (actions.hold) parts.push("hold");
+  if (actions.selfTransfer) parts.push("self transfer");
+  if (actions.notes) parts.push(`note "${actions.notes}"`);
+  return parts.join(", ");
+}
+
+/**
+ * Pending = not on hold, not a self transfer, and not yet completed in Vyapar
+ * (same as the Pending tab on the Transactions page)
+ */
+function isPending(t: Transaction): boolean {
+  if (t.hold || t.selfTransfer) return false;
+  const isChecked = Boolean(t.added_to_vyapar || t.inVyapar);
+  const hasRef = Boolean(t.vyapar_reference_number && String(t.vyapar_reference_number).trim() !== "");
+  const hasPartyName = Boolean(t.partyName && t.partyName.trim() !== "");
+  return !(isChecked && hasRef && hasPartyName);
+}
+
+export function Rules() {
+  const [rules, setRules] = useState<CategorisationRule[]>(() => RuleService.getRules());
+  const [editingRule, setEditingRule] = useState<CategorisationRule | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+  const { register, handleSubmit, watch, reset } = useForm<RuleFormData>({ defaultValues: EMPTY_FORM });
+
+  const selectedType = watch("type");
+  const categoryOptions = selectedType
+    ? TRANSACTION_CATEGORIES[selectedType]
+    : [...TRANSACTION_CATEGORIES.credit, ...TRANSACTION_CATEGORIES.debit];
+
+  const reloadRules = () => setRules(RuleService.getRules());
+
+  const resetForm = () => {
+    setEditingRule(null);
+    setFormErrors([]);
+    reset(EMPTY_FORM);
+  };
+
+  const onSubmit = (data: RuleFormData) => {
+    const draft = { name: data.name.trim(), conditions: toConditions(data), actions: toActions(data) };
+    const errors = RuleService.validateRule(draft);
+    if (errors.length > 0) {
+      setFormErrors(errors);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    RuleService.saveRule({
+      id: editingRule?.id || generateId(),
+      enabled: editingRule?.enabled ?? true,
+      createdAt: editingRule?.createdAt || now,
+      updatedAt: now,
+      ...draft,
+    });
+    resetForm();
+    reloadRules();
+  };
+
+  const handleEdit = (rule: CategorisationRule) => {
+    setEditingRule(rule);
+    setFormErrors([]);
+    reset(toFormData(rule));
+  };
+
+  const handleDelete = (rule: CategorisationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    RuleService.deleteRule(rule.id);
+    if (editingRule?.id === rule.id) resetForm();
+    reloadRules();
+  };
+
+  const handleToggleEnabled = (rule: CategorisationRule) => {
+    RuleService.saveRule({ ...rule, enabled: !rule.enabled, updatedAt: new Date().toISOString() });
+    reloadRules();
+  };
+
+  const handleMove = (rule: CategorisationRule, direction: -1 | 1) => {
+    RuleService.moveRule(rule.id, direction);
+    reloadRules();
+  };
+
+  const handleRunOnPending = async () => {
+    setIsRunning(true);
+    setRunMessage(null);
+    try {
+      const transactions =
+        (await StorageService.refreshTransactions()) ?? (await StorageService.getLocalTransactions());
+      const pending = transactions.filter(isPending);
+      const { changes } = RuleService.applyRules(pending, rules);
+      changes.forEach(({ transaction, updates }) => {
+        StorageService.updateTransaction(transaction.id, updates, transaction);
+      });
+      setRunMessage(`Rules updated ${changes.length} of ${pending.length} pending transactions.`);
+    } catch (error) {
+      console.error("Error re-running rules:", error);
+      setRunMessage(`Failed to re-run rules: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-4xl font-display font-bold text-gradient">Rules</h1>
+          <p className="text-muted-foreground mt-2">
+            Categorise and route imported transactions automatically
+            <span className="ml-2 px-2 py-1 bg-secondary text-secondary-foreground rounded-full text-sm font-medium">
+              {rules.length} rules
+            </span>
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRunOnPending} disabled={isRunning || rules.length === 0}>
+          <Play className="h-4 w-4" />
+          {isRunning ? "Running..." : "Re-run on pending transactions"}
+        </Button>
+      </div>
+
+      {runMessage && (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-800">{runMessage}</p>
+        </div>
+      )}
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Rules in Priority Order
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {rules.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Wand2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No rules yet.</p>
+              <p className="text-sm mt-2">Add a rule below to categorise matching transactions on import.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule, index) => (
+                <div
+                  key={rule.id}
+                  className={cn(
+                    "flex items-center gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors",
+                    !rule.enabled && "opacity-60"
+                  )}
+                >
+                  <span className="text-sm font-semibold text-muted-foreground w-6">{index + 1}</span>
+                  <Checkbox
+                    checked={rule.enabled}
+                    onChange={() => handleToggleEnabled(rule)}
+                    title={rule.enabled ? "Disable rule" : "Enable rule"}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold">{rule.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      If {describeConditions(rule.conditions)} → {describeActions(rule.actions)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(rule, -1)}
+                      disabled={index === 0}
+                      className="p-2 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4 text-gray-600" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(rule, 1)}
+                      disabled={index === rules.length - 1}
+                      className="p-2 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4 text-gray-600" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleEdit(rule)}
+                      className="p-2 hover:bg-gray-100 rounded"
+                      title="Edit"
+                    >
+                      <Edit2 className="h-4 w-4 text-gray-600" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(rule)}
+                      className="p-2 hover:bg-red-100 rounded"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            {editingRule ? `Edit "${editingRule.name}"` : "New Rule"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="rule-name">Name *</Label>
+                <Input id="rule-name" {...register("name")} placeholder="e.g. Rent from tenant" />
+              </div>
+              <div>
+                <Label htmlFor="rule-type">Applies to</Label>
+                <Select id="rule-type" {...register("type")}>
+                  <option value="credit">Deposits</option>
+                  <option value="debit">Withdrawals</option>
+                  <option value="">Deposits and withdrawals</option>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold">Conditions (all must match)</h3>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="rule-narration">Narration pattern (regular expression)</Label>
+                  <Input id="rule-narration" {...register("narrationPattern")} placeholder="e.g. RENT|LEASE" />
+                </div>
+                <div>
+                  <Label htmlFor="rule-reference">Reference pattern (regular expression)</Label>
+                  <Input id="rule-reference" {...register("referencePattern")} placeholder="e.g. ^CHQ" />
+                </div>
+                <div>
+                  <Label htmlFor="rule-min">Minimum amount</Label>
+                  <Input id="rule-min" type="number" step="0.01" {...register("minAmount")} />
+                </div>
+                <div>
+                  <Label htmlFor="rule-max">Maximum amount</Label>
+                  <Input id="rule-max" type="number" step="0.01" {...register("maxAmount")} />
+                </div>
+                <div>
+                  <Label htmlFor="rule-channel">Channel</Label>
+                  <Select id="rule-channel" {...register("channel")}>
+                    <option value="">Any channel</option>
+                    {CHANNELS.map((channel) => (
+                      <option key={channel} value={channel}>
+                        {channel}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="rule-account">Bank account</Label>
+                  <Input id="rule-account" {...register("bankAccount")} placeholder="e.g. XXXX1234" />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold">Actions</h3>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="rule-category">Set category</Label>
+                  <Select id="rule-category" {...register("category")}>
+                    <option value="">Keep category</option>
+                    {categoryOptions.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="rule-party">Set party name (if blank)</Label>
+                  <Input id="rule-party" {...register("partyName")} />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="rule-notes">Set notes (if blank)</Label>
+                  <Input id="rule-notes" {...register("notes")} />
+                </div>
+                <div className="flex items-center gap-6">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox {...register("hold")} />
+                    Put on hold
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox {...register("selfTransfer")} />
+                    Mark as self transfer
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            {formErrors.length > 0 && (
+              <div className="p-4 bg-destructive/10 border border-destructive rounded-lg">
+                <ul className="text-sm text-destructive list-disc list-inside">
+                  {formErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" className="btn-gradient">
+                {editingRule ? "Save Rule" : "Add Rule"}
+              </Button>
+              {editingRule && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <OwnAccountsCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>How It Works</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm text-muted-foreground">
+          <p>
+            <strong className="text-foreground">On import:</strong> Each uploaded transaction is checked against the
+            rules from the top; the first enabled rule whose conditions all match is applied.
+          </p>
+          <p>
+            <strong className="text-foreground">Party name and notes</strong> are only filled in when the transaction
+            has none, so names you have typed are never overwritten.
+          </p>
+          <p>
+            <strong className="text-foreground">Re-run:</strong> Changed a rule? Re-run the rules on pending
+            transactions to update those already saved.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
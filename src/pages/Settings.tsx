@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Building2, CheckCircle2, Edit2, Plug, Plus, Trash2, XCircle } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Label } from "../components/ui/Label";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
+import {
+  Workspace,
+  WorkspaceInput,
+  WorkspaceService,
+  WorkspaceValidationError,
+} from "../services/workspaceService";
+import { testGoogleSheetsConnection } from "../services/googleSheetsService";
+import { StorageService } from "../services/storageService";
+import { switchToWorkspace } from "../services/workspaceSwitch";
+import { cn } from "../lib/utils";
+
+type ConnectionResult = { success: boolean; error?: string };
+
+const EMPTY_FORM: WorkspaceInput = { name: "", gstin: "", appsScriptUrl: "", vyaparRefPrefix: "" };
+
+function ConnectionResultBanner({ result }: { result: ConnectionResult }) {
+  return (
+    <div
+      className={cn(
+        "p-3 border rounded-lg flex items-start gap-2 text-sm",
+        result.success ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800"
+      )}
+    >
+      {result.success ? (
+        <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" />
+      ) : (
+        <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+      )}
+      <span>{result.success ? "Connected - the Apps Script answered." : result.error}</span>
+    </div>
+  );
+}
+
+export function Settings() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(WorkspaceService.getWorkspaces());
+  const activeWorkspace = WorkspaceService.getActiveWorkspace();
+  const [editingWorkspace, setEditingWorkspace] = useState<Workspace | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formTestResult, setFormTestResult] = useState<ConnectionResult | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, ConnectionResult>>({});
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const { register, handleSubmit, reset, getValues } = useForm<WorkspaceInput>({ defaultValues: EMPTY_FORM });
+
+  const usesFileServer = StorageService.getRemoteBackendId() === "file-server";
+
+  const reloadWorkspaces = () => setWorkspaces(WorkspaceService.getWorkspaces());
+
+  const resetForm = () => {
+    setEditingWorkspace(null);
+    setFormError(null);
+    setFormTestResult(null);
+    reset(EMPTY_FORM);
+  };
+
+  const onSubmit = (data: WorkspaceInput) => {
+    try {
+      if (editingWorkspace) {
+        WorkspaceService.updateWorkspace(editingWorkspace.id, data);
+      } else {
+        WorkspaceService.addWorkspace(data);
+      }
+    } catch (error) {
+      if (error instanceof WorkspaceValidationError) {
+        setFormError(error.message);
+        return;
+      }
+      throw error;
+    }
+
+    // The sync services picked up the old endpoint when the page loaded
+    if (editingWorkspace?.id === activeWorkspace.id && data.appsScriptUrl.trim() !== activeWorkspace.appsScriptUrl) {
+      window.location.reload();
+      return;
+    }
+    resetForm();
+    reloadWorkspaces();
+  };
+
+  const handleEdit = (workspace: Workspace) => {
+    setEditingWorkspace(workspace);
+    setFormError(null);
+    setFormTestResult(null);
+    reset({
+      name: workspace.name,
+      gstin: workspace.gstin || "",
+      appsScriptUrl: workspace.appsScriptUrl,
+      vyaparRefPrefix: workspace.vyaparRefPrefix || "",
+    });
+  };
+
+  const handleDelete = (workspace: Workspace) => {
+    if (
+      !confirm(
+        `Delete the workspace "${workspace.name}"? Its data stays in Google Sheets; changes it had not synced yet are lost.`
+      )
+    ) {
+      return;
+    }
+    WorkspaceService.deleteWorkspace(workspace.id);
+    if (editingWorkspace?.id === workspace.id) resetForm();
+    reloadWorkspaces();
+  };
+
+  const handleTest = async (workspace: Workspace) => {
+    setTestingId(workspace.id);
+    const result = await testGoogleSheetsConnection(workspace.appsScriptUrl);
+    setTestResults((results) => ({ ...results, [workspace.id]: result }));
+    setTestingId(null);
+  };
+
+  const handleFormTest = async () => {
+    setTestingId("form");
+    setFormTestResult(await testGoogleSheetsConnection(getValues("appsScriptUrl")));
+    setTestingId(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-4xl font-display font-bold text-gradient">Settings</h1>
+        <p className="text-muted-foreground mt-2">
+          The companies you keep records for, and where each one's data is synced to
+        </p>
+      </div>
+
+      {usesFileServer && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            This build syncs to the local file server (VITE_STORAGE_SERVER_URL), so the Apps Script URLs below are
+            not used. Each workspace keeps its own data on the server and its own local copy.
+          </p>
+        </div>
+      )}
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Workspaces
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-3">
+          {workspaces.map((workspace) => {
+            const isActive = workspace.id === activeWorkspace.id;
+            return (
+              <div
+                key={workspace.id}
+                className={cn(
+                  "p-4 border rounded-lg space-y-3",
+                  isActive ? "border-primary bg-primary/5" : "border-border/60"
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold">
+                      {workspace.name}
+                      {isActive && (
+                        <span className="ml-2 px-2 py-0.5 bg-primary text-primary-foreground rounded-full text-xs font-medium">
+                          Active
+                        </span>
+                      )}
+                    </p>
+                    {(workspace.gstin || workspace.vyaparRefPrefix) && (
+                      <p className="text-sm text-muted-foreground">
+                        {[
+                          workspace.gstin && `GSTIN ${workspace.gstin}`,
+                          workspace.vyaparRefPrefix && `Vyapar series ${workspace.vyaparRefPrefix}`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {workspace.appsScriptUrl || "No Apps Script URL - the data stays in this browser"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {!isActive && (
+                      <Button variant="outline" size="sm" onClick={() => switchToWorkspace(workspace)}>
+                        Switch
+                      </Button>
+                    )}
+                    {workspace.appsScriptUrl && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleTest(workspace)}
+                        disabled={testingId !== null}
+                        title="Test connection"
+                      >
+                        <Plug className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(workspace)} title="Edit">
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    {!isActive && (
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(workspace)} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {testingId === workspace.id && <p className="text-sm text-muted-foreground">Testing...</p>}
+                {testResults[workspace.id] && testingId !== workspace.id && (
+                  <ConnectionResultBanner result={testResults[workspace.id]} />
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-2 border-border/60 animate-fade-in">
+        <CardHeader className="bg-muted/30 border-b border-border/60">
+          <CardTitle className="flex items-center gap-2">
+            {editingWorkspace ? <Edit2 className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+            {editingWorkspace ? `Edit ${editingWorkspace.name}` : "Add Workspace"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="workspace-name">Name</Label>
+                <Input id="workspace-name" {...register("name")} placeholder="e.g. Sri Lakshmi Traders" />
+              </div>
+              <div>
+                <Label htmlFor="workspace-gstin">GSTIN (optional)</Label>
+                <Input id="workspace-gstin" {...register("gstin")} placeholder="e.g. 29ABCDE1234F1Z5" />
+              </div>
+              <div>
+                <Label htmlFor="workspace-vyapar-prefix">Vyapar reference series (optional)</Label>
+                <Input id="workspace-vyapar-prefix" {...register("vyaparRefPrefix")} placeholder="e.g. SLT/" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  How this company's Vyapar reference numbers start. A reference from another series is flagged
+                  before it is saved.
+                </p>
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="workspace-url">Apps Script web app URL</Label>
+                <Input
+                  id="workspace-url"
+                  {...register("appsScriptUrl")}
+                  placeholder="https://script.google.com/macros/s/.../exec"
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Deploy → Manage deployments in the Apps Script editor shows it. Leave it empty to keep the data in
+                  this browser only. Every company needs a sheet of its own. To connect a different sheet, add a
+                  workspace rather than changing this one - the local copy belongs to the sheet it was loaded from.
+                </p>
+              </div>
+            </div>
+
+            {formError && (
+              <div className="p-4 bg-destructive/10 border border-destructive rounded-lg">
+                <p className="text-sm text-destructive">{formError}</p>
+              </div>
+            )}
+
+            {formTestResult && <ConnectionResultBanner result={formTestResult} />}
+
+            <div className="flex gap-2">
+              <Button type="submit" className="btn-gradient">
+                {editingWorkspace ? "Save Workspace" : "Add Workspace"}
+              </Button>
+              <Button type="button" variant="outline" onClick={handleFormTest} disabled={testingId !== null}>
+                <Plug className="h-4 w-4" />
+                {testingId === "form" ? "Testing..." : "Test connection"}
+              </Button>
+              {editingWorkspace && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
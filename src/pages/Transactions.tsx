@@ -1,9 +1,11 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from "react";
-import { Transaction } from "../types/transaction";
+import { Transaction, TransactionType } from "../types/transaction";
 import { StorageService } from "../services/storageService";
 import { PartyMappingService } from "../services/partyMappingService";
-import { fetchTransactionsFromSheets, isGoogleSheetsConfigured } from "../services/googleSheetsService";
+import { WorkspaceService } from "../services/workspaceService";
+import { narrationDetailsOf } from "../services/narrationDecoder";
 import { formatDate } from "../lib/utils";
+import { compareCalendarDates } from "../lib/calendarDate";
 import { DatePicker } from "../components/ui/DatePicker";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import { Input } from "../components/ui/Input";
@@ -12,14 +14,22 @@ import { Button } from "../components/ui/Button";
 import { Search, CheckCircle2, X, Edit2, Check, XCircle, Sparkles, RefreshCw, Pencil, List, Grid, ArrowUpDown, ArrowUp, ArrowDown, AlertCircle, Clock, Printer } from "lucide-react";
 import { cn } from "../lib/utils";
 import { Label } from "../components/ui/Label";
+import { Select } from "../components/ui/Select";
 import { Modal } from "../components/ui/Modal";
+import { ConflictResolver } from "../components/ConflictResolver";
+import { TransactionHistory } from "../components/TransactionHistory";
 
 type ViewType = "pending" | "completed" | "hold" | "selfTransfer";
 
 export function Transactions() {
+  const { vyaparRefPrefix } = WorkspaceService.getActiveWorkspace();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [view, setView] = useState<ViewType>("pending");
+  // Deposits (credit) or withdrawals (debit) - each is reconciled separately against Vyapar
+  const [typeFilter, setTypeFilter] = useState<TransactionType>("credit");
+  // Bank account the transactions came in on ("" = all accounts)
+  const [accountFilter, setAccountFilter] = useState("");
   // Date filters - local to each view
   const [dateFromPending, setDateFromPending] = useState("");
   const [dateToPending, setDateToPending] = useState("");
@@ -47,6 +57,8 @@ export function Transactions() {
   const [editingPartyValue, setEditingPartyValue] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  // The remote backend couldn't be reached on the last refresh - showing the local copy
+  const [isOffline, setIsOffline] = useState(false);
   const [partySuggestions, setPartySuggestions] = useState<Record<string, string[] | null>>({});
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -61,7 +73,7 @@ export function Transactions() {
   const [modalVyaparRef, setModalVyaparRef] = useState("");
   const [modalSuggestions, setModalSuggestions] = useState<string[]>([]);
 
-  // Load transactions from Google Sheets (single source of truth - no local storage fallback)
+  // Load transactions from the local copy, refreshed from the remote backend when it can be reached
   const loadTransactions = useCallback(async () => {
     // Don't reload if user is currently typing in an input
     if (focusedInputId.current !== null) {
@@ -78,26 +90,23 @@ export function Transactions() {
     setIsLoading(true);
     
     try {
-      let allTransactions: Transaction[] = [];
-      
-      // ALWAYS fetch from Google Sheets (single source of truth)
-      if (isGoogleSheetsConfigured()) {
-        try {
-          const sheetsTransactions = await fetchTransactionsFromSheets();
-          // Always use what's in Google Sheets, even if empty
-          allTransactions = sheetsTransactions;
+      // Show the copy saved on this device straight away, then refresh it from the remote backend
+      let allTransactions: Transaction[] = await StorageService.getLocalTransactions();
+      if (allTransactions.length > 0 && focusedInputId.current === null) {
+        setTransactions((prev) => (prev.length === 0 ? allTransactions : prev));
+      }
+
+      if (StorageService.hasRemoteBackend()) {
+        const refreshed = await StorageService.refreshTransactions();
+        if (refreshed) {
+          allTransactions = refreshed;
           setLastSyncTime(new Date());
-          console.log(`Loaded ${sheetsTransactions.length} transactions from Google Sheets`);
-        } catch (error) {
-          console.error('Error fetching from Google Sheets:', error);
-          // On error, show empty list (don't fallback to local storage)
-          allTransactions = [];
-          alert('Failed to load transactions from Google Sheets. Please check your connection and try refreshing.');
+          setIsOffline(false);
+          console.log(`Loaded ${refreshed.length} transactions from ${StorageService.getRemoteBackendLabel()}`);
+        } else {
+          // Keep working from the local copy - edits are queued until the remote is back
+          setIsOffline(true);
         }
-      } else {
-        // If Google Sheets not configured, show empty list
-        console.warn('Google Sheets not configured. Showing empty transaction list.');
-        allTransactions = [];
       }
       
     // Migrate legacy inVyapar to added_to_vyapar
@@ -142,22 +151,20 @@ export function Transactions() {
         console.log(`Removed ${allTransactions.length - uniqueTransactions.length} duplicate transactions`);
       }
       
-    // Only show deposits (credits)
-      const creditTransactions = uniqueTransactions.filter((t) => t.type === "credit");
-      
       // Replace transactions completely (don't append)
+      // Deposits and withdrawals are both kept - the type toggle picks which are shown
       // Use functional update to ensure we're replacing, not merging with previous state
       // BUT: Don't update if user is currently typing (to prevent focus loss)
       if (focusedInputId.current === null) {
         setTransactions(() => {
           // Return a completely new array to ensure React sees it as a change
-          return [...creditTransactions];
+          return [...uniqueTransactions];
         });
     
     // Sync input values with transactions (but don't overwrite focused input)
     setInputValues((prev) => {
       const newValues = { ...prev };
-      creditTransactions.forEach((t) => {
+      uniqueTransactions.forEach((t) => {
         if (focusedInputId.current !== t.id && t.vyapar_reference_number) {
           newValues[t.id] = t.vyapar_reference_number;
         }
@@ -184,7 +191,10 @@ export function Transactions() {
 
   // Filter transactions based on view, date, and search
   const filteredTransactions = useMemo(() => {
-    let filtered = transactions;
+    let filtered = transactions.filter((t) => (t.type || "credit") === typeFilter);
+    if (accountFilter) {
+      filtered = filtered.filter((t) => t.bankAccount === accountFilter);
+    }
 
     // Apply view filter
     // Note: We check inputValues inside the filter function, but don't include it in dependencies
@@ -229,14 +239,10 @@ export function Transactions() {
 
     // Apply date filter
     if (dateFrom || dateTo) {
+      // Calendar dates compare as YYYY-MM-DD strings - both bounds are inclusive
       filtered = filtered.filter((t) => {
-        const tDate = new Date(t.date);
-        if (dateFrom && tDate < new Date(dateFrom)) return false;
-        if (dateTo) {
-          const toDate = new Date(dateTo);
-          toDate.setHours(23, 59, 59, 999);
-          if (tDate > toDate) return false;
-        }
+        if (dateFrom && compareCalendarDates(t.date, dateFrom) < 0) return false;
+        if (dateTo && compareCalendarDates(t.date, dateTo) > 0) return false;
         return true;
       });
     }
@@ -249,27 +255,32 @@ export function Transactions() {
           t.description.toLowerCase().includes(query) ||
           t.partyName.toLowerCase().includes(query) ||
           t.referenceNumber?.toLowerCase().includes(query) ||
-          t.vyapar_reference_number?.toLowerCase().includes(query)
+          t.vyapar_reference_number?.toLowerCase().includes(query) ||
+          // Exact identifiers decoded from the narration (UTR/RRN, UPI ID, payer account)
+          [t.utr, t.payerVpa, t.payerAccount].some((id) => id && id.toLowerCase() === query)
       );
     }
 
     // Apply date sorting if enabled, otherwise default to newest first
     if (dateSort) {
-      filtered = [...filtered].sort((a, b) => {
-        const dateA = new Date(a.date).getTime();
-        const dateB = new Date(b.date).getTime();
-        return dateSort === "asc" ? dateA - dateB : dateB - dateA;
-      });
+      filtered = [...filtered].sort((a, b) =>
+        dateSort === "asc" ? compareCalendarDates(a.date, b.date) : compareCalendarDates(b.date, a.date)
+      );
     } else {
       // Default: newest first
-      filtered = [...filtered].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      filtered = [...filtered].sort((a, b) => compareCalendarDates(b.date, a.date));
     }
 
     return filtered;
     // Note: inputValues is accessed via closure but not in dependencies
     // This prevents re-renders while typing, but filter still works correctly
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [transactions, searchQuery, view, dateFrom, dateTo, dateSort]);
+  }, [transactions, typeFilter, accountFilter, searchQuery, view, dateFrom, dateTo, dateSort]);
+
+  const bankAccounts = useMemo(
+    () => [...new Set(transactions.map((t) => t.bankAccount).filter(Boolean) as string[])].sort(),
+    [transactions]
+  );
 
   // Pagination calculations
   const totalPages = Math.max(1, Math.ceil(filteredTransactions.length / itemsPerPage));
@@ -280,7 +291,7 @@ export function Transactions() {
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, view, dateFrom, dateTo]);
+  }, [searchQuery, view, typeFilter, accountFilter, dateFrom, dateTo]);
 
   // Load suggestions for visible transactions when page changes or transactions load
   useEffect(() => {
@@ -342,60 +353,13 @@ export function Transactions() {
           
           // Continue to other methods if no valid matches found
           {
-            // Method 1: Extract text between colons (CHQ DEP patterns like "CHQ DEP - HYDERABAD - CTS CLG2 - WBO HYD: COMPANY NAME :BANK")
-            const colonPattern = desc.match(/:\s*([A-Z][A-Z\s\w&]+?)\s*:/i);
-            if (colonPattern && colonPattern[1]) {
-              const extracted = colonPattern[1].trim();
-              // Filter out common bank names and locations
-              const excludeWords = ['union bank', 'state bank', 'canara bank', 'punjab national', 'indian bank', 'hyderabad', 'wbo', 'cts', 'clg'];
-              const extractedLower = extracted.toLowerCase();
-              const shouldExclude = excludeWords.some(word => extractedLower.includes(word));
-              if (!shouldExclude && extracted.length > 3 && extracted.length < 100) {
-                extractedPartyName = extracted;
-                // Check if we have a learned mapping for this extracted name
-                foundSuggestion = await PartyMappingService.getSuggestedName(extractedLower);
-                // Only use suggestion if it's not blank
-                if (!foundSuggestion || foundSuggestion.trim().length === 0) {
-                  foundSuggestion = null;
-                }
-                // If we found a clear party name from colon pattern, STOP searching further
-                // Don't continue to other methods - we've found the actual party name in the narration
-                // Only show suggestion if we have a learned mapping, otherwise let user enter it manually
-              }
-            }
-            
-            // Method 2: Extract from patterns (enhanced for sample data) - only if we haven't found a clear party name from colon pattern
-            if (!foundSuggestion && !extractedPartyName) {
-            const patterns = [
-              // NEFT CR-XXXX-COMPANY NAME-SRI RAJA... pattern
-              /(?:NEFT|IMPS|RTGS)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w&]+?)[\s\-]+(?:SRI\s+RAJA|SRI\s+RAJESHWARI|[A-Z]{2,4}\d{6,})/i,
-              // CHQ DEP patterns with company name before bank name
-              /CHQ\s+DEP[^:]*:\s*([A-Z][A-Z\s\w&]+?)\s*:[A-Z\s]+BANK/i,
-              // Generic NEFT/IMPS patterns
-              /(?:NEFT|IMPS|RTGS|UPI|FT)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w&]+?)[\s\-]+(?:[A-Z]{4,}|[A-Z]{2}\d{10,}|\d{10,})/i,
-              /(?:NEFT|IMPS|RTGS|UPI|FT|CHQ)\s*(?:CR|DR)?[\s\-]+\d+[\s\-]+([A-Z][A-Z\s\w&]+?)(?:\s*-\s*\d+|\s*$)/i,
-              /(?:UPI|NEFT|IMPS)[\s\-]+[\d\-@]+[\s\-]+([A-Z][A-Z\s\w&]+?)[\s\-]+(?:[A-Z0-9@]+|\d+)/i,
-            ];
-            
-            for (const pattern of patterns) {
-              const match = desc.match(pattern);
-              if (match && match[1]) {
-                const extracted = match[1].trim().toLowerCase();
-                // Filter out "SRI RAJA" patterns and other unwanted text
-                if (!extracted.includes('sri raja') && extracted.length > 3 && extracted.length < 100) {
-                  foundSuggestion = await PartyMappingService.getSuggestedName(extracted);
-                  // Only use suggestion if it's not blank
-                  if (foundSuggestion && foundSuggestion.trim().length > 0) {
-                    break;
-                  } else {
-                    foundSuggestion = null;
-                  }
-                }
-              }
-            }
-          }
+            // Method 1: Payer VPA, account number or name decoded from the narration
+            // A decoded payer name is the actual party in the narration, so stop searching further -
+            // only show a suggestion if we have a learned mapping, otherwise let user enter it manually
+            extractedPartyName = narrationDetailsOf(transaction).payerName || null;
+            foundSuggestion = await PartyMappingService.getSuggestedNameFromNarration(desc);
           
-          // Method 3: Extract meaningful parts - only if we haven't found a clear party name from colon pattern
+          // Method 2: Extract meaningful parts - only if we haven't found a clear party name in the narration
           if (!foundSuggestion && !extractedPartyName) {
             const parts = desc
               .split(/[\s\-:]+/)
@@ -424,7 +388,7 @@ export function Transactions() {
             }
           }
           
-          // Method 4: Clean full description - only if we haven't found a clear party name yet
+          // Method 3: Clean full description - only if we haven't found a clear party name yet
           if (!foundSuggestion && !extractedPartyName) {
             let cleanedDesc = desc
               .replace(/REF\s*NO[:\-]?\s*[A-Z0-9]+/gi, " ")
@@ -529,12 +493,20 @@ export function Transactions() {
     }, 500);
   };
 
+  // A reference from another company's Vyapar series is usually entered in the wrong workspace
+  const confirmVyaparRef = (reference: string) => {
+    const problem = WorkspaceService.checkVyaparRef(reference);
+    return !problem || confirm(`${problem}. Save it anyway?`);
+  };
+
   // Handle confirm (tick icon)
   const handleConfirm = (id: string) => {
     const transaction = transactions.find((t) => t.id === id);
     if (transaction) {
       const finalValue = inputValues[id] ?? transaction.vyapar_reference_number ?? "";
       if (finalValue.trim()) {
+        if (!confirmVyaparRef(finalValue)) return;
+
         // Remove hold status when completing transaction
         const updates: any = {
           added_to_vyapar: true,
@@ -683,36 +655,10 @@ export function Transactions() {
       // Track all learned patterns for this party name
       const learnedPatterns: string[] = [];
       
-      // AUTOMATIC TRAINING METHOD 1: Extract text between transaction codes and account numbers
-      // Learn ALL matching patterns automatically (not just the first one)
-      const patterns = [
-        // NEFT CR-SBIN0002776-MERCURE MEDI SURGE...-SBINN52025110406690875
-        /(?:NEFT|IMPS|RTGS|UPI|FT)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w]+?)[\s\-]+(?:[A-Z]{4,}|[A-Z]{2}\d{10,}|\d{10,})/i,
-        // CODE - NUMBER - PARTYNAME - NUMBER
-        /(?:NEFT|IMPS|RTGS|UPI|FT|CHQ)\s*(?:CR|DR)?[\s\-]+\d+[\s\-]+([A-Z][A-Z\s\w]+?)(?:\s*-\s*\d+|\s*$)/i,
-        // UPI-YASHIKA SURGICALS-KEERAM1@YBL (party name early)
-        /(?:UPI|NEFT|IMPS)[\s\-]+[\d\-@]+[\s\-]+([A-Z][A-Z\s\w]+?)[\s\-]+(?:[A-Z0-9@]+|\d+)/i,
-      ];
-      
-      // Learn from ALL patterns that match (automatic training)
-      for (const pattern of patterns) {
-        const match = desc.match(pattern);
-        if (match && match[1]) {
-          const extracted = match[1].trim().toLowerCase();
-          const significantWords = partyWords.filter(w => w.length > 3);
-          const hasMatch = significantWords.length > 0 && 
-            significantWords.some(word => extracted.includes(word));
-          
-          if (hasMatch && extracted.length > 3 && extracted.length < 100 && !learnedPatterns.includes(extracted)) {
-            await PartyMappingService.learnMapping(extracted, newName).catch(err => {
-              console.error('Error learning mapping:', err);
-            });
-            learnedPatterns.push(extracted);
-          }
-        }
-      }
+      // The payer VPA, account number and name decoded from the narration are learned by
+      // autoTrainFromNarration below - these methods learn the narration text around them
       
-      // AUTOMATIC TRAINING METHOD 2: Find party name as it appears in narration (most reliable)
+      // AUTOMATIC TRAINING METHOD 1: Find party name as it appears in narration (most reliable)
       // Learn the exact pattern as it appears
       if (partyWords.length >= 1) {
         const partyNamePattern = partyWords
@@ -731,23 +677,7 @@ export function Transactions() {
         }
       }
       
-      // AUTOMATIC TRAINING METHOD 3: Extract text between colons (for CHQ DEP patterns)
-      const colonPattern = desc.match(/:\s*([A-Z][A-Z\s\w]+?)\s*:/i);
-      if (colonPattern && colonPattern[1]) {
-        const extracted = colonPattern[1].trim().toLowerCase();
-        const significantWords = partyWords.filter(w => w.length > 3);
-        const hasMatch = significantWords.length > 0 && 
-          significantWords.some(word => extracted.includes(word));
-        
-        if (hasMatch && extracted.length > 3 && extracted.length < 100 && !learnedPatterns.includes(extracted)) {
-          await PartyMappingService.learnMapping(extracted, newName).catch(err => {
-            console.error('Error learning mapping:', err);
-          });
-          learnedPatterns.push(extracted);
-        }
-      }
-      
-      // AUTOMATIC TRAINING METHOD 4: Extract ALL meaningful parts from narration
+      // AUTOMATIC TRAINING METHOD 2: Extract ALL meaningful parts from narration
       // System automatically learns multiple variations
       const parts = desc
         .split(/[\s\-:]+/)
@@ -775,7 +705,7 @@ export function Transactions() {
         }
       }
       
-      // AUTOMATIC TRAINING METHOD 5: Learn from cleaned full description
+      // AUTOMATIC TRAINING METHOD 3: Learn from cleaned full description
       let cleanedDesc = desc
         .replace(/REF\s*NO[:\-]?\s*[A-Z0-9]+/gi, " ")
         .replace(/TXN\s*ID[:\-]?\s*[A-Z0-9]+/gi, " ")
@@ -797,7 +727,7 @@ export function Transactions() {
         learnedPatterns.push(cleanedDesc);
       }
       
-      // AUTOMATIC TRAINING METHOD 6: Learn key phrases (first 2-4 words, last 2-4 words)
+      // AUTOMATIC TRAINING METHOD 4: Learn key phrases (first 2-4 words, last 2-4 words)
       // This helps system recognize partial matches
       const allWords = cleanedDesc.split(/\s+/).filter(w => w.length > 2);
       if (allWords.length >= 2) {
@@ -965,9 +895,20 @@ export function Transactions() {
     const transaction = transactions.find((t) => t.id === transactionId);
     if (!transaction) return;
     
-    StorageService.updateTransaction(transactionId, { selfTransfer: false }, transaction);
+    StorageService.updateTransaction(transactionId, { selfTransfer: false, linkedTransactionId: undefined }, transaction);
+    // Not a transfer after all - the other side of the pair is no longer linked to it
+    const linked = transaction.linkedTransactionId
+      ? transactions.find((t) => t.id === transaction.linkedTransactionId)
+      : undefined;
+    if (linked) {
+      StorageService.updateTransaction(linked.id, { linkedTransactionId: undefined }, linked);
+    }
     setTransactions((prev) =>
-      prev.map((t) => (t.id === transactionId ? { ...t, selfTransfer: false, date: t.date } : t))
+      prev.map((t) => {
+        if (t.id === transactionId) return { ...t, selfTransfer: false, linkedTransactionId: undefined, date: t.date };
+        if (linked && t.id === linked.id) return { ...t, linkedTransactionId: undefined };
+        return t;
+      })
     );
   };
 
@@ -1023,30 +964,12 @@ export function Transactions() {
         }
       }
       
-      // If no suggestions from word-by-word matching, try pattern extraction
+      // If no suggestions from word-by-word matching, try the decoded narration
       if (foundSuggestions.length === 0) {
-        // Try to extract party name from description using various patterns
-        const patterns = [
-          /(?:NEFT|IMPS|RTGS|UPI|FT)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w]+?)[\s\-]+(?:[A-Z]{4,}|[A-Z]{2}\d{10,}|\d{10,})/i,
-          /(?:NEFT|IMPS|RTGS|UPI|FT|CHQ)\s*(?:CR|DR)?[\s\-]+\d+[\s\-]+([A-Z][A-Z\s\w]+?)(?:\s*-\s*\d+|\s*$)/i,
-          /(?:UPI|NEFT|IMPS)[\s\-]+[\d\-@]+[\s\-]+([A-Z][A-Z\s\w]+?)[\s\-]+(?:[A-Z0-9@]+|\d+)/i,
-        ];
-        
-        let extractedName = "";
-        for (const pattern of patterns) {
-          const match = desc.match(pattern);
-          if (match && match[1]) {
-            extractedName = match[1].trim();
-            break;
-          }
-        }
-        
-        // If we extracted a name, try to get suggestion for it
-        if (extractedName) {
-          const suggested = await PartyMappingService.getSuggestedName(extractedName);
-          if (suggested && suggested.trim().length > 0) {
-            foundSuggestions = [suggested];
-          }
+        // Try the payer VPA, account number and name decoded from the narration
+        const suggested = await PartyMappingService.getSuggestedNameFromNarration(desc);
+        if (suggested) {
+          foundSuggestions = [suggested];
         }
       }
       
@@ -1100,6 +1023,7 @@ export function Transactions() {
       alert("Please enter both Party Name and Vyapar Reference Number");
       return;
     }
+    if (!confirmVyaparRef(vyaparRef)) return;
     
     // Update transaction with party name and Vyapar ref
     // NEVER UPDATE DATE - preserve original date
@@ -1367,18 +1291,58 @@ export function Transactions() {
             Transactions
           </h1>
           <p className="text-muted-foreground mt-2">
-            Manage deposit transactions and track Vyapar entries
+            Manage {typeFilter === "credit" ? "deposit" : "withdrawal"} transactions and track Vyapar entries
             <span className="ml-2 px-2 py-1 bg-secondary text-secondary-foreground rounded-full text-sm font-medium">
               {filteredTransactions.length} found
             </span>
-            {isGoogleSheetsConfigured() && lastSyncTime && (
+            {StorageService.hasRemoteBackend() && lastSyncTime && (
               <span className="ml-3 text-sm text-slate-500">
                 • Last synced: {lastSyncTime.toLocaleTimeString()}
               </span>
             )}
           </p>
         </div>
-        {isGoogleSheetsConfigured() && (
+        <div className="flex items-center gap-2">
+          {bankAccounts.length > 0 && (
+            <Select
+              value={accountFilter}
+              onChange={(e) => setAccountFilter(e.target.value)}
+              className="w-44"
+              aria-label="Bank account"
+            >
+              <option value="">All accounts</option>
+              {bankAccounts.map((account) => (
+                <option key={account} value={account}>
+                  {account}
+                </option>
+              ))}
+            </Select>
+          )}
+          <div className="flex rounded-lg border border-border/60 p-1 bg-card/50">
+            <button
+              onClick={() => setTypeFilter("credit")}
+              className={cn(
+                "px-4 py-1.5 text-sm font-semibold rounded-md transition-all duration-200",
+                typeFilter === "credit"
+                  ? "bg-primary text-primary-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
+              )}
+            >
+              Deposits
+            </button>
+            <button
+              onClick={() => setTypeFilter("debit")}
+              className={cn(
+                "px-4 py-1.5 text-sm font-semibold rounded-md transition-all duration-200",
+                typeFilter === "debit"
+                  ? "bg-primary text-primary-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
+              )}
+            >
+              Withdrawals
+            </button>
+          </div>
+        {StorageService.hasRemoteBackend() && (
           <Button
             variant="outline"
             onClick={loadTransactions}
@@ -1389,8 +1353,20 @@ export function Transactions() {
             {isLoading ? 'Loading...' : 'Refresh'}
           </Button>
         )}
+        </div>
       </div>
 
+      {isOffline && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            {StorageService.getRemoteBackendLabel()} could not be reached. Showing the copy saved on this device -
+            your changes are kept and will be sent when the connection is back.
+          </p>
+        </div>
+      )}
+
+      <ConflictResolver onResolved={loadTransactions} />
+
       {/* Tabs - Minimal & Clean */}
       <div className="flex gap-2 border-b border-border/60 bg-card/50 rounded-t-lg p-1">
         <button
@@ -2180,7 +2156,7 @@ export function Transactions() {
                                   }
                                     }, 300);
                                   }}
-                                  placeholder="Enter Vyapar ref no."
+                                  placeholder={vyaparRefPrefix ? `${vyaparRefPrefix}...` : "Enter Vyapar ref no."}
                                   className="w-full max-w-xs border-2 border-slate-400 focus:border-primary focus:ring-2 focus:ring-primary/20"
                                   id={`input-${transaction.id}`}
                                 />
@@ -2436,11 +2412,14 @@ export function Transactions() {
                 id="modal-vyapar-ref"
                 value={modalVyaparRef}
                 onChange={(e) => setModalVyaparRef(e.target.value)}
-                placeholder="Enter Vyapar reference number"
+                placeholder={vyaparRefPrefix ? `e.g. ${vyaparRefPrefix}...` : "Enter Vyapar reference number"}
                 className="h-12 input-modern"
               />
             </div>
 
+            {/* Who changed what, and when */}
+            <TransactionHistory transactionId={editingTransaction.id} />
+
             {/* Action Buttons */}
             <div className="flex justify-between gap-3 pt-6 border-t border-border">
               <Button 
@@ -0,0 +1,202 @@
+// Audit trail of transaction changes
+// StorageService records every change it makes to a transaction here: one
+// entry per changed field with the old and new value, when, and who (the
+// operator name entered on this device). Entries are kept locally and queued
+// for the remote backend's history, which is append only - nothing ever
+// edits or removes an entry.
+
+import { HistoryEntry, Transaction } from "../types/transaction";
+import { LocalStore } from "./localStore";
+import { getRemoteBackend } from "./storageBackends";
+import { MERGE_FIELDS } from "./transactionConflicts";
+
+const OPERATOR_NAME_KEY = "operator_name";
+
+// Bookkeeping that changes on every save and says nothing about what the operator did
+const UNTRACKED_FIELDS = new Set<string>(["updatedAt", "createdAt", "version", "inVyapar"]);
+
+const FIELD_LABELS: Partial<Record<keyof Transaction, string>> = {
+  ...Object.fromEntries(MERGE_FIELDS.map(({ key, label }) => [key, label])),
+  date: "Date",
+  amount: "Amount",
+  description: "Narration",
+  type: "Type",
+  referenceNumber: "Bank Ref No.",
+  bankAccount: "Bank Account",
+  ruleId: "Rule",
+};
+
+let flushing = false;
+// Set when entries are added while a flush is running, so they don't wait for the next one
+let flushRequested = false;
+
+function createEntryId(): string {
+  return `hist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Empty, missing and false all mean "not set" (as in transactionConflicts)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  const normalise = (value: unknown) =>
+    value === undefined || value === null || value === false ? "" : String(value).trim();
+  return normalise(a) === normalise(b);
+}
+
+function formatValue(value: unknown): string {
+  if (value === true) return "Yes";
+  if (value === false) return "No";
+  if (value === undefined || value === null) return "";
+  return String(value).trim();
+}
+
+export class AuditTrail {
+  /**
+   * The name changes made on this device are recorded under
+   */
+  static getOperatorName(): string {
+    return localStorage.getItem(OPERATOR_NAME_KEY) || "";
+  }
+
+  static setOperatorName(name: string): void {
+    localStorage.setItem(OPERATOR_NAME_KEY, name.trim());
+  }
+
+  static getFieldLabel(field?: keyof Transaction): string {
+    if (!field) return "";
+    return FIELD_LABELS[field] || field;
+  }
+
+  /**
+   * One "created" entry per new transaction
+   */
+  static recordCreated(transactions: Transaction[]): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const operator = this.getOperatorName() || "Unknown";
+    return this.append(
+      transactions.map((t) => ({
+        id: createEntryId(),
+        transactionId: t.id,
+        action: "created",
+        timestamp,
+        operator,
+      }))
+    );
+  }
+
+  /**
+   * One entry for every field that differs between the two copies
+   * @param action - "merged" when the change came from resolving a conflict with someone else's edit
+   */
+  static recordChanges(
+    before: Transaction,
+    after: Transaction,
+    action: "updated" | "merged" = "updated"
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const operator = this.getOperatorName() || "Unknown";
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Transaction)[]);
+    const entries: HistoryEntry[] = [];
+    fields.forEach((field) => {
+      if (UNTRACKED_FIELDS.has(field) || isSameValue(before[field], after[field])) return;
+      entries.push({
+        id: createEntryId(),
+        transactionId: after.id,
+        action,
+        field,
+        oldValue: formatValue(before[field]),
+        newValue: formatValue(after[field]),
+        timestamp,
+        operator,
+      });
+    });
+    return this.append(entries);
+  }
+
+  /**
+   * Add entries recorded elsewhere (restored from a backup) as they are
+   */
+  static importEntries(entries: HistoryEntry[]): Promise<void> {
+    return this.append(entries);
+  }
+
+  /**
+   * Store entries locally and queue them for the remote backend. A failure
+   * is logged rather than thrown, so it never blocks the change itself.
+   */
+  private static async append(entries: HistoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      await LocalStore.putHistory(entries);
+      if (getRemoteBackend()) {
+        await LocalStore.putHistoryOutbox(entries);
+        this.flush();
+      }
+    } catch (error) {
+      console.error("Error recording transaction history:", error);
+    }
+  }
+
+  /**
+   * Send queued entries to the remote backend. Called after every change and
+   * with each sync outbox flush, so entries recorded offline go out later.
+   */
+  static async flush(): Promise<void> {
+    const backend = getRemoteBackend();
+    if (!backend) return;
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+    if (flushing) {
+      flushRequested = true;
+      return;
+    }
+
+    flushing = true;
+    flushRequested = false;
+    let failed = false;
+    try {
+      const queued = await LocalStore.getHistoryOutbox();
+      if (queued.length === 0) return;
+      await backend.appendHistory(queued);
+      await LocalStore.deleteHistoryOutboxEntries(queued.map((e) => e.id));
+    } catch (error) {
+      failed = true;
+      console.error("Error sending transaction history - will retry:", error);
+    } finally {
+      flushing = false;
+      // After a failure, leave the retry to the next outbox flush
+      if (flushRequested && !failed) this.flush();
+    }
+  }
+
+  /**
+   * Pull the shared history from the remote backend into the local copy, so
+   * other operators' changes show up. Returns false when it can't be reached.
+   */
+  static async refresh(): Promise<boolean> {
+    const backend = getRemoteBackend();
+    if (!backend) return true;
+    try {
+      await LocalStore.putHistory(await backend.getHistory());
+      return true;
+    } catch (error) {
+      console.error(`${backend.label} history could not be read - showing the local copy:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * History from the local copy, newest first
+   * @param transactionId - only the entries for this transaction
+   */
+  static async getHistory(transactionId?: string): Promise<HistoryEntry[]> {
+    try {
+      const entries = await LocalStore.getHistory();
+      return entries
+        .filter((e) => !transactionId || e.transactionId === transactionId)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    } catch (error) {
+      console.error("Error reading transaction history:", error);
+      return [];
+    }
+  }
+}
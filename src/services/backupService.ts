@@ -0,0 +1,426 @@
+// Workspace backup and restore
+// A backup is one JSON file with everything the app keeps: transactions (as
+// the remote backend has them), parties, party name mappings, categorisation
+// rules, statement templates, own accounts, the uploaded-files registry,
+// settings and the audit trail. Files carry a schema version; older files are
+// migrated step by step before they are checked and restored.
+//
+// Restore either merges (adds what is missing, leaves everything else alone)
+// or replaces (makes each section match the backup). Transactions and the
+// audit trail are never deleted, even by a replace: rows that aren't in the
+// backup are kept, since the remote backend may hold work done since.
+
+import { HistoryEntry, Party, Transaction } from "../types/transaction";
+import { AuditTrail } from "./auditTrail";
+import { OwnAccount, OwnAccountService } from "./ownAccountService";
+import { PartyMappingService, PartyNameMapping } from "./partyMappingService";
+import { CategorisationRule, RuleService } from "./ruleService";
+import { StatementTemplate, StatementTemplateService } from "./statementTemplateService";
+import { StorageService } from "./storageService";
+import { UploadHistoryService, UploadedFileInfo } from "./uploadHistoryService";
+import { WorkspaceService } from "./workspaceService";
+
+/**
+ * 1: transactions and parties (the old StorageService.exportData)
+ * 2: everything - see WorkspaceBackup
+ */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+const BACKUP_APP_ID = "credit-records";
+
+export interface WorkspaceBackup {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  transactions: Transaction[];
+  parties: Party[];
+  partyMappings: PartyNameMapping[];
+  rules: CategorisationRule[];
+  templates: StatementTemplate[];
+  ownAccounts: OwnAccount[];
+  selfTransferPairWindowDays: number;
+  uploadedFiles: UploadedFileInfo[];
+  settings: Record<string, unknown>;
+  history: HistoryEntry[];
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export type BackupSection =
+  | "transactions"
+  | "parties"
+  | "partyMappings"
+  | "rules"
+  | "templates"
+  | "ownAccounts"
+  | "uploadedFiles"
+  | "settings"
+  | "history";
+
+const SECTION_LABELS: Record<BackupSection, string> = {
+  transactions: "Transactions",
+  parties: "Parties",
+  partyMappings: "Party name mappings",
+  rules: "Categorisation rules",
+  templates: "Statement templates",
+  ownAccounts: "Own accounts",
+  uploadedFiles: "Uploaded files",
+  settings: "Settings",
+  history: "Audit trail entries",
+};
+
+// Sections a replace never deletes from (settings keys can be overwritten but not removed)
+const KEPT_SECTIONS: BackupSection[] = ["transactions", "history", "settings"];
+
+/**
+ * What a restore will do to one section
+ */
+export interface RestorePreviewSection {
+  section: BackupSection;
+  label: string;
+  /** In the backup but not here - will be added */
+  added: number;
+  /** Here with different values - will be set back to the backup's */
+  updated: number;
+  /** Here but not in the backup - will be deleted */
+  removed: number;
+  /** Left as they are */
+  unchanged: number;
+}
+
+export interface RestorePreview {
+  sections: RestorePreviewSection[];
+  /** False when the remote backend couldn't be reached and the backup was compared with the local copy */
+  fromRemote: boolean;
+}
+
+export interface ParsedBackup {
+  backup: WorkspaceBackup;
+  /** Schema version of the file, when it was older and has been migrated */
+  migratedFrom?: number;
+}
+
+export interface CreatedBackup {
+  backup: WorkspaceBackup;
+  /** False when the remote backend couldn't be reached and the local copy was backed up instead */
+  fromRemote: boolean;
+}
+
+/**
+ * The file can't be restored - not a backup, damaged, or from a newer version of the app
+ */
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+// Older schema versions, each migrated to the next one up
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (data) => ({
+    ...data,
+    app: BACKUP_APP_ID,
+    schemaVersion: 2,
+    transactions: ((data.transactions as Transaction[]) || []).map((t) =>
+      t && t.added_to_vyapar === undefined ? { ...t, added_to_vyapar: Boolean(t.inVyapar) } : t
+    ),
+    parties: data.parties || [],
+    partyMappings: [],
+    rules: [],
+    templates: [],
+    ownAccounts: [],
+    selfTransferPairWindowDays: OwnAccountService.getPairWindowDays(),
+    uploadedFiles: [],
+    settings: {},
+    history: [],
+  }),
+};
+
+/**
+ * JSON with object keys sorted, so two copies of a record compare equal
+ * whatever order their fields were written in
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Transactions are compared without the bookkeeping that changes on every save
+ */
+const SAVE_BOOKKEEPING_FIELDS = new Set(["version", "updatedAt"]);
+
+function transactionContent(t: Transaction): unknown {
+  return Object.fromEntries(Object.entries(t).filter(([field]) => !SAVE_BOOKKEEPING_FIELDS.has(field)));
+}
+
+interface SectionDiff<T> {
+  added: T[];
+  changed: T[];
+  /** Keys of the records that aren't in the backup */
+  removed: string[];
+  unchanged: number;
+}
+
+function diffByKey<T>(
+  current: T[],
+  incoming: T[],
+  keyOf: (item: T) => string,
+  contentOf: (item: T) => unknown = (item) => item
+): SectionDiff<T> {
+  const currentByKey = new Map(current.map((item) => [keyOf(item), item]));
+  const incomingKeys = new Set(incoming.map(keyOf));
+  const diff: SectionDiff<T> = { added: [], changed: [], removed: [], unchanged: 0 };
+  incoming.forEach((item) => {
+    const existing = currentByKey.get(keyOf(item));
+    if (!existing) {
+      diff.added.push(item);
+    } else if (stableStringify(contentOf(existing)) !== stableStringify(contentOf(item))) {
+      diff.changed.push(item);
+    } else {
+      diff.unchanged++;
+    }
+  });
+  currentByKey.forEach((_, key) => {
+    if (!incomingKeys.has(key)) diff.removed.push(key);
+  });
+  return diff;
+}
+
+const uploadedFileKey = (f: UploadedFileInfo) => `${f.name}|${f.size}|${f.lastModified}`;
+
+function requireArray(data: Record<string, unknown>, section: BackupSection): unknown[] {
+  const value = data[section];
+  if (!Array.isArray(value)) {
+    throw new BackupFormatError(`The backup has no list of ${SECTION_LABELS[section].toLowerCase()}`);
+  }
+  return value;
+}
+
+/**
+ * Check every record in a section has the fields a restore relies on
+ */
+function requireFields(data: Record<string, unknown>, section: BackupSection, fields: string[]): void {
+  requireArray(data, section).forEach((item, index) => {
+    const record = item as Record<string, unknown> | null;
+    const missing = fields.find((field) => !record || record[field] === undefined || record[field] === "");
+    if (missing) {
+      throw new BackupFormatError(
+        `${SECTION_LABELS[section]}: record ${index + 1} has no ${missing} - the file may be damaged`
+      );
+    }
+  });
+}
+
+export class BackupService {
+  /**
+   * Bundle everything into a backup. Transactions, mappings and the audit
+   * trail are read from the remote backend when it can be reached.
+   */
+  static async createBackup(): Promise<CreatedBackup> {
+    const refreshed = await StorageService.refreshTransactions();
+    const transactions = (refreshed ?? (await StorageService.getLocalTransactions())).filter((t) => t.id);
+    const historyRefreshed = await AuditTrail.refresh();
+
+    const backup: WorkspaceBackup = {
+      app: BACKUP_APP_ID,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      transactions,
+      parties: await StorageService.getParties(),
+      partyMappings: await PartyMappingService.getMappings(),
+      rules: RuleService.getRules(),
+      templates: StatementTemplateService.getTemplates(),
+      ownAccounts: OwnAccountService.getOwnAccounts(),
+      selfTransferPairWindowDays: OwnAccountService.getPairWindowDays(),
+      uploadedFiles: UploadHistoryService.getUploadedFiles(),
+      settings: await StorageService.getSettings(),
+      history: await AuditTrail.getHistory(),
+    };
+    return { backup, fromRemote: refreshed !== null && historyRefreshed };
+  }
+
+  /**
+   * A backup holds the active workspace only, so with more than one workspace
+   * its name says which
+   */
+  static getFileName(backup: WorkspaceBackup): string {
+    const date = backup.exportedAt.slice(0, 10);
+    if (WorkspaceService.getWorkspaces().length < 2) {
+      return `credit-records-backup-${date}.json`;
+    }
+    const workspace = WorkspaceService.getActiveWorkspace()
+      .name.toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    return `credit-records-backup-${workspace || "workspace"}-${date}.json`;
+  }
+
+  /**
+   * Read a backup file, migrating older schema versions.
+   * Throws BackupFormatError when it can't be restored.
+   */
+  static parseBackup(text: string): ParsedBackup {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new BackupFormatError("The file is not valid JSON - is it a backup from this app?");
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new BackupFormatError("The file is not a backup from this app");
+    }
+
+    // Files from the old export have no schema version, only transactions and parties
+    let version = data.schemaVersion === undefined && Array.isArray(data.transactions) ? 1 : Number(data.schemaVersion);
+    if (!Number.isInteger(version) || version < 1 || (version > 1 && data.app !== BACKUP_APP_ID)) {
+      throw new BackupFormatError("The file is not a backup from this app");
+    }
+    if (version > BACKUP_SCHEMA_VERSION) {
+      throw new BackupFormatError(
+        `The backup was made by a newer version of the app (schema ${version}). Update the app to restore it.`
+      );
+    }
+    const fileVersion = version;
+    while (version < BACKUP_SCHEMA_VERSION) {
+      data = MIGRATIONS[version](data);
+      version++;
+    }
+
+    requireFields(data, "transactions", ["id", "date", "amount"]);
+    requireFields(data, "parties", ["id", "name"]);
+    requireFields(data, "partyMappings", ["id", "originalName", "correctedName"]);
+    requireFields(data, "rules", ["id", "conditions", "actions"]);
+    requireFields(data, "templates", ["id", "fingerprint", "columnIndexes"]);
+    requireFields(data, "ownAccounts", ["id"]);
+    requireFields(data, "uploadedFiles", ["name"]);
+    requireFields(data, "history", ["id", "transactionId", "action"]);
+    if (!data.settings || typeof data.settings !== "object" || Array.isArray(data.settings)) {
+      throw new BackupFormatError("The backup has no settings");
+    }
+    if ((data.transactions as Transaction[]).some((t) => !Number.isFinite(Number(t.amount)))) {
+      throw new BackupFormatError("Transactions: an amount is not a number - the file may be damaged");
+    }
+
+    return {
+      backup: data as unknown as WorkspaceBackup,
+      migratedFrom: fileVersion < BACKUP_SCHEMA_VERSION ? fileVersion : undefined,
+    };
+  }
+
+  /**
+   * What restoring the backup would change, section by section, compared with
+   * the remote backend's data when it can be reached
+   */
+  static async previewRestore(backup: WorkspaceBackup, mode: RestoreMode): Promise<RestorePreview> {
+    const fromRemote = await this.refreshFromRemote();
+    const diffs = await this.diffWithCurrent(backup);
+    const sections = (Object.keys(SECTION_LABELS) as BackupSection[]).map((section) => {
+      const diff = diffs[section];
+      const replacing = mode === "replace";
+      const deletes = replacing && !KEPT_SECTIONS.includes(section);
+      // Transactions are overwritten (not deleted) by a replace; the audit trail never changes
+      const overwrites = replacing && section !== "history";
+      return {
+        section,
+        label: SECTION_LABELS[section],
+        added: diff.added.length,
+        updated: overwrites ? diff.changed.length : 0,
+        removed: deletes ? diff.removed.length : 0,
+        unchanged:
+          diff.unchanged + (overwrites ? 0 : diff.changed.length) + (deletes ? 0 : diff.removed.length),
+      };
+    });
+    return { sections, fromRemote };
+  }
+
+  /**
+   * Restore a backup (see the file comment for what merge and replace do)
+   */
+  static async restoreBackup(backup: WorkspaceBackup, mode: RestoreMode): Promise<void> {
+    // Others may have changed things since the preview
+    await this.refreshFromRemote();
+    const diffs = await this.diffWithCurrent(backup);
+    const replacing = mode === "replace";
+
+    await StorageService.saveNewTransactions(diffs.transactions.added);
+    if (replacing) await StorageService.restoreTransactions(diffs.transactions.changed);
+
+    if (replacing) {
+      await StorageService.saveParties(backup.parties);
+    } else if (diffs.parties.added.length > 0) {
+      await StorageService.saveParties([...(await StorageService.getParties()), ...diffs.parties.added]);
+    }
+
+    await PartyMappingService.restoreMappings(
+      diffs.partyMappings.added,
+      replacing ? diffs.partyMappings.changed : [],
+      replacing ? diffs.partyMappings.removed : []
+    );
+
+    if (replacing) {
+      RuleService.saveRules(backup.rules);
+      StatementTemplateService.saveTemplates(backup.templates);
+      OwnAccountService.saveOwnAccounts(backup.ownAccounts);
+      OwnAccountService.setPairWindowDays(backup.selfTransferPairWindowDays);
+      UploadHistoryService.saveUploadedFiles(backup.uploadedFiles);
+    } else {
+      RuleService.saveRules([...RuleService.getRules(), ...diffs.rules.added]);
+      StatementTemplateService.saveTemplates([...StatementTemplateService.getTemplates(), ...diffs.templates.added]);
+      OwnAccountService.saveOwnAccounts([...OwnAccountService.getOwnAccounts(), ...diffs.ownAccounts.added]);
+      UploadHistoryService.saveUploadedFiles([...UploadHistoryService.getUploadedFiles(), ...diffs.uploadedFiles.added]);
+    }
+
+    // Settings are a flat key/value map; a key can be overwritten but not removed
+    const settingsToSave = replacing ? [...diffs.settings.added, ...diffs.settings.changed] : diffs.settings.added;
+    for (const { key, value } of settingsToSave) {
+      await StorageService.saveSetting(key, value);
+    }
+
+    await AuditTrail.importEntries(diffs.history.added);
+  }
+
+  /**
+   * Bring the local copy's transactions and audit trail up to date, so they are
+   * what a restore compares against. Returns false when the remote can't be reached.
+   */
+  private static async refreshFromRemote(): Promise<boolean> {
+    const refreshed = await StorageService.refreshTransactions();
+    const historyRefreshed = await AuditTrail.refresh();
+    return refreshed !== null && historyRefreshed;
+  }
+
+  private static async diffWithCurrent(backup: WorkspaceBackup) {
+    const settingEntries = (settings: Record<string, unknown>) =>
+      Object.entries(settings).map(([key, value]) => ({ key, value }));
+    const byId = <T extends { id: string }>(item: T) => item.id;
+
+    return {
+      transactions: diffByKey(
+        (await StorageService.getLocalTransactions()).filter((t) => t.id),
+        backup.transactions,
+        byId,
+        transactionContent
+      ),
+      parties: diffByKey(await StorageService.getParties(), backup.parties, byId),
+      partyMappings: diffByKey(await PartyMappingService.getMappings(), backup.partyMappings, byId),
+      rules: diffByKey(RuleService.getRules(), backup.rules, byId),
+      templates: diffByKey(StatementTemplateService.getTemplates(), backup.templates, byId),
+      ownAccounts: diffByKey(OwnAccountService.getOwnAccounts(), backup.ownAccounts, byId),
+      uploadedFiles: diffByKey(UploadHistoryService.getUploadedFiles(), backup.uploadedFiles, uploadedFileKey),
+      settings: diffByKey(
+        settingEntries(await StorageService.getSettings()),
+        settingEntries(backup.settings),
+        (entry) => entry.key
+      ),
+      history: diffByKey(await AuditTrail.getHistory(), backup.history, byId),
+    };
+  }
+}
@@ -0,0 +1,162 @@
+// Running closing-balance check for imported statements
+// Walks the statement rows in order and verifies
+// previous balance + deposit - withdrawal = closing balance. A break points to a
+// missing, duplicated or mis-parsed row.
+
+import { StatementRow } from "./bankProfiles";
+
+// Balances are in rupees with paise - anything below half a paisa is rounding
+const TOLERANCE = 0.005;
+
+export interface BalanceBreak {
+  /** 1-based position of the row among the statement's data rows */
+  rowNumber: number;
+  date: string;
+  narration: string;
+  expectedBalance: number;
+  statementBalance: number;
+  difference: number;
+  /** Transaction created from this row, if it was imported */
+  transactionId?: string;
+  /** Workbook sheet the row is on, when several sheets were merged */
+  sheetName?: string;
+}
+
+export interface BalanceCheckResult {
+  /** False when the statement has no usable closing balance column */
+  checked: boolean;
+  passed: boolean;
+  rowsChecked: number;
+  breaks: BalanceBreak[];
+  openingBalance?: number;
+  closingBalance?: number;
+  /** Statements exported newest-first are checked bottom-up */
+  order: "ascending" | "descending";
+}
+
+/**
+ * Parse a closing balance, keeping its sign.
+ * Handles "1,234.50", "1,234.50 Cr", "1,234.50 Dr", "-1234.5" and "(1,234.50)".
+ * Returns null when the cell is empty or not a number.
+ */
+export function parseBalance(value: string | number | undefined): number | null {
+  if (typeof value === "number") {
+    return isNaN(value) ? null : value;
+  }
+  if (value === undefined || value === null) return null;
+
+  let cleaned = String(value).trim();
+  if (cleaned === "" || cleaned === "-" || cleaned === "—") return null;
+
+  let sign = 1;
+  if (/dr\.?$/i.test(cleaned)) sign = -1;
+  if (/^\(.*\)$/.test(cleaned)) sign = -1;
+
+  cleaned = cleaned
+    .replace(/(cr|dr)\.?$/i, "")
+    .replace(/[₹$€£,()\s]/g, "");
+
+  if (cleaned === "" || cleaned === "-") return null;
+
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : sign * parsed;
+}
+
+function parseMovement(value: string | number | undefined): number {
+  const parsed = parseBalance(value);
+  return parsed === null ? 0 : Math.abs(parsed);
+}
+
+function walkRows(
+  rows: StatementRow[],
+  order: number[],
+  rowTransactionIds: (string | undefined)[]
+): { breaks: BalanceBreak[]; rowsChecked: number; opening?: number; closing?: number } {
+  const breaks: BalanceBreak[] = [];
+  let previousBalance: number | null = null;
+  let rowsChecked = 0;
+  let opening: number | undefined;
+  let closing: number | undefined;
+
+  for (const index of order) {
+    const row = rows[index];
+    const deposit = parseMovement(row.deposit);
+    const withdrawal = parseMovement(row.withdrawal);
+    const balance = parseBalance(row.balance);
+
+    if (balance === null) {
+      // No balance on this row - carry the running balance forward
+      if (previousBalance !== null) {
+        previousBalance = previousBalance + deposit - withdrawal;
+      }
+      continue;
+    }
+
+    if (previousBalance === null) {
+      // First balance seen: the opening balance is what it was before this row
+      opening = balance - deposit + withdrawal;
+    } else {
+      rowsChecked++;
+      const expected = previousBalance + deposit - withdrawal;
+      if (Math.abs(expected - balance) > TOLERANCE) {
+        breaks.push({
+          rowNumber: index + 1,
+          date: String(row.date ?? ""),
+          narration: String(row.narration ?? ""),
+          expectedBalance: Math.round(expected * 100) / 100,
+          statementBalance: balance,
+          difference: Math.round((balance - expected) * 100) / 100,
+          transactionId: rowTransactionIds[index],
+        });
+      }
+    }
+
+    // Re-sync on the statement's own balance so one bad row is reported once
+    previousBalance = balance;
+    closing = balance;
+  }
+
+  return { breaks, rowsChecked, opening, closing };
+}
+
+/**
+ * Check that the closing balance column runs continuously through the statement.
+ * rowTransactionIds[i] is the id of the transaction created from rows[i], if any.
+ */
+export function checkBalanceContinuity(
+  rows: StatementRow[],
+  rowTransactionIds: (string | undefined)[] = []
+): BalanceCheckResult {
+  const balanceCount = rows.filter((row) => parseBalance(row.balance) !== null).length;
+  if (balanceCount < 2) {
+    return { checked: false, passed: true, rowsChecked: 0, breaks: [], order: "ascending" };
+  }
+
+  const ascendingOrder = rows.map((_, i) => i);
+  const ascending = walkRows(rows, ascendingOrder, rowTransactionIds);
+  if (ascending.breaks.length === 0) {
+    return {
+      checked: true,
+      passed: true,
+      rowsChecked: ascending.rowsChecked,
+      breaks: [],
+      openingBalance: ascending.opening,
+      closingBalance: ascending.closing,
+      order: "ascending",
+    };
+  }
+
+  // Some banks export newest-first - use whichever direction reconciles better
+  const descending = walkRows(rows, [...ascendingOrder].reverse(), rowTransactionIds);
+  const best = descending.breaks.length < ascending.breaks.length ? descending : ascending;
+
+  return {
+    checked: true,
+    passed: best.breaks.length === 0,
+    rowsChecked: best.rowsChecked,
+    breaks: best.breaks,
+    openingBalance: best.opening,
+    closingBalance: best.closing,
+    order: best === descending ? "descending" : "ascending",
+  };
+}
@@ -1,31 +1,38 @@
 import Papa from "papaparse";
 import { Transaction } from "../types/transaction";
 import { generateId } from "../lib/utils";
-
-export interface BankCSVRow {
-  Date?: string;
-  "Transaction Date"?: string;
-  Narration?: string;
-  "Chq./Ref.No."?: string;
-  "Chq/Ref.No."?: string;
-  "Value Dt"?: string;
-  "Value Date"?: string;
-  "Withdrawal Amt."?: string;
-  "Withdrawal Amt"?: string;
-  "Deposit Amt."?: string;
-  "Deposit Amt"?: string;
-  "Closing Balance"?: string;
-}
+import { CalendarDate, calendarDateFromLocal, calendarDateFromParts } from "../lib/calendarDate";
+import {
+  BankProfile,
+  ImportMode,
+  StatementDateFormat,
+  StatementParseResult,
+  StatementRow,
+  UnrecognisedStatementError,
+  describeImportMode,
+  extractStatementRows,
+  monthIndexFromName,
+} from "./bankProfiles";
+import { matchStatement } from "./statementTemplateService";
+import { checkBalanceContinuity, parseBalance } from "./balanceContinuity";
+import { RowOutcome, RowSkip, buildImportReport, isRowSkip, skipRow } from "./importReport";
+import { ParseProgressCallback, isProgressDue, reportParseProgress } from "./parseProgress";
+import { detectStatementAccount, tagBankAccount, uniqueAccounts } from "./statementAccount";
+import { decodeNarration } from "./narrationDecoder";
+
+export type BankCSVRow = StatementRow;
 
 export class BankCSVParser {
   /**
-   * Parse bank CSV with specific format:
-   * Date, Narration, Chq./Ref.No., Value Dt, Withdrawal Amt., Deposit Amt., Closing Balance
-   * Only processes rows where Deposit Amt. > 0
+   * Parse a bank statement CSV.
+   * The header row and column layout are detected from the bank profile registry
+   * (HDFC, ICICI, SBI, Axis, Kotak, Union Bank, Canara, or a generic fallback),
+   * or from a column template saved with the mapping wizard.
+   * Depending on the import mode, keeps rows with a deposit amount > 0 (as credits),
+   * a withdrawal amount > 0 (as debits), or both
    */
-  static parseFile(file: File): Promise<Transaction[]> {
+  static parseFile(file: File, mode: ImportMode = "deposits"): Promise<StatementParseResult> {
     return new Promise((resolve, reject) => {
-      // First, read the file as text to find the header row
       const reader = new FileReader();
       reader.onload = (e) => {
         const text = e.target?.result as string;
@@ -33,124 +40,7 @@ export class BankCSVParser {
           reject(new Error("Failed to read file"));
           return;
         }
-
-        // Find the header row (contains "Date", "Narration", "Deposit Amt.")
-        const lines = text.split("\n");
-        let headerRowIndex = -1;
-        let headerRow = "";
-
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].toLowerCase();
-          if (
-            line.includes("date") &&
-            (line.includes("narration") || line.includes("description")) &&
-            (line.includes("deposit") || line.includes("deposit amt"))
-          ) {
-            headerRowIndex = i;
-            headerRow = lines[i];
-            break;
-          }
-        }
-
-        if (headerRowIndex === -1) {
-          reject(
-            new Error(
-              "Could not find header row with Date, Narration, and Deposit Amt. columns"
-            )
-          );
-          return;
-        }
-
-        console.log("Found header row at line:", headerRowIndex + 1);
-        console.log("Header row:", headerRow);
-
-        // Create a new CSV starting from the header row
-        const dataLines = lines.slice(headerRowIndex);
-        const csvContent = dataLines.join("\n");
-
-        // Parse the CSV content
-        Papa.parse(csvContent, {
-          header: true,
-          skipEmptyLines: true,
-          transformHeader: (header) => header.trim(),
-          transform: (value) => (value ? value.trim() : ""),
-          complete: (results) => {
-            try {
-              console.log("PapaParse complete. Rows:", results.data.length);
-              console.log("CSV Headers:", results.meta.fields);
-
-              if (results.errors && results.errors.length > 0) {
-                console.warn("CSV parsing errors:", results.errors);
-              }
-
-              if (!results.data || results.data.length === 0) {
-                reject(new Error("CSV file appears to be empty or has no data rows"));
-                return;
-              }
-
-              // Filter out separator rows (rows with mostly asterisks, dashes, or empty)
-              const validRows = (results.data as any[]).filter((row) => {
-                const values = Object.values(row);
-                // Check if row has meaningful data (not just separators)
-                const hasData = values.some(
-                  (v) => {
-                    const str = String(v || "").trim();
-                    return (
-                      str !== "" &&
-                      !str.match(/^[*\-]+$/) && // Not just asterisks or dashes
-                      !str.match(/^[*\s\-]+$/) // Not just asterisks, spaces, or dashes
-                    );
-                  }
-                );
-                return hasData;
-              });
-
-              console.log(
-                `Filtered ${validRows.length} valid rows from ${results.data.length} total rows`
-              );
-
-              if (validRows.length === 0) {
-                reject(new Error("No valid data rows found after filtering separator rows"));
-                return;
-              }
-
-              const transactions = this.parseRows(validRows as BankCSVRow[]);
-
-              if (transactions.length === 0) {
-                // Provide more helpful error message
-                const sampleRow = validRows[0] as any;
-                const availableColumns = sampleRow
-                  ? Object.keys(sampleRow).join(", ")
-                  : "none";
-                console.log("Sample row:", sampleRow);
-                reject(
-                  new Error(
-                    `No deposit transactions found. Only rows with Deposit Amt. > 0 are processed.\n\n` +
-                    `Found columns: ${availableColumns}\n` +
-                    `Sample row values: ${JSON.stringify(sampleRow)}\n` +
-                    `Please check that the Deposit Amt. column has values > 0.`
-                  )
-                );
-                return;
-              }
-
-              console.log(
-                "Successfully parsed deposit transactions:",
-                transactions.length
-              );
-              resolve(transactions);
-            } catch (error) {
-              console.error("Error processing parsed data:", error);
-              reject(error);
-            }
-          },
-          error: (error) => {
-            console.error("PapaParse error:", error);
-            reject(
-              new Error(`Failed to parse CSV: ${error.message || "Unknown error"}`)
-            );
-          },
-        });
+        this.parseText(text, mode).then(resolve, reject);
       };
 
       reader.onerror = () => {
@@ -161,23 +51,147 @@ export class BankCSVParser {
     });
   }
 
-  static parseRows(rows: BankCSVRow[]): Transaction[] {
+  /**
+   * Parse the text of a bank statement CSV, reporting progress as rows are read and mapped
+   */
+  static parseText(
+    text: string,
+    mode: ImportMode = "deposits",
+    onProgress?: ParseProgressCallback
+  ): Promise<StatementParseResult> {
+    return new Promise((resolve, reject) => {
+      const grid: string[][] = [];
+      const errors: Papa.ParseError[] = [];
+
+      // Parse without headers - the header row is found by profile detection
+      Papa.parse<string[]>(text, {
+        header: false,
+        skipEmptyLines: true,
+        transform: (value) => (value ? value.trim() : ""),
+        step: (results) => {
+          grid.push(results.data);
+          errors.push(...results.errors);
+          if (onProgress && isProgressDue(grid.length)) {
+            onProgress({ stage: "reading", rowsRead: grid.length, transactionsFound: 0 });
+          }
+        },
+        complete: () => {
+          try {
+            console.log("PapaParse complete. Rows:", grid.length);
+
+            if (errors.length > 0) {
+              console.warn("CSV parsing errors:", errors);
+            }
+
+            if (grid.length === 0) {
+              reject(new Error("CSV file appears to be empty or has no data rows"));
+              return;
+            }
+
+            resolve(this.parseGrid(grid, mode, onProgress));
+          } catch (error) {
+            console.error("Error processing parsed data:", error);
+            reject(error);
+          }
+        },
+        error: (error: Error) => {
+          console.error("PapaParse error:", error);
+          reject(
+            new Error(`Failed to parse CSV: ${error.message || "Unknown error"}`)
+          );
+        },
+      });
+    });
+  }
+
+  /**
+   * Parse raw statement rows (one array of cells per line)
+   */
+  static parseGrid(
+    grid: string[][],
+    mode: ImportMode = "deposits",
+    onProgress?: ParseProgressCallback
+  ): StatementParseResult {
+    const match = matchStatement(grid);
+    if (!match) {
+      throw new UnrecognisedStatementError(grid);
+    }
+
+    console.log(
+      `Detected ${match.profile.name} format, header at line ${match.headerRowIndex + 1}:`,
+      grid[match.headerRowIndex]
+    );
+
+    const { rows, sources, dropped } = extractStatementRows(grid, match);
+    if (rows.length === 0) {
+      throw new Error("No data rows found below the header row");
+    }
+
+    const account = detectStatementAccount(grid.slice(0, match.headerRowIndex));
+    if (account) {
+      console.log("Detected statement account:", account.maskedAccount);
+    }
+
+    const rowTransactionIds: (string | undefined)[] = [];
+    const rowOutcomes: RowOutcome[] = [];
+    const transactions = tagBankAccount(
+      this.parseRows(rows, match.profile, mode, rowTransactionIds, rowOutcomes, onProgress),
+      account
+    );
+    const report = buildImportReport(dropped, sources, rowOutcomes);
+
+    if (transactions.length === 0) {
+      // Returned anyway: the report says why each row was skipped
+      console.warn(`No ${describeImportMode(mode)} transactions found in this ${match.profile.name} statement`);
+    }
+
+    const balanceCheck = checkBalanceContinuity(rows, rowTransactionIds);
+    if (balanceCheck.checked && !balanceCheck.passed) {
+      console.warn(`Closing balance check found ${balanceCheck.breaks.length} break(s):`, balanceCheck.breaks);
+    }
+
+    console.log(`Successfully parsed ${describeImportMode(mode)} transactions:`, transactions.length);
+    return { transactions, profile: match.profile, balanceCheck, report, accounts: uniqueAccounts([account]) };
+  }
+
+  static parseRows(
+    rows: BankCSVRow[],
+    profile?: BankProfile,
+    mode: ImportMode = "deposits",
+    rowTransactionIds?: (string | undefined)[],
+    rowOutcomes?: RowOutcome[],
+    onProgress?: ParseProgressCallback
+  ): Transaction[] {
     const transactions: Transaction[] = [];
 
     // Debug: Log first row to see structure
     if (rows.length > 0) {
       console.log("First row sample:", rows[0]);
-      console.log("Available columns:", Object.keys(rows[0]));
     }
 
     rows.forEach((row, index) => {
       try {
-        const transaction = this.parseRow(row, index);
-        if (transaction) {
-          transactions.push(transaction);
+        const result = this.parseRow(row, index, profile?.dateFormat, mode);
+        if (isRowSkip(result)) {
+          if (rowOutcomes) {
+            rowOutcomes[index] = { outcome: result.outcome, reason: result.reason };
+          }
+          return;
+        }
+        transactions.push(result);
+        if (rowTransactionIds) {
+          rowTransactionIds[index] = result.id;
+        }
+        if (rowOutcomes) {
+          rowOutcomes[index] = { outcome: "imported", reason: "", transactionId: result.id };
         }
       } catch (error) {
         console.warn(`Failed to parse row ${index + 1}:`, row, error);
+        if (rowOutcomes) {
+          rowOutcomes[index] = { outcome: "error", reason: error instanceof Error ? error.message : String(error) };
+        }
+      } finally {
+        reportParseProgress(onProgress, index, rows.length, transactions.length);
       }
     });
 
@@ -185,139 +199,72 @@ export class BankCSVParser {
     return transactions;
   }
 
-  static parseRow(row: BankCSVRow, index: number): Transaction | null {
-    // Use flexible column matching (case-insensitive, handles variations)
-    const rowKeys = Object.keys(row);
-    const rowLower = Object.fromEntries(
-      rowKeys.map((k) => [k.toLowerCase().trim(), row[k]])
-    );
-
-    // Find date column (flexible matching)
-    let dateStr = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (
-        keyLower.includes("date") &&
-        !keyLower.includes("value") &&
-        !keyLower.includes("closing")
-      ) {
-        dateStr = String(row[key] || "");
-        break;
-      }
-    }
+  static parseRow(
+    row: BankCSVRow,
+    index: number,
+    dateFormat?: StatementDateFormat,
+    mode: ImportMode = "deposits"
+  ): Transaction | RowSkip {
+    const dateStr = String(row.date ?? "").trim();
     if (!dateStr) {
-      dateStr = String(
-        rowLower["date"] ||
-        rowLower["transaction date"] ||
-        rowLower["value dt"] ||
-        rowLower["value date"] ||
-        ""
-      );
-    }
-
-    if (!dateStr || dateStr === "undefined" || dateStr === "null") {
       if (index < 3) {
         // Only log first few rows to avoid spam
-        console.warn(`Row ${index + 1}: No date found. Available columns:`, rowKeys);
+        console.warn(`Row ${index + 1}: No date found`, row);
       }
-      return null;
+      return skipRow("skipped-invalid-date", "No date");
     }
 
     // Parse date
-    const date = this.parseDate(dateStr);
+    const date = this.parseDate(dateStr, dateFormat);
     if (!date) {
       if (index < 3) {
         console.warn(`Row ${index + 1}: Invalid date format: ${dateStr}`);
       }
-      return null;
-    }
-
-    // Find deposit amount column (flexible matching)
-    let depositAmtStr = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (
-        (keyLower.includes("deposit") && keyLower.includes("amt")) ||
-        (keyLower.includes("deposit") && keyLower.includes("amount")) ||
-        (keyLower === "deposit amt.") ||
-        (keyLower === "deposit amt") ||
-        (keyLower === "deposit amount")
-      ) {
-        depositAmtStr = String(row[key] || "0");
-        break;
-      }
-    }
-    if (!depositAmtStr) {
-      depositAmtStr = String(
-        rowLower["deposit amt."] ||
-        rowLower["deposit amt"] ||
-        rowLower["deposit amount"] ||
-        "0"
-      );
+      return skipRow("skipped-invalid-date", `Unrecognised date "${dateStr}"`);
     }
 
-    const depositAmount = this.parseAmount(depositAmtStr);
-
-    // Debug first few rows
-    if (index < 3) {
-      console.log(`Row ${index + 1}: Deposit amount found: "${depositAmtStr}" = ${depositAmount}`);
-    }
-
-    // Only process deposits > 0
-    if (depositAmount <= 0) {
-      return null; // Skip withdrawals and zero amounts
-    }
-
-    // Find narration column (flexible matching)
-    let narration = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (keyLower.includes("narration") || keyLower.includes("description")) {
-        narration = String(row[key] || "");
-        break;
-      }
-    }
-    if (!narration) {
-      narration = String(rowLower["narration"] || rowLower["description"] || "");
+    const depositAmount = this.parseAmount(row.deposit ?? "");
+    const withdrawalAmount = this.parseAmount(row.withdrawal ?? "");
+
+    let type: "credit" | "debit";
+    let amount: number;
+    if (mode !== "withdrawals" && depositAmount > 0) {
+      type = "credit";
+      amount = depositAmount;
+    } else if (mode !== "deposits" && withdrawalAmount > 0) {
+      type = "debit";
+      amount = withdrawalAmount;
+    } else if (depositAmount > 0) {
+      return skipRow("skipped-deposit", `Deposit of ${depositAmount} - only withdrawals are being imported`);
+    } else if (withdrawalAmount > 0) {
+      return skipRow("skipped-withdrawal", `Withdrawal of ${withdrawalAmount} - only deposits are being imported`);
+    } else {
+      return skipRow("skipped-zero-amount", "No deposit or withdrawal amount");
     }
 
-    // Find reference number column (flexible matching)
-    let referenceNumber = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (
-        keyLower.includes("ref") ||
-        keyLower.includes("chq") ||
-        keyLower.includes("cheque")
-      ) {
-        referenceNumber = String(row[key] || "");
-        break;
-      }
-    }
-    if (!referenceNumber) {
-      referenceNumber = String(
-        rowLower["chq./ref.no."] ||
-        rowLower["chq/ref.no."] ||
-        rowLower["ref no"] ||
-        ""
-      );
-    }
+    const narration = String(row.narration ?? "").trim();
+    const referenceNumber = String(row.reference ?? "").trim();
+    const valueDate = row.valueDate ? this.parseDate(String(row.valueDate).trim(), dateFormat) : null;
+    const closingBalance = parseBalance(row.balance);
 
     // Leave party name blank - user will enter it manually and system will learn
     const partyName = "";
 
     // Auto-categorize
-    const category = this.autoCategorize(narration);
+    const category = type === "credit" ? this.autoCategorize(narration) : this.autoCategorizeDebit(narration);
 
     const transaction: Transaction = {
       id: generateId(),
-      date: date.toISOString().split("T")[0],
-      amount: depositAmount,
+      date,
+      amount: amount,
       description: narration,
-      type: "credit",
+      type: type,
       category: category,
       partyName: partyName,
       referenceNumber: referenceNumber || undefined,
+      valueDate: valueDate || undefined,
+      closingBalance: closingBalance ?? undefined,
+      ...decodeNarration(narration),
       added_to_vyapar: false,
       vyapar_reference_number: undefined,
       createdAt: new Date().toISOString(),
@@ -327,42 +274,62 @@ export class BankCSVParser {
     return transaction;
   }
 
-  static parseDate(dateStr: string): Date | null {
+  /**
+   * Statement date text to a calendar date (YYYY-MM-DD), built from the day,
+   * month and year numbers so the local timezone can't shift it
+   */
+  static parseDate(dateStr: string, dateFormat?: StatementDateFormat): CalendarDate | null {
     if (!dateStr) return null;
 
+    // Text-month dates (SBI style: "1 Apr 2024", "01-Apr-24")
+    const textMonth = dateStr.match(/(\d{1,2})[\s\-/]([A-Za-z]{3,9})[\s\-/,]+(\d{2,4})/);
+    if (textMonth) {
+      const month = monthIndexFromName(textMonth[2]);
+      if (month !== -1) {
+        const year = parseInt(textMonth[3]);
+        const fullYear = year < 100 ? (year < 50 ? 2000 + year : 1900 + year) : year;
+        return calendarDateFromParts(fullYear, month + 1, parseInt(textMonth[1]));
+      }
+    }
+
     // Try common formats
     const formats = [
-      /(\d{2})\/(\d{2})\/(\d{4})/, // DD/MM/YYYY
-      /(\d{2})-(\d{2})-(\d{4})/, // DD-MM-YYYY
+      /(\d{1,2})\/(\d{1,2})\/(\d{4})/, // DD/MM/YYYY
+      /(\d{1,2})[-.](\d{1,2})[-.](\d{4})/, // DD-MM-YYYY or DD.MM.YYYY
       /(\d{4})-(\d{2})-(\d{2})/, // YYYY-MM-DD
-      /(\d{2})\/(\d{2})\/(\d{2})/, // DD/MM/YY
+      /(\d{1,2})[/-](\d{1,2})[/-](\d{2})\b/, // DD/MM/YY
     ];
 
+    // Profiles that export ISO dates should not have them read as DD-MM
+    if (dateFormat === "YYYY-MM-DD") {
+      formats.unshift(formats.splice(2, 1)[0]);
+    }
+
     for (const format of formats) {
       const match = dateStr.match(format);
       if (match) {
-        if (format === formats[2]) {
+        if (match[1].length === 4) {
           // YYYY-MM-DD
-          return new Date(match[0]);
+          return calendarDateFromParts(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
         } else {
           // DD/MM/YYYY or DD-MM-YYYY
           const day = parseInt(match[1]);
-          const month = parseInt(match[2]) - 1;
+          const month = parseInt(match[2]);
           const year = parseInt(match[3]);
           if (year < 100) {
             // Handle 2-digit years
             const fullYear = year < 50 ? 2000 + year : 1900 + year;
-            return new Date(fullYear, month, day);
+            return calendarDateFromParts(fullYear, month, day);
           }
-          return new Date(year, month, day);
+          return calendarDateFromParts(year, month, day);
         }
       }
     }
 
-    // Try direct parse
+    // Try direct parse (timestamps and other formats Date understands)
     const parsed = new Date(dateStr);
     if (!isNaN(parsed.getTime())) {
-      return parsed;
+      return calendarDateFromLocal(parsed);
     }
 
     return null;
@@ -407,20 +374,10 @@ export class BankCSVParser {
     let cleaned = description.trim();
     if (!cleaned) return "Unknown";
 
-    // Common patterns for UPI/NEFT/IMPS - extract party name from these patterns
-    const upiMatch = cleaned.match(/UPI[\/\-]([^\/\-\d]+)/i);
-    if (upiMatch) {
-      return upiMatch[1].trim();
-    }
-
-    const neftMatch = cleaned.match(/NEFT[\/\-]([^\/\-]+)/i);
-    if (neftMatch) {
-      return neftMatch[1].replace(/\d+/g, "").trim();
-    }
-
-    const impsMatch = cleaned.match(/IMPS[\/\-]([^\/\-]+)/i);
-    if (impsMatch) {
-      return impsMatch[1].trim();
+    // UPI/NEFT/RTGS/IMPS/cheque narrations carry the payer name in a known position
+    const { payerName } = decodeNarration(cleaned);
+    if (payerName) {
+      return payerName;
     }
 
     // For most bank statements, the narration itself contains the party name
@@ -475,5 +432,20 @@ export class BankCSVParser {
     }
     return "Other Credit";
   }
+
+  static autoCategorizeDebit(description: string): "Purchase" | "Payment Made" | "Expense" | "Other Debit" {
+    const desc = description.toLowerCase();
+
+    if (desc.includes("purchase") || desc.includes("invoice") || desc.includes("bill")) {
+      return "Purchase";
+    }
+    if (desc.includes("charges") || desc.includes("fee") || desc.includes("rent") || desc.includes("salary") || desc.includes("gst")) {
+      return "Expense";
+    }
+    if (desc.includes("payment") || desc.includes("paid") || desc.includes("neft") || desc.includes("rtgs") || desc.includes("imps")) {
+      return "Payment Made";
+    }
+    return "Other Debit";
+  }
 }
 
@@ -1,265 +1,347 @@
 import * as XLSX from "xlsx";
 import { Transaction } from "../types/transaction";
 import { generateId } from "../lib/utils";
-
-export interface BankExcelRow {
-  Date?: string | number;
-  "Transaction Date"?: string | number;
-  Narration?: string;
-  "Chq./Ref.No."?: string;
-  "Chq/Ref.No."?: string;
-  "Value Dt"?: string | number;
-  "Value Date"?: string | number;
-  "Withdrawal Amt."?: string | number;
-  "Withdrawal Amt"?: string | number;
-  "Deposit Amt."?: string | number;
-  "Deposit Amt"?: string | number;
-  "Closing Balance"?: string | number;
+import { CalendarDate, addDays } from "../lib/calendarDate";
+import {
+  BankProfile,
+  ImportMode,
+  StatementDateFormat,
+  StatementParseResult,
+  StatementRow,
+  UnrecognisedStatementError,
+  describeImportMode,
+  extractStatementRows,
+} from "./bankProfiles";
+import { matchStatement } from "./statementTemplateService";
+import { BalanceCheckResult, checkBalanceContinuity, parseBalance } from "./balanceContinuity";
+import { BankCSVParser } from "./bankCSVParser";
+import { ParseProgressCallback, reportParseProgress } from "./parseProgress";
+import { StatementAccount, detectStatementAccount, tagBankAccount, uniqueAccounts } from "./statementAccount";
+import { decodeNarration } from "./narrationDecoder";
+import {
+  ImportReport,
+  RowOutcome,
+  RowSkip,
+  buildImportReport,
+  isRowSkip,
+  mergeImportReports,
+  skipRow,
+} from "./importReport";
+
+export type BankExcelRow = StatementRow;
+
+// Day zero of Excel date serial numbers (1900 date system)
+const EXCEL_EPOCH: CalendarDate = "1899-12-30";
+
+export interface ExcelSheetInfo {
+  name: string;
+  /** A bank profile or saved template recognises the sheet's header row */
+  recognised: boolean;
+  profileName?: string;
 }
 
 export class BankExcelParser {
   /**
-   * Parse bank Excel file (.xls or .xlsx) with specific format:
-   * Date, Narration, Chq./Ref.No., Value Dt, Withdrawal Amt., Deposit Amt., Closing Balance
-   * Only processes rows where Deposit Amt. > 0
+   * Read an Excel file (.xls or .xlsx) into a workbook
    */
-  static parseFile(file: File): Promise<Transaction[]> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          if (!data) {
-            reject(new Error("Failed to read file"));
-            return;
-          }
+  static async readWorkbook(file: File): Promise<XLSX.WorkBook> {
+    let data: ArrayBuffer;
+    try {
+      data = await file.arrayBuffer();
+    } catch {
+      throw new Error("Failed to read file");
+    }
+    return this.readWorkbookData(data);
+  }
 
-          // Parse workbook
-          const workbook = XLSX.read(data, { type: "binary" });
+  static readWorkbookData(data: ArrayBuffer): XLSX.WorkBook {
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(data, { type: "array" });
+    } catch (error) {
+      console.error("Excel parsing error:", error);
+      throw new Error(
+        `Failed to parse Excel file: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+    if (workbook.SheetNames.length === 0) {
+      throw new Error("Excel file has no sheets");
+    }
+    return workbook;
+  }
 
-          // Get first sheet
-          const firstSheetName = workbook.SheetNames[0];
-          if (!firstSheetName) {
-            reject(new Error("Excel file has no sheets"));
-            return;
-          }
+  /**
+   * Raw rows of a sheet - the header row is found by profile detection
+   */
+  static sheetToGrid(workbook: XLSX.WorkBook, sheetName: string): unknown[][] {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) return [];
+    return XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+      header: 1,
+      defval: "",
+    });
+  }
 
-          const worksheet = workbook.Sheets[firstSheetName];
+  /**
+   * List the sheets of a workbook and whether each has a recognised statement header
+   */
+  static async listSheets(file: File): Promise<ExcelSheetInfo[]> {
+    return this.describeSheets(await this.readWorkbook(file));
+  }
 
-          // Convert to JSON with header row
-          const jsonData = XLSX.utils.sheet_to_json<BankExcelRow>(worksheet, {
-            header: 1,
-            defval: "",
-          });
+  static describeSheets(workbook: XLSX.WorkBook): ExcelSheetInfo[] {
+    return workbook.SheetNames.map((name) => {
+      const match = matchStatement(this.sheetToGrid(workbook, name));
+      return { name, recognised: match !== null, profileName: match?.profile.name };
+    });
+  }
 
-          if (!jsonData || jsonData.length === 0) {
-            reject(new Error("Excel file appears to be empty"));
-            return;
-          }
+  /**
+   * Parse bank Excel file (.xls or .xlsx).
+   * The header row and column layout are detected from the bank profile registry
+   * (or a saved column template), so account-holder preamble rows above the header
+   * and the summary/footer block below the transactions are skipped.
+   * By default only the first sheet is read; pass sheetNames to read other sheets
+   * or merge several (e.g. one sheet per month) into one import.
+   * Depending on the import mode, keeps rows with a deposit amount > 0 (as credits),
+   * a withdrawal amount > 0 (as debits), or both
+   */
+  static async parseFile(
+    file: File,
+    mode: ImportMode = "deposits",
+    sheetNames?: string[]
+  ): Promise<StatementParseResult> {
+    const workbook = await this.readWorkbook(file);
+    return this.parseWorkbook(workbook, mode, sheetNames);
+  }
 
-          // First row should be headers
-          const headers = jsonData[0] as any[];
-          if (!headers || headers.length === 0) {
-            reject(new Error("Excel file has no headers"));
-            return;
-          }
+  static parseWorkbook(
+    workbook: XLSX.WorkBook,
+    mode: ImportMode = "deposits",
+    sheetNames?: string[],
+    onProgress?: ParseProgressCallback
+  ): StatementParseResult {
+    const selectedSheets = sheetNames && sheetNames.length > 0 ? sheetNames : [workbook.SheetNames[0]];
 
-          console.log("Excel Headers:", headers);
-
-          // Convert to object array
-          const rows: BankExcelRow[] = jsonData.slice(1).map((row: any[]) => {
-            const obj: any = {};
-            headers.forEach((header, index) => {
-              if (header) {
-                obj[header] = row[index] || "";
-              }
-            });
-            return obj;
-          });
-
-          console.log("Excel Rows:", rows.length);
-
-          const transactions = this.parseRows(rows);
-
-          if (transactions.length === 0) {
-            reject(
-              new Error(
-                "No deposit transactions found. Only rows with Deposit Amt. > 0 are processed."
-              )
-            );
-            return;
-          }
+    const transactions: Transaction[] = [];
+    const balanceChecks: { sheetName: string; result: BalanceCheckResult }[] = [];
+    const parsedSheets: string[] = [];
+    const reports: ImportReport[] = [];
+    const accounts: (StatementAccount | null)[] = [];
+    let rowsDone = 0;
+    let profile: BankProfile | null = null;
+    let firstGrid: unknown[][] | null = null;
+
+    for (const sheetName of selectedSheets) {
+      const grid = this.sheetToGrid(workbook, sheetName);
+      if (grid.length === 0) {
+        console.warn(`Sheet "${sheetName}" is empty, skipping`);
+        continue;
+      }
+      firstGrid = firstGrid || grid;
 
-          console.log("Successfully parsed deposit transactions:", transactions.length);
-          resolve(transactions);
-        } catch (error) {
-          console.error("Excel parsing error:", error);
-          reject(
-            new Error(
-              `Failed to parse Excel file: ${error instanceof Error ? error.message : "Unknown error"}`
-            )
-          );
-        }
-      };
+      const match = matchStatement(grid);
+      if (!match) {
+        console.warn(`Sheet "${sheetName}": no recognised header row, skipping`);
+        continue;
+      }
 
-      reader.onerror = () => {
-        reject(new Error("Failed to read file"));
-      };
+      console.log(
+        `Sheet "${sheetName}": detected ${match.profile.name} format, header at row ${match.headerRowIndex + 1}:`,
+        grid[match.headerRowIndex]
+      );
+
+      const { rows, sources, dropped } = extractStatementRows(grid, match);
+      console.log(`Sheet "${sheetName}" rows:`, rows.length);
+
+      // Each sheet can be a different account, so the preamble is read per sheet
+      const account = detectStatementAccount(grid.slice(0, match.headerRowIndex));
+      accounts.push(account);
+
+      const rowTransactionIds: (string | undefined)[] = [];
+      const rowOutcomes: RowOutcome[] = [];
+      const offset = { rowsRead: rowsDone, transactionsFound: transactions.length };
+      transactions.push(
+        ...tagBankAccount(
+          this.parseRows(rows, match.profile, mode, rowTransactionIds, rowOutcomes, (progress) =>
+            onProgress?.({
+              stage: "parsing",
+              rowsRead: offset.rowsRead + progress.rowsRead,
+              totalRows: offset.rowsRead + rows.length,
+              transactionsFound: offset.transactionsFound + progress.transactionsFound,
+            })
+          ),
+          account
+        )
+      );
+      rowsDone += rows.length;
+      // Sheet names are only worth showing when more than one sheet is imported
+      reports.push(buildImportReport(dropped, sources, rowOutcomes, selectedSheets.length > 1 ? sheetName : undefined));
+      balanceChecks.push({ sheetName, result: checkBalanceContinuity(rows, rowTransactionIds) });
+      parsedSheets.push(sheetName);
+      profile = profile || match.profile;
+    }
 
-      reader.readAsBinaryString(file);
-    });
+    if (!profile) {
+      if (!firstGrid) {
+        throw new Error("Excel file appears to be empty");
+      }
+      throw new UnrecognisedStatementError(firstGrid);
+    }
+
+    if (transactions.length === 0) {
+      // Returned anyway: the report says why each row was skipped
+      console.warn(`No ${describeImportMode(mode)} transactions found in this ${profile.name} statement`);
+    }
+
+    const balanceCheck = this.combineBalanceChecks(balanceChecks);
+    if (balanceCheck.checked && !balanceCheck.passed) {
+      console.warn(`Closing balance check found ${balanceCheck.breaks.length} break(s):`, balanceCheck.breaks);
+    }
+
+    console.log(`Successfully parsed ${describeImportMode(mode)} transactions:`, transactions.length);
+    return {
+      transactions,
+      profile,
+      balanceCheck,
+      report: mergeImportReports(reports),
+      sheets: parsedSheets,
+      accounts: uniqueAccounts(accounts),
+    };
+  }
+
+  /**
+   * Merge per-sheet balance checks; each sheet is checked on its own since
+   * sheets may be different months or different accounts
+   */
+  static combineBalanceChecks(checks: { sheetName: string; result: BalanceCheckResult }[]): BalanceCheckResult {
+    if (checks.length === 1) {
+      return checks[0].result;
+    }
+
+    const checked = checks.filter((c) => c.result.checked);
+    return {
+      checked: checked.length > 0,
+      passed: checked.every((c) => c.result.passed),
+      rowsChecked: checked.reduce((sum, c) => sum + c.result.rowsChecked, 0),
+      breaks: checked.flatMap((c) => c.result.breaks.map((b) => ({ ...b, sheetName: c.sheetName }))),
+      openingBalance: checked[0]?.result.openingBalance,
+      closingBalance: checked[checked.length - 1]?.result.closingBalance,
+      order: checked[0]?.result.order || "ascending",
+    };
   }
 
-  static parseRows(rows: BankExcelRow[]): Transaction[] {
+  static parseRows(
+    rows: BankExcelRow[],
+    profile?: BankProfile,
+    mode: ImportMode = "deposits",
+    rowTransactionIds?: (string | undefined)[],
+    rowOutcomes?: RowOutcome[],
+    onProgress?: ParseProgressCallback
+  ): Transaction[] {
     const transactions: Transaction[] = [];
 
     rows.forEach((row, index) => {
       try {
-        const transaction = this.parseRow(row, index);
-        if (transaction) {
-          transactions.push(transaction);
+        const result = this.parseRow(row, index, profile?.dateFormat, mode);
+        if (isRowSkip(result)) {
+          if (rowOutcomes) {
+            rowOutcomes[index] = { outcome: result.outcome, reason: result.reason };
+          }
+          return;
+        }
+        transactions.push(result);
+        if (rowTransactionIds) {
+          rowTransactionIds[index] = result.id;
+        }
+        if (rowOutcomes) {
+          rowOutcomes[index] = { outcome: "imported", reason: "", transactionId: result.id };
         }
       } catch (error) {
         console.warn(`Failed to parse row ${index + 1}:`, row, error);
+        if (rowOutcomes) {
+          rowOutcomes[index] = { outcome: "error", reason: error instanceof Error ? error.message : String(error) };
+        }
+      } finally {
+        reportParseProgress(onProgress, index, rows.length, transactions.length);
       }
     });
 
     return transactions;
   }
 
-  static parseRow(row: BankExcelRow, index: number): Transaction | null {
-    // Use flexible column matching (case-insensitive, handles variations)
-    const rowKeys = Object.keys(row);
-    const rowLower = Object.fromEntries(
-      rowKeys.map((k) => [k.toLowerCase().trim(), row[k]])
-    );
-
-    // Find date column (flexible matching)
-    let dateValue: string | number = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (
-        keyLower.includes("date") &&
-        !keyLower.includes("value") &&
-        !keyLower.includes("closing")
-      ) {
-        dateValue = row[key] as string | number;
-        break;
-      }
-    }
-    if (!dateValue) {
-      dateValue =
-        (rowLower["date"] as string | number) ||
-        (rowLower["transaction date"] as string | number) ||
-        (rowLower["value dt"] as string | number) ||
-        (rowLower["value date"] as string | number) ||
-        "";
-    }
-
-    if (!dateValue || dateValue === "undefined" || dateValue === "null") {
+  static parseRow(
+    row: BankExcelRow,
+    index: number,
+    dateFormat?: StatementDateFormat,
+    mode: ImportMode = "deposits"
+  ): Transaction | RowSkip {
+    const dateValue = row.date ?? "";
+    if (dateValue === "" || dateValue === "undefined" || dateValue === "null") {
       if (index < 3) {
-        console.warn(`Row ${index + 1}: No date found. Available columns:`, rowKeys);
+        console.warn(`Row ${index + 1}: No date found`, row);
       }
-      return null;
+      return skipRow("skipped-invalid-date", "No date");
     }
 
     // Parse date (Excel dates are numbers, or strings)
-    const date = this.parseDate(dateValue);
+    const date = this.parseDate(dateValue, dateFormat);
     if (!date) {
       if (index < 3) {
         console.warn(`Row ${index + 1}: Invalid date format: ${dateValue}`);
       }
-      return null;
+      return skipRow("skipped-invalid-date", `Unrecognised date "${dateValue}"`);
     }
 
-    // Find deposit amount column (flexible matching)
-    let depositAmtValue: string | number = 0;
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (
-        (keyLower.includes("deposit") && keyLower.includes("amt")) ||
-        (keyLower.includes("deposit") && keyLower.includes("amount")) ||
-        keyLower === "deposit amt." ||
-        keyLower === "deposit amt" ||
-        keyLower === "deposit amount"
-      ) {
-        depositAmtValue = row[key] as string | number;
-        break;
-      }
-    }
-    if (!depositAmtValue) {
-      depositAmtValue =
-        (rowLower["deposit amt."] as string | number) ||
-        (rowLower["deposit amt"] as string | number) ||
-        (rowLower["deposit amount"] as string | number) ||
-        0;
-    }
-
-    const depositAmount = this.parseAmount(depositAmtValue);
+    const depositAmount = this.parseAmount(row.deposit ?? 0);
+    const withdrawalAmount = this.parseAmount(row.withdrawal ?? 0);
 
     // Debug first few rows
     if (index < 3) {
-      console.log(`Row ${index + 1}: Deposit amount found: "${depositAmtValue}" = ${depositAmount}`);
-    }
-
-    // Only process deposits > 0
-    if (depositAmount <= 0) {
-      return null; // Skip withdrawals and zero amounts
+      console.log(
+        `Row ${index + 1}: Deposit "${row.deposit}" = ${depositAmount}, Withdrawal "${row.withdrawal}" = ${withdrawalAmount}`
+      );
     }
 
-    // Find narration column (flexible matching)
-    let narration = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (keyLower.includes("narration") || keyLower.includes("description")) {
-        narration = String(row[key] || "").trim();
-        break;
-      }
-    }
-    if (!narration) {
-      narration = String(
-        (rowLower["narration"] as string) || (rowLower["description"] as string) || ""
-      ).trim();
+    let type: "credit" | "debit";
+    let amount: number;
+    if (mode !== "withdrawals" && depositAmount > 0) {
+      type = "credit";
+      amount = depositAmount;
+    } else if (mode !== "deposits" && withdrawalAmount > 0) {
+      type = "debit";
+      amount = withdrawalAmount;
+    } else if (depositAmount > 0) {
+      return skipRow("skipped-deposit", `Deposit of ${depositAmount} - only withdrawals are being imported`);
+    } else if (withdrawalAmount > 0) {
+      return skipRow("skipped-withdrawal", `Withdrawal of ${withdrawalAmount} - only deposits are being imported`);
+    } else {
+      return skipRow("skipped-zero-amount", "No deposit or withdrawal amount");
     }
 
-    // Find reference number column (flexible matching)
-    let referenceNumber = "";
-    for (const key of rowKeys) {
-      const keyLower = key.toLowerCase().trim();
-      if (
-        keyLower.includes("ref") ||
-        keyLower.includes("chq") ||
-        keyLower.includes("cheque")
-      ) {
-        referenceNumber = String(row[key] || "").trim();
-        break;
-      }
-    }
-    if (!referenceNumber) {
-      referenceNumber = String(
-        (rowLower["chq./ref.no."] as string) ||
-        (rowLower["chq/ref.no."] as string) ||
-        (rowLower["ref no"] as string) ||
-        ""
-      ).trim();
-    }
+    const narration = String(row.narration ?? "").trim();
+    const referenceNumber = String(row.reference ?? "").trim();
+    const valueDate = row.valueDate ? this.parseDate(row.valueDate, dateFormat) : null;
+    const closingBalance = parseBalance(row.balance);
 
     // Leave party name blank - user will enter it manually and system will learn
     const partyName = "";
 
     // Auto-categorize
-    const category = this.autoCategorize(narration);
+    const category = type === "credit" ? this.autoCategorize(narration) : BankCSVParser.autoCategorizeDebit(narration);
 
     const transaction: Transaction = {
       id: generateId(),
-      date: date.toISOString().split("T")[0],
-      amount: depositAmount,
+      date,
+      amount: amount,
       description: narration,
-      type: "credit",
+      type: type,
       category: category,
       partyName: partyName,
       referenceNumber: referenceNumber || undefined,
+      valueDate: valueDate || undefined,
+      closingBalance: closingBalance ?? undefined,
+      ...decodeNarration(narration),
       added_to_vyapar: false,
       vyapar_reference_number: undefined,
       createdAt: new Date().toISOString(),
@@ -269,58 +351,19 @@ export class BankExcelParser {
     return transaction;
   }
 
-  static parseDate(dateValue: string | number): Date | null {
+  static parseDate(dateValue: string | number, dateFormat?: StatementDateFormat): CalendarDate | null {
     if (!dateValue) return null;
 
     // Excel stores dates as numbers (days since 1900-01-01)
     if (typeof dateValue === "number") {
-      // Excel date serial number
-      const excelEpoch = new Date(1899, 11, 30); // Excel epoch is Dec 30, 1899
-      const date = new Date(excelEpoch.getTime() + dateValue * 86400000);
-      if (!isNaN(date.getTime())) {
-        return date;
-      }
-    }
-
-    // Try parsing as string date
-    const dateStr = String(dateValue).trim();
-
-    // Try common formats
-    const formats = [
-      /(\d{2})\/(\d{2})\/(\d{4})/, // DD/MM/YYYY
-      /(\d{2})-(\d{2})-(\d{4})/, // DD-MM-YYYY
-      /(\d{4})-(\d{2})-(\d{2})/, // YYYY-MM-DD
-      /(\d{2})\/(\d{2})\/(\d{2})/, // DD/MM/YY
-    ];
-
-    for (const format of formats) {
-      const match = dateStr.match(format);
-      if (match) {
-        if (format === formats[2]) {
-          // YYYY-MM-DD
-          return new Date(match[0]);
-        } else {
-          // DD/MM/YYYY or DD-MM-YYYY
-          const day = parseInt(match[1]);
-          const month = parseInt(match[2]) - 1;
-          const year = parseInt(match[3]);
-          if (year < 100) {
-            // Handle 2-digit years
-            const fullYear = year < 50 ? 2000 + year : 1900 + year;
-            return new Date(fullYear, month, day);
-          }
-          return new Date(year, month, day);
-        }
-      }
+      // Excel date serial number - whole days from the epoch (Dec 30, 1899), the
+      // fraction is the time of day. Counted in calendar days so local timezone
+      // offsets (IST was +5:21 in 1899) can't move the date.
+      return addDays(EXCEL_EPOCH, Math.floor(dateValue));
     }
 
-    // Try direct parse
-    const parsed = new Date(dateStr);
-    if (!isNaN(parsed.getTime())) {
-      return parsed;
-    }
-
-    return null;
+    // String dates use the same rules as CSV statements
+    return BankCSVParser.parseDate(String(dateValue).trim(), dateFormat);
   }
 
   static parseAmount(amountValue: string | number): number {
@@ -356,58 +399,7 @@ export class BankExcelParser {
   }
 
   static extractPartyName(description: string): string {
-    if (!description) return "Unknown";
-
-    // Clean the description first
-    let cleaned = String(description).trim();
-    if (!cleaned) return "Unknown";
-
-    // Common patterns for UPI/NEFT/IMPS - extract party name from these patterns
-    const upiMatch = cleaned.match(/UPI[\/\-]([^\/\-\d]+)/i);
-    if (upiMatch) {
-      return upiMatch[1].trim();
-    }
-
-    const neftMatch = cleaned.match(/NEFT[\/\-]([^\/\-]+)/i);
-    if (neftMatch) {
-      return neftMatch[1].replace(/\d+/g, "").trim();
-    }
-
-    const impsMatch = cleaned.match(/IMPS[\/\-]([^\/\-]+)/i);
-    if (impsMatch) {
-      return impsMatch[1].trim();
-    }
-
-    // For most bank statements, the narration itself contains the party name
-    // Clean it up by removing transaction codes and numbers, but keep the party name
-    let partyName = cleaned;
-
-    // Remove transaction reference numbers and IDs (but keep party names)
-    partyName = partyName
-      .replace(/REF\s*NO[:\-]?\s*[A-Z0-9]+/gi, " ")
-      .replace(/TXN\s*ID[:\-]?\s*[A-Z0-9]+/gi, " ")
-      .replace(/UTR[:\-]?\s*[A-Z0-9]+/gi, " ")
-      .replace(/CHQ\s*NO[:\-]?\s*[A-Z0-9]+/gi, " ")
-      .replace(/\b\d{10,}\b/g, " ") // Remove long account numbers
-      .replace(/\s+/g, " ")
-      .trim();
-
-    // If the cleaned narration is still meaningful (more than just transaction codes)
-    if (partyName.length > 2) {
-      // Remove common transaction type words that might be at the start
-      const transactionTypes = /^(RTGS|NEFT|IMPS|UPI|CHEQUE|CHQ|TRANSFER|CREDIT|DEBIT|PAYMENT|RECEIVED|BY|TO|FROM)\s+/i;
-      partyName = partyName.replace(transactionTypes, "").trim();
-
-      // If we still have content, use it (this is likely the party name)
-      if (partyName.length > 2) {
-        // Return the cleaned narration (up to reasonable length)
-        // Many narrations are just party names, so use them as-is
-        return partyName.length > 100 ? partyName.substring(0, 100).trim() : partyName;
-      }
-    }
-
-    // Final fallback: use the original description (many narrations ARE the party name)
-    return cleaned.length > 100 ? cleaned.substring(0, 100).trim() : cleaned;
+    return BankCSVParser.extractPartyName(String(description ?? ""));
   }
 
   static autoCategorize(
@@ -0,0 +1,205 @@
+import * as pdfjsLib from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { BankCSVParser } from "./bankCSVParser";
+import {
+  BankProfileMatch,
+  ImportMode,
+  StatementParseResult,
+  UnrecognisedStatementError,
+  isFooterRow,
+} from "./bankProfiles";
+import { StatementTemplateService, matchStatement } from "./statementTemplateService";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Text items whose baselines are this close (in PDF units) are on the same line
+const LINE_TOLERANCE = 3;
+// Gap (in PDF units) between text items that still belong to the same cell
+const CELL_GAP = 4;
+
+interface PdfCell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+/**
+ * Thrown when a PDF statement is password protected (most banks protect
+ * emailed statements). `incorrect` is true when a password was given but rejected.
+ */
+export class PDFPasswordRequiredError extends Error {
+  incorrect: boolean;
+
+  constructor(incorrect: boolean) {
+    super(incorrect ? "Incorrect PDF password" : "This PDF statement is password protected");
+    this.name = "PDFPasswordRequiredError";
+    this.incorrect = incorrect;
+  }
+}
+
+export class BankPDFParser {
+  /**
+   * Parse a text-based PDF bank statement.
+   * Text is pulled out page by page, grouped into lines by position and split
+   * into cells, then mapped onto the detected header's columns and handed to
+   * the same row parsing as CSV statements.
+   * Scanned (image-only) PDFs have no text layer and are rejected.
+   */
+  static async parseFile(
+    file: File,
+    mode: ImportMode = "deposits",
+    password?: string
+  ): Promise<StatementParseResult> {
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    let pdf: pdfjsLib.PDFDocumentProxy;
+    try {
+      pdf = await pdfjsLib.getDocument({ data, password }).promise;
+    } catch (error) {
+      if (error instanceof Error && error.name === "PasswordException") {
+        throw new PDFPasswordRequiredError(
+          (error as Error & { code?: number }).code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD
+        );
+      }
+      throw new Error(
+        `Failed to open PDF: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    const lines: PdfCell[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter(
+        (item): item is TextItem => "str" in item && item.str.trim() !== ""
+      );
+      lines.push(...this.groupLines(items));
+    }
+    await pdf.destroy();
+
+    console.log(`PDF text extracted: ${pdf.numPages} pages, ${lines.length} lines`);
+
+    if (lines.length === 0) {
+      throw new Error(
+        "No text found in this PDF. It may be a scanned statement - please download a text PDF, CSV or Excel statement from net banking instead."
+      );
+    }
+
+    const grid = this.buildGrid(lines);
+    return BankCSVParser.parseGrid(grid, mode);
+  }
+
+  /**
+   * Group a page's text items into lines (top to bottom), each split into cells
+   */
+  static groupLines(items: TextItem[]): PdfCell[][] {
+    const lines: { y: number; items: TextItem[] }[] = [];
+
+    items.forEach((item) => {
+      const y = item.transform[5];
+      const line = lines.find((l) => Math.abs(l.y - y) <= LINE_TOLERANCE);
+      if (line) {
+        line.items.push(item);
+      } else {
+        lines.push({ y, items: [item] });
+      }
+    });
+
+    // PDF y runs bottom to top
+    lines.sort((a, b) => b.y - a.y);
+
+    return lines.map((line) => {
+      const sorted = [...line.items].sort((a, b) => a.transform[4] - b.transform[4]);
+      const cells: PdfCell[] = [];
+
+      sorted.forEach((item) => {
+        const left = item.transform[4];
+        const right = left + item.width;
+        const previous = cells[cells.length - 1];
+        if (previous && left - previous.right <= CELL_GAP) {
+          previous.text = `${previous.text}${left - previous.right > 0.5 ? " " : ""}${item.str}`.trim();
+          previous.right = Math.max(previous.right, right);
+        } else {
+          cells.push({ text: item.str.trim(), left, right });
+        }
+      });
+
+      return cells;
+    });
+  }
+
+  /**
+   * Rebuild table rows from text lines.
+   * Lines above the header are kept as-is (preamble). Below it, every cell is
+   * placed in the header column it sits under, repeated page headers are
+   * dropped, and wrapped narration lines are joined onto the row above.
+   */
+  static buildGrid(lines: PdfCell[][]): string[][] {
+    const rawGrid = lines.map((cells) => cells.map((c) => c.text));
+    const match = matchStatement(rawGrid);
+    if (!match) {
+      throw new UnrecognisedStatementError(rawGrid);
+    }
+
+    const headerCells = lines[match.headerRowIndex];
+    const headerFingerprint = StatementTemplateService.fingerprint(rawGrid[match.headerRowIndex]);
+
+    // Column boundaries sit halfway between neighbouring header labels
+    const boundaries = headerCells.slice(1).map((cell, i) => (headerCells[i].right + cell.left) / 2);
+    const columnOf = (cell: PdfCell) => {
+      const centre = (cell.left + cell.right) / 2;
+      const index = boundaries.findIndex((b) => centre < b);
+      return index === -1 ? headerCells.length - 1 : index;
+    };
+
+    const textColumns = new Set(
+      [match.columnIndexes.narration, match.columnIndexes.reference].filter((i) => i !== undefined)
+    );
+
+    const grid: string[][] = rawGrid.slice(0, match.headerRowIndex + 1);
+
+    for (let i = match.headerRowIndex + 1; i < lines.length; i++) {
+      if (StatementTemplateService.fingerprint(rawGrid[i]) === headerFingerprint) {
+        continue; // Header repeated at the top of the next page
+      }
+
+      const row: string[] = new Array(headerCells.length).fill("");
+      lines[i].forEach((cell) => {
+        const column = columnOf(cell);
+        row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+      });
+
+      const previous = grid.length > match.headerRowIndex + 1 ? grid[grid.length - 1] : null;
+      if (previous && this.isContinuationLine(lines[i], row, match, textColumns, columnOf)) {
+        row.forEach((text, column) => {
+          if (text) {
+            previous[column] = previous[column] ? `${previous[column]} ${text}` : text;
+          }
+        });
+        continue;
+      }
+
+      grid.push(row);
+    }
+
+    return grid;
+  }
+
+  /**
+   * A wrapped narration line: no date or amounts, only text in the narration/reference columns
+   */
+  private static isContinuationLine(
+    cells: PdfCell[],
+    row: string[],
+    match: BankProfileMatch,
+    textColumns: Set<number | undefined>,
+    columnOf: (cell: PdfCell) => number
+  ): boolean {
+    if (isFooterRow(row, match.profile)) return false;
+    const { date, deposit, withdrawal, balance } = match.columnIndexes;
+    const hasValue = [date, deposit, withdrawal, balance].some((i) => i !== undefined && row[i] !== "");
+    if (hasValue) return false;
+    return cells.every((cell) => textColumns.has(columnOf(cell)));
+  }
+}
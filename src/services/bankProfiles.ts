@@ -0,0 +1,438 @@
+// Bank statement profiles
+// Each profile describes how one bank lays out its statement export (header
+// labels, preamble, date format and footer block) so the parsers can map
+// columns deterministically instead of guessing from substrings.
+
+import { Transaction } from "../types/transaction";
+import type { BalanceCheckResult } from "./balanceContinuity";
+import { ImportReport, ImportRowReport, toRawValues } from "./importReport";
+import type { StatementAccount } from "./statementAccount";
+
+export type StatementColumn =
+  | "date"
+  | "narration"
+  | "reference"
+  | "valueDate"
+  | "withdrawal"
+  | "deposit"
+  | "balance";
+
+export type StatementDateFormat = "DD/MM/YYYY" | "DD-MMM-YYYY" | "YYYY-MM-DD";
+
+export interface BankProfile {
+  id: string;
+  name: string;
+  /** Accepted header labels per column (compared with normaliseHeader) */
+  columns: Partial<Record<StatementColumn, string[]>>;
+  /** Columns that must all be present in a row for it to count as the header */
+  signature: StatementColumn[];
+  /** Maximum number of account-holder preamble rows above the header */
+  maxPreambleRows: number;
+  dateFormat: StatementDateFormat;
+  /** A data row matching any of these starts the summary/footer block */
+  footerPatterns: RegExp[];
+}
+
+export interface BankProfileMatch {
+  profile: BankProfile;
+  headerRowIndex: number;
+  /** Index of each mapped column in the raw statement row */
+  columnIndexes: Partial<Record<StatementColumn, number>>;
+  score: number;
+}
+
+/** One statement row, keyed by column instead of by the bank's header label */
+export type StatementRow = Partial<Record<StatementColumn, string | number>>;
+
+/** Which side of the statement to import */
+export type ImportMode = "deposits" | "withdrawals" | "both";
+
+export interface StatementParseResult {
+  transactions: Transaction[];
+  profile: BankProfile;
+  balanceCheck: BalanceCheckResult;
+  /** What happened to every row below the header */
+  report: ImportReport;
+  /** Workbook sheets the transactions were read from (Excel only) */
+  sheets?: string[];
+  /** Bank accounts found in the statement preamble (one per sheet at most) */
+  accounts: StatementAccount[];
+}
+
+export const COMMON_FOOTERS = [
+  /^statement\s+summary/i,
+  /this is a (computer|system)[\s-]*generated/i,
+  /^end of statement/i,
+];
+
+export const BANK_PROFILES: BankProfile[] = [
+  {
+    id: "hdfc",
+    name: "HDFC Bank",
+    columns: {
+      date: ["Date"],
+      narration: ["Narration"],
+      reference: ["Chq./Ref.No.", "Chq/Ref.No."],
+      valueDate: ["Value Dt", "Value Date"],
+      withdrawal: ["Withdrawal Amt.", "Withdrawal Amt"],
+      deposit: ["Deposit Amt.", "Deposit Amt"],
+      balance: ["Closing Balance"],
+    },
+    signature: ["date", "narration", "reference", "withdrawal", "deposit"],
+    maxPreambleRows: 30,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS],
+  },
+  {
+    id: "icici",
+    name: "ICICI Bank",
+    columns: {
+      date: ["Transaction Date"],
+      valueDate: ["Value Date"],
+      reference: ["Cheque Number"],
+      narration: ["Transaction Remarks"],
+      withdrawal: ["Withdrawal Amount (INR )", "Withdrawal Amount"],
+      deposit: ["Deposit Amount (INR )", "Deposit Amount"],
+      balance: ["Balance (INR )", "Balance"],
+    },
+    signature: ["date", "narration", "withdrawal", "deposit"],
+    maxPreambleRows: 20,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS, /^legends used/i],
+  },
+  {
+    id: "sbi",
+    name: "State Bank of India",
+    columns: {
+      date: ["Txn Date"],
+      valueDate: ["Value Date"],
+      narration: ["Description"],
+      reference: ["Ref No./Cheque No.", "Ref No/Cheque No"],
+      withdrawal: ["Debit"],
+      deposit: ["Credit"],
+      balance: ["Balance"],
+    },
+    signature: ["date", "narration", "reference", "withdrawal", "deposit"],
+    maxPreambleRows: 25,
+    dateFormat: "DD-MMM-YYYY",
+    footerPatterns: [...COMMON_FOOTERS, /^please do not share/i],
+  },
+  {
+    id: "axis",
+    name: "Axis Bank",
+    columns: {
+      date: ["Tran Date"],
+      reference: ["CHQNO", "Chq No"],
+      narration: ["PARTICULARS"],
+      withdrawal: ["DR"],
+      deposit: ["CR"],
+      balance: ["BAL"],
+    },
+    signature: ["date", "narration", "withdrawal", "deposit"],
+    maxPreambleRows: 25,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS, /^transaction total/i, /^closing balance/i, /^unless the constituent/i],
+  },
+  {
+    id: "kotak",
+    name: "Kotak Mahindra Bank",
+    columns: {
+      date: ["Transaction Date", "Date"],
+      valueDate: ["Value Date"],
+      narration: ["Description"],
+      reference: ["Chq / Ref No.", "Chq/Ref No", "Chq / Ref number"],
+      withdrawal: ["Debit", "Withdrawal (Dr)"],
+      deposit: ["Credit", "Deposit (Cr)"],
+      balance: ["Balance"],
+    },
+    signature: ["date", "narration", "reference", "withdrawal", "deposit"],
+    maxPreambleRows: 25,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS],
+  },
+  {
+    id: "union",
+    name: "Union Bank of India",
+    columns: {
+      date: ["Date", "Tran Date"],
+      narration: ["Remarks"],
+      reference: ["UTR Number", "Instr. ID", "Instrument ID"],
+      withdrawal: ["Withdrawals"],
+      deposit: ["Deposits"],
+      balance: ["Balance"],
+    },
+    signature: ["date", "narration", "withdrawal", "deposit"],
+    maxPreambleRows: 25,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS],
+  },
+  {
+    id: "canara",
+    name: "Canara Bank",
+    columns: {
+      date: ["Txn Date", "Transaction Date"],
+      valueDate: ["Value Date"],
+      reference: ["Cheque No.", "Cheque No"],
+      narration: ["Description"],
+      withdrawal: ["Debit"],
+      deposit: ["Credit"],
+      balance: ["Balance"],
+    },
+    signature: ["date", "narration", "reference", "withdrawal", "deposit"],
+    maxPreambleRows: 25,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS],
+  },
+  {
+    // Fallback for banks without a dedicated profile - only used when no
+    // specific profile matches, since its signature is the shortest
+    id: "generic",
+    name: "Generic bank statement",
+    columns: {
+      date: ["Date", "Transaction Date", "Txn Date", "Tran Date", "Posting Date"],
+      valueDate: ["Value Date", "Value Dt"],
+      narration: ["Narration", "Description", "Particulars", "Remarks", "Details", "Transaction Details"],
+      reference: ["Reference", "Reference No", "Ref No", "Ref No.", "Cheque No", "Chq No", "Chq./Ref.No."],
+      withdrawal: ["Withdrawal", "Withdrawals", "Withdrawal Amt.", "Withdrawal Amount", "Debit", "Debit Amount", "Dr"],
+      deposit: ["Deposit", "Deposits", "Deposit Amt.", "Deposit Amount", "Credit", "Credit Amount", "Cr"],
+      balance: ["Balance", "Closing Balance", "Running Balance"],
+    },
+    signature: ["date", "narration", "deposit"],
+    maxPreambleRows: 30,
+    dateFormat: "DD/MM/YYYY",
+    footerPatterns: [...COMMON_FOOTERS],
+  },
+];
+
+/**
+ * Normalise a header label for comparison: lowercase, alphanumerics only.
+ * "Withdrawal Amount (INR )" and "withdrawal amount(inr)" compare equal.
+ */
+export function normaliseHeader(value: unknown): string {
+  return String(value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Map each profile column to its index in a header row (exact label match only)
+ */
+export function resolveColumns(
+  headerRow: unknown[],
+  profile: BankProfile
+): Partial<Record<StatementColumn, number>> {
+  const headers = headerRow.map(normaliseHeader);
+  const used = new Set<number>();
+  const columnIndexes: Partial<Record<StatementColumn, number>> = {};
+
+  (Object.keys(profile.columns) as StatementColumn[]).forEach((column) => {
+    const aliases = (profile.columns[column] || []).map(normaliseHeader);
+    const index = headers.findIndex((h, i) => h !== "" && !used.has(i) && aliases.includes(h));
+    if (index !== -1) {
+      columnIndexes[column] = index;
+      used.add(index);
+    }
+  });
+
+  return columnIndexes;
+}
+
+/**
+ * Find the header row and the best-matching bank profile.
+ * Scores by number of mapped columns, then by signature length so a specific
+ * bank profile wins over the generic fallback. Returns null if nothing matches.
+ */
+export function detectBankProfile(
+  rows: unknown[][],
+  profiles: BankProfile[] = BANK_PROFILES
+): BankProfileMatch | null {
+  const maxPreamble = Math.max(...profiles.map((p) => p.maxPreambleRows));
+  const scanLimit = Math.min(rows.length, maxPreamble + 1);
+  let best: BankProfileMatch | null = null;
+
+  for (let i = 0; i < scanLimit; i++) {
+    const row = rows[i] || [];
+    for (const profile of profiles) {
+      if (i > profile.maxPreambleRows) continue;
+
+      const columnIndexes = resolveColumns(row, profile);
+      const hasSignature = profile.signature.every((c) => columnIndexes[c] !== undefined);
+      if (!hasSignature) continue;
+
+      const score = Object.keys(columnIndexes).length * 10 + profile.signature.length;
+      if (!best || score > best.score) {
+        best = { profile, headerRowIndex: i, columnIndexes, score };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check whether a row belongs to the statement footer (summary, legends, disclaimers)
+ */
+export function isFooterRow(row: unknown[], profile: BankProfile): boolean {
+  return row.some((cell) => {
+    const str = String(cell ?? "").trim();
+    return str !== "" && profile.footerPatterns.some((pattern) => pattern.test(str));
+  });
+}
+
+/**
+ * Check whether a row is a separator (empty, or only asterisks/dashes)
+ */
+export function isSeparatorRow(row: unknown[]): boolean {
+  return !row.some((cell) => {
+    const str = String(cell ?? "").trim();
+    return str !== "" && !/^[*\s-]+$/.test(str);
+  });
+}
+
+/**
+ * Pick the mapped columns out of a raw row
+ */
+export function toStatementRow(
+  row: unknown[],
+  columnIndexes: Partial<Record<StatementColumn, number>>
+): StatementRow {
+  const statementRow: StatementRow = {};
+  (Object.keys(columnIndexes) as StatementColumn[]).forEach((column) => {
+    const value = row[columnIndexes[column] as number];
+    if (value !== undefined && value !== null) {
+      statementRow[column] = typeof value === "number" ? value : String(value).trim();
+    }
+  });
+  return statementRow;
+}
+
+// Labels that start a totals/summary row. Only checked on rows without a
+// transaction date, so a narration like "TOTAL GAS" never ends the statement.
+const SUMMARY_LABELS =
+  /^(opening\s+balance|closing\s+balance|grand\s+total|sub[\s-]*total|total|dr\s+count|cr\s+count|balance\s+[bc]\/?f|brought\s+forward|carried\s+forward)\b/i;
+
+/**
+ * Check whether a date cell holds something that could be a transaction date
+ * (a date string or an Excel date serial)
+ */
+export function looksLikeDate(value: unknown): boolean {
+  if (typeof value === "number") return value > 0 && value < 100000;
+  return /\d{1,4}[/\-. ][A-Za-z0-9]{1,9}[/\-. ,]+\d{2,4}/.test(String(value ?? ""));
+}
+
+/**
+ * Check whether a row is a totals/summary row (no date, summary label)
+ */
+export function isSummaryRow(row: unknown[], match: BankProfileMatch): boolean {
+  const dateIndex = match.columnIndexes.date;
+  if (dateIndex !== undefined && looksLikeDate(row[dateIndex])) return false;
+  return row.some((cell) => SUMMARY_LABELS.test(String(cell ?? "").trim()));
+}
+
+export interface ExtractedStatementRows {
+  rows: StatementRow[];
+  /** File line number and raw cells of each entry in `rows` */
+  sources: { rowNumber: number; values: string[] }[];
+  /** Rows below the header that were dropped (separators, summaries, footer) */
+  dropped: ImportRowReport[];
+}
+
+/**
+ * Take the data rows below the detected header: separator and summary rows are
+ * dropped, everything from the first footer row onwards is ignored, and any
+ * trailing rows without a date (totals, disclaimers) are trimmed.
+ */
+export function extractStatementRows(rows: unknown[][], match: BankProfileMatch): ExtractedStatementRows {
+  const statementRows: StatementRow[] = [];
+  const sources: { rowNumber: number; values: string[] }[] = [];
+  const dropped: ImportRowReport[] = [];
+  let lastDatedRow = -1;
+
+  const drop = (index: number, reason: string) => {
+    const values = toRawValues(rows[index] || []);
+    // Blank lines are not worth listing
+    if (values.some((value) => value !== "")) {
+      dropped.push({ rowNumber: index + 1, values, outcome: "skipped-separator", reason });
+    }
+  };
+
+  for (let i = match.headerRowIndex + 1; i < rows.length; i++) {
+    const row = rows[i] || [];
+    if (isFooterRow(row, match.profile)) {
+      console.log(`Footer block starts at line ${i + 1}, ignoring remaining rows`);
+      for (let j = i; j < rows.length; j++) {
+        drop(j, "Statement footer");
+      }
+      break;
+    }
+    if (isSeparatorRow(row)) {
+      drop(i, "Separator row");
+      continue;
+    }
+    if (isSummaryRow(row, match)) {
+      drop(i, "Summary/total row");
+      continue;
+    }
+
+    const statementRow = toStatementRow(row, match.columnIndexes);
+    statementRows.push(statementRow);
+    sources.push({ rowNumber: i + 1, values: toRawValues(row) });
+    if (looksLikeDate(statementRow.date)) {
+      lastDatedRow = statementRows.length - 1;
+    }
+  }
+
+  if (lastDatedRow < statementRows.length - 1) {
+    console.log(`Ignoring ${statementRows.length - 1 - lastDatedRow} trailing rows without a date`);
+    sources.slice(lastDatedRow + 1).forEach((source) => {
+      dropped.push({ ...source, outcome: "skipped-separator", reason: "Trailing row without a date" });
+    });
+  }
+
+  return {
+    rows: statementRows.slice(0, lastDatedRow + 1),
+    sources: sources.slice(0, lastDatedRow + 1),
+    dropped,
+  };
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Month index (0-11) for a month name or abbreviation ("Apr", "April"), or -1
+ */
+export function monthIndexFromName(name: string): number {
+  return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Thrown when no bank profile or saved template recognises a statement.
+ * Carries the first raw rows so the upload page can offer the column-mapping wizard.
+ */
+export class UnrecognisedStatementError extends Error {
+  rows: string[][];
+
+  constructor(grid: unknown[][]) {
+    super(
+      `Could not find a recognised header row.\n\n` +
+      `Supported banks: ${getSupportedBankNames().join(", ")}.\n` +
+      `The header must contain at least Date, Narration/Description and Deposit/Credit columns.`
+    );
+    this.name = "UnrecognisedStatementError";
+    this.rows = grid.slice(0, 30).map((row) => (row || []).map((cell) => String(cell ?? "").trim()));
+  }
+}
+
+/**
+ * Human-readable name of the rows an import mode keeps (for messages)
+ */
+export function describeImportMode(mode: ImportMode): string {
+  if (mode === "withdrawals") return "withdrawal";
+  if (mode === "both") return "deposit or withdrawal";
+  return "deposit";
+}
+
+/**
+ * Names of the banks with a dedicated profile (for help text)
+ */
+export function getSupportedBankNames(): string[] {
+  return BANK_PROFILES.filter((p) => p.id !== "generic").map((p) => p.name);
+}
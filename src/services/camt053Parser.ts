@@ -0,0 +1,142 @@
+import { ImportMode, StatementParseResult } from "./bankProfiles";
+import {
+  StructuredEntry,
+  StructuredStatement,
+  buildStructuredResult,
+  readFileAsText,
+  structuredProfile,
+} from "./structuredStatement";
+
+export class CAMT053Parser {
+  /**
+   * Parse an ISO 20022 CAMT.053 bank-to-customer statement (XML).
+   * Namespace versions (camt.053.001.02 - .08) are ignored; elements are
+   * matched by local name.
+   */
+  static async parseFile(file: File, mode: ImportMode = "deposits"): Promise<StatementParseResult> {
+    const text = await readFileAsText(file);
+    const statement = this.parse(text);
+    return buildStructuredResult(statement, structuredProfile("camt053", "CAMT.053 statement"), mode);
+  }
+
+  static parse(text: string): StructuredStatement {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length > 0) {
+      throw new Error("Invalid XML file");
+    }
+
+    const statements = this.descendants(doc.documentElement, "Stmt");
+    if (statements.length === 0) {
+      throw new Error("Not a CAMT.053 file: no <Stmt> element found");
+    }
+
+    const entries: StructuredEntry[] = [];
+    let openingBalance: number | undefined;
+    let closingBalance: number | undefined;
+    let accountNumber: string | undefined;
+
+    statements.forEach((stmt) => {
+      accountNumber =
+        accountNumber || this.text(stmt, ["Acct", "Id", "IBAN"]) || this.text(stmt, ["Acct", "Id", "Othr", "Id"]) || undefined;
+
+      this.children(stmt, "Bal").forEach((bal) => {
+        const code = this.text(bal, ["Tp", "CdOrPrtry", "Cd"]);
+        const amount = this.signedAmount(bal);
+        if (amount === null) return;
+        // OPBD = opening booked, PRCD = previous closing booked (used by some banks instead)
+        if ((code === "OPBD" || code === "PRCD") && openingBalance === undefined) {
+          openingBalance = amount;
+        }
+        if (code === "CLBD") {
+          closingBalance = amount;
+        }
+      });
+
+      this.children(stmt, "Ntry").forEach((ntry) => {
+        // Pending entries are not on the account yet
+        const status = this.text(ntry, ["Sts", "Cd"]) || this.text(ntry, ["Sts"]);
+        if (status && status !== "BOOK") return;
+
+        const amount = this.signedAmount(ntry);
+        const date = this.dateOf(ntry, "BookgDt");
+        if (amount === null || !date) {
+          console.warn("Skipping CAMT.053 entry without booking date or amount");
+          return;
+        }
+
+        entries.push({
+          date,
+          valueDate: this.dateOf(ntry, "ValDt") || undefined,
+          amount,
+          narration: this.narrationOf(ntry),
+          reference:
+            this.text(ntry, ["NtryDtls", "TxDtls", "Refs", "EndToEndId"]).replace(/^NOTPROVIDED$/i, "") ||
+            this.text(ntry, ["AcctSvcrRef"]) ||
+            undefined,
+        });
+      });
+    });
+
+    return { entries, openingBalance, closingBalance, accountNumber };
+  }
+
+  /**
+   * Remittance info, related party and additional entry info, joined
+   */
+  private static narrationOf(ntry: Element): string {
+    const isCredit = this.text(ntry, ["CdtDbtInd"]) === "CRDT";
+    // For money in, the counterparty is the debtor; for money out, the creditor
+    const party = isCredit
+      ? this.text(ntry, ["NtryDtls", "TxDtls", "RltdPties", "Dbtr", "Nm"]) ||
+        this.text(ntry, ["NtryDtls", "TxDtls", "RltdPties", "Dbtr", "Pty", "Nm"])
+      : this.text(ntry, ["NtryDtls", "TxDtls", "RltdPties", "Cdtr", "Nm"]) ||
+        this.text(ntry, ["NtryDtls", "TxDtls", "RltdPties", "Cdtr", "Pty", "Nm"]);
+
+    const remittance = this.descendants(ntry, "Ustrd").map((el) => el.textContent?.trim() || "");
+    const additional = this.text(ntry, ["AddtlNtryInf"]) || this.text(ntry, ["NtryDtls", "TxDtls", "AddtlTxInf"]);
+
+    return [party, ...remittance, additional]
+      .filter((part, i, all) => part && all.indexOf(part) === i)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /**
+   * Amount with sign from CdtDbtInd (CRDT = positive, DBIT = negative)
+   */
+  private static signedAmount(el: Element): number | null {
+    const amount = parseFloat(this.text(el, ["Amt"]));
+    if (isNaN(amount)) return null;
+    return this.text(el, ["CdtDbtInd"]) === "DBIT" ? -amount : amount;
+  }
+
+  /**
+   * <BookgDt>/<ValDt> hold either <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+   */
+  private static dateOf(ntry: Element, name: string): string | null {
+    const value = this.text(ntry, [name, "Dt"]) || this.text(ntry, [name, "DtTm"]);
+    const match = value.match(/^(\d{4}-\d{2}-\d{2})/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Text of the first element found by following a path of child names
+   */
+  private static text(el: Element, path: string[]): string {
+    let current: Element | undefined = el;
+    for (const name of path) {
+      current = current ? this.children(current, name)[0] : undefined;
+      if (!current) return "";
+    }
+    return current?.textContent?.trim() || "";
+  }
+
+  private static children(el: Element, name: string): Element[] {
+    return Array.from(el.children).filter((child) => child.localName === name);
+  }
+
+  private static descendants(el: Element, name: string): Element[] {
+    return Array.from(el.getElementsByTagName("*")).filter((child) => child.localName === name);
+  }
+}
@@ -1,5 +1,7 @@
 import Papa from "papaparse";
 import { Transaction, TransactionType, TransactionCategory } from "../types/transaction";
+import { CalendarDate, calendarDateFromLocal, calendarDateFromParts } from "../lib/calendarDate";
+import { decodeNarration } from "./narrationDecoder";
 
 export interface ParsedTransaction {
   date: string;
@@ -177,7 +179,7 @@ export class CSVParser {
     const category = this.autoCategorize(description, type);
 
     return {
-      date: date.toISOString().split("T")[0],
+      date,
       amount,
       description: description.trim(),
       type,
@@ -187,7 +189,7 @@ export class CSVParser {
     };
   }
 
-  static parseDate(dateStr: string): Date | null {
+  static parseDate(dateStr: string): CalendarDate | null {
     if (!dateStr) return null;
 
     // Try common formats
@@ -203,13 +205,13 @@ export class CSVParser {
       if (match) {
         if (format === formats[2]) {
           // YYYY-MM-DD
-          return new Date(match[0]);
+          return calendarDateFromParts(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
         } else {
           // DD/MM/YYYY or DD-MM-YYYY
           const day = parseInt(match[1]);
-          const month = parseInt(match[2]) - 1;
+          const month = parseInt(match[2]);
           const year = parseInt(match[3]);
-          return new Date(year, month, day);
+          return calendarDateFromParts(year < 100 ? 2000 + year : year, month, day);
         }
       }
     }
@@ -217,7 +219,7 @@ export class CSVParser {
     // Try direct parse
     const parsed = new Date(dateStr);
     if (!isNaN(parsed.getTime())) {
-      return parsed;
+      return calendarDateFromLocal(parsed);
     }
 
     return null;
@@ -243,24 +245,9 @@ export class CSVParser {
   static extractPartyName(description: string): string {
     if (!description) return "Unknown";
 
-    // Common patterns
-    // UPI: "UPI/PAYTM/1234567890/John Doe"
-    // NEFT: "NEFT-123456-John Doe"
-    // IMPS: "IMPS/John Doe/123456"
-
-    const upiMatch = description.match(/UPI[\/\-]([^\/\-\d]+)/i);
-    if (upiMatch) {
-      return upiMatch[1].trim();
-    }
-
-    const neftMatch = description.match(/NEFT[\/\-]([^\/\-]+)/i);
-    if (neftMatch) {
-      return neftMatch[1].replace(/\d+/g, "").trim();
-    }
-
-    const impsMatch = description.match(/IMPS[\/\-]([^\/\-]+)/i);
-    if (impsMatch) {
-      return impsMatch[1].trim();
+    const { payerName } = decodeNarration(description);
+    if (payerName) {
+      return payerName;
     }
 
     // If no pattern found, return first few words
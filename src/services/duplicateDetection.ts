@@ -0,0 +1,151 @@
+// Transaction-level duplicate detection for statement imports
+// Each incoming row is fingerprinted (date | amount | reference | narration) and
+// compared with the transactions already saved, so re-downloaded or overlapping
+// statements don't get imported twice.
+
+import { Transaction } from "../types/transaction";
+import { daysBetween, toCalendarDate } from "../lib/calendarDate";
+import { narrationDetailsOf } from "./narrationDecoder";
+
+// Dates within this many days can still be the same bank entry (booking vs value date)
+const PROBABLE_DATE_WINDOW_DAYS = 3;
+// Share of narration words two rows must have in common to count as similar
+const NARRATION_SIMILARITY = 0.6;
+
+export type DuplicateStatus = "new" | "exact" | "probable";
+
+export interface DuplicateMatch {
+  status: DuplicateStatus;
+  /** The already-saved transaction this row matches */
+  existing?: Transaction;
+}
+
+export interface DuplicateSummary {
+  new: number;
+  exact: number;
+  probable: number;
+}
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace so the same narration
+ * read from CSV, Excel, PDF or Sheets compares equal
+ */
+export function normaliseNarration(narration: string): string {
+  return (narration || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Sheets turns long numeric references into numbers, losing leading zeros
+ */
+function normaliseReference(reference?: string): string {
+  return String(reference ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * Fingerprint of a bank entry: date | amount | reference | normalised narration
+ */
+export function transactionFingerprint(transaction: Transaction): string {
+  return [
+    toCalendarDate(transaction.date) || transaction.date,
+    transaction.amount.toFixed(2),
+    normaliseReference(transaction.referenceNumber),
+    normaliseNarration(transaction.description),
+  ].join("|");
+}
+
+function narrationSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normaliseNarration(a).split(" ").filter(Boolean));
+  const wordsB = new Set(normaliseNarration(b).split(" ").filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+/**
+ * Same type and amount, dates close together, and either the same UTR/RRN,
+ * the same reference, a similar narration or the same day
+ */
+function isProbableDuplicate(incoming: Transaction, existing: Transaction): boolean {
+  if (incoming.type !== existing.type) return false;
+  if (Math.abs(incoming.amount - existing.amount) > 0.005) return false;
+
+  const incomingDate = toCalendarDate(incoming.date);
+  const existingDate = toCalendarDate(existing.date);
+  if (!incomingDate || !existingDate) return false;
+  const days = Math.abs(daysBetween(incomingDate, existingDate));
+  if (days > PROBABLE_DATE_WINDOW_DAYS) return false;
+
+  // A UTR/RRN identifies one bank transfer, so it decides the match when both rows have one
+  const incomingUtr = normaliseReference(narrationDetailsOf(incoming).utr);
+  const existingUtr = normaliseReference(narrationDetailsOf(existing).utr);
+  if (incomingUtr && existingUtr) {
+    return incomingUtr === existingUtr;
+  }
+
+  const incomingRef = normaliseReference(incoming.referenceNumber);
+  const existingRef = normaliseReference(existing.referenceNumber);
+  if (incomingRef && existingRef) {
+    return incomingRef === existingRef;
+  }
+
+  return days === 0 || narrationSimilarity(incoming.description, existing.description) >= NARRATION_SIMILARITY;
+}
+
+/**
+ * Classify each incoming transaction as new, an exact duplicate (same
+ * fingerprint) or a probable duplicate of an existing one.
+ * Every existing transaction is matched at most once, so a statement that
+ * legitimately has two identical rows is only flagged as far as the saved
+ * data has copies of them.
+ */
+export function findDuplicates(
+  incoming: Transaction[],
+  existing: Transaction[]
+): Record<string, DuplicateMatch> {
+  const matches: Record<string, DuplicateMatch> = {};
+  const used = new Set<Transaction>();
+
+  const byFingerprint = new Map<string, Transaction[]>();
+  existing.forEach((t) => {
+    const key = `${t.type}|${transactionFingerprint(t)}`;
+    byFingerprint.set(key, [...(byFingerprint.get(key) || []), t]);
+  });
+
+  // Exact matches first, so a probable match can't take a row an exact one needs
+  incoming.forEach((t) => {
+    const candidates = byFingerprint.get(`${t.type}|${transactionFingerprint(t)}`) || [];
+    const match = candidates.find((c) => !used.has(c));
+    if (match) {
+      used.add(match);
+      matches[t.id] = { status: "exact", existing: match };
+    }
+  });
+
+  incoming.forEach((t) => {
+    if (matches[t.id]) return;
+    const match = existing.find((c) => !used.has(c) && isProbableDuplicate(t, c));
+    if (match) {
+      used.add(match);
+      matches[t.id] = { status: "probable", existing: match };
+    } else {
+      matches[t.id] = { status: "new" };
+    }
+  });
+
+  return matches;
+}
+
+export function summariseDuplicates(matches: Record<string, DuplicateMatch>): DuplicateSummary {
+  const summary: DuplicateSummary = { new: 0, exact: 0, probable: 0 };
+  Object.values(matches).forEach((m) => {
+    summary[m.status]++;
+  });
+  return summary;
+}
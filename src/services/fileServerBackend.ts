@@ -0,0 +1,93 @@
+// File server storage backend
+// Talks to the local Node server in server/storageServer.mjs, which keeps
+// everything in one JSON file on disk. Useful when there is no Google account
+// to hand, or to keep the data on a machine in the office.
+
+import { HistoryEntry, Party, Transaction } from "../types/transaction";
+import type { PartyNameMapping } from "./googleSheetsService";
+import { StorageBackend, TransactionConflictError, TransactionWriteResult } from "./storageBackend";
+
+export class FileServerBackend implements StorageBackend {
+  readonly id = "file-server" as const;
+  readonly label = "Local file server";
+
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (response.status === 409) {
+      // The row changed since the copy this update was based on
+      const { current } = await response.json();
+      throw new TransactionConflictError(current);
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`Storage server returned ${response.status}${text ? `: ${text}` : ""}`);
+    }
+    return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+  }
+
+  getTransactions(): Promise<Transaction[]> {
+    return this.request("GET", "/transactions");
+  }
+
+  /**
+   * The server writes the whole batch to its file or nothing, so rows can't fail on their own
+   */
+  async addTransactions(transactions: Transaction[]): Promise<TransactionWriteResult[]> {
+    await this.request("POST", "/transactions", transactions);
+    return transactions.map((t) => ({ id: t.id, success: true }));
+  }
+
+  updateTransaction(transaction: Transaction): Promise<void> {
+    return this.request("PUT", `/transactions/${encodeURIComponent(transaction.id)}`, transaction);
+  }
+
+  getParties(): Promise<Party[]> {
+    return this.request("GET", "/parties");
+  }
+
+  saveParties(parties: Party[]): Promise<void> {
+    return this.request("PUT", "/parties", parties);
+  }
+
+  getPartyMappings(): Promise<PartyNameMapping[]> {
+    return this.request("GET", "/party-mappings");
+  }
+
+  addPartyMapping(mapping: PartyNameMapping): Promise<void> {
+    return this.updatePartyMapping(mapping);
+  }
+
+  updatePartyMapping(mapping: PartyNameMapping): Promise<void> {
+    return this.request("PUT", `/party-mappings/${encodeURIComponent(mapping.id)}`, mapping);
+  }
+
+  deletePartyMapping(id: string): Promise<void> {
+    return this.request("DELETE", `/party-mappings/${encodeURIComponent(id)}`);
+  }
+
+  getSettings(): Promise<Record<string, unknown>> {
+    return this.request("GET", "/settings");
+  }
+
+  saveSetting(key: string, value: unknown): Promise<void> {
+    return this.request("PUT", `/settings/${encodeURIComponent(key)}`, { value });
+  }
+
+  getHistory(): Promise<HistoryEntry[]> {
+    return this.request("GET", "/history");
+  }
+
+  appendHistory(entries: HistoryEntry[]): Promise<void> {
+    return this.request("POST", "/history", entries);
+  }
+}
@@ -0,0 +1,99 @@
+// Google Sheets storage backend, on top of the Apps Script endpoint
+// (googleSheetsService). The sheet has tabs for transactions, party mappings,
+// the audit trail and a list of party names; there is nowhere to keep party balances or
+// settings, so those calls reject with UnsupportedStorageOperationError.
+
+import { HistoryEntry, Party, Transaction } from "../types/transaction";
+import {
+  PartyNameMapping,
+  appendHistoryToSheets,
+  deletePartyMappingFromSheets,
+  fetchPartiesFromSheets,
+  fetchPartyMappingsFromSheets,
+  loadHistoryFromSheets,
+  loadTransactionsFromSheets,
+  savePartyMappingToSheets,
+  saveTransactionsToSheets,
+  updatePartyMappingInSheets,
+  updateTransactionInSheets,
+} from "./googleSheetsService";
+import {
+  StorageBackend,
+  TransactionConflictError,
+  TransactionWriteResult,
+  UnsupportedStorageOperationError,
+} from "./storageBackend";
+
+export class GoogleSheetsBackend implements StorageBackend {
+  readonly id = "google-sheets" as const;
+  readonly label = "Google Sheets";
+
+  getTransactions(): Promise<Transaction[]> {
+    return loadTransactionsFromSheets();
+  }
+
+  async addTransactions(transactions: Transaction[]): Promise<TransactionWriteResult[]> {
+    return (await saveTransactionsToSheets(transactions)).results;
+  }
+
+  async updateTransaction(transaction: Transaction): Promise<void> {
+    const result = await updateTransactionInSheets(transaction);
+    if (result.current) throw new TransactionConflictError(result.current);
+    if (!result.success) throw new Error(result.error);
+  }
+
+  /**
+   * Names from the Parties tab. The sheet keeps no balances, so those are zero.
+   */
+  async getParties(): Promise<Party[]> {
+    const names = await fetchPartiesFromSheets();
+    return names.map((name) => ({
+      id: `party_${name.toLowerCase().replace(/\s+/g, "_")}`,
+      name,
+      type: "customer",
+      balance: 0,
+      totalCredits: 0,
+      totalDebits: 0,
+    }));
+  }
+
+  async saveParties(): Promise<void> {
+    throw new UnsupportedStorageOperationError(this.label, "saving parties");
+  }
+
+  getPartyMappings(): Promise<PartyNameMapping[]> {
+    return fetchPartyMappingsFromSheets();
+  }
+
+  async addPartyMapping(mapping: PartyNameMapping): Promise<void> {
+    const result = await savePartyMappingToSheets(mapping);
+    if (!result.success) throw new Error(result.error);
+  }
+
+  async updatePartyMapping(mapping: PartyNameMapping): Promise<void> {
+    const result = await updatePartyMappingInSheets(mapping);
+    if (!result.success) throw new Error(result.error);
+  }
+
+  async deletePartyMapping(id: string): Promise<void> {
+    const result = await deletePartyMappingFromSheets(id);
+    if (!result.success) throw new Error(result.error);
+  }
+
+  async getSettings(): Promise<Record<string, unknown>> {
+    throw new UnsupportedStorageOperationError(this.label, "settings");
+  }
+
+  async saveSetting(): Promise<void> {
+    throw new UnsupportedStorageOperationError(this.label, "settings");
+  }
+
+  getHistory(): Promise<HistoryEntry[]> {
+    return loadHistoryFromSheets();
+  }
+
+  async appendHistory(entries: HistoryEntry[]): Promise<void> {
+    const result = await appendHistoryToSheets(entries);
+    if (!result.success) throw new Error(result.error);
+  }
+}
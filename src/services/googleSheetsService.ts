@@ -2,19 +2,28 @@
 // This service handles writing transaction data to Google Sheets
 
 // Option 1: Using Google Apps Script (Recommended - No API key needed)
-// You need to create a Google Apps Script web app first
-const APPS_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbwaxqF-hd2tiQKukRnBqMD-Iir56Vpm0CWYL-70YHTXJoMpHTwf_GannYZO-xfrAipXOA/exec'; // Add your Google Apps Script web app URL here
-
-// Export URL for error messages
-export function getGoogleSheetsURL(): string {
-  return APPS_SCRIPT_URL;
-}
+// You need to create a Google Apps Script web app first. Its URL is set per
+// workspace on the Settings page (see workspaceService).
 
 // Option 2: Using Google Sheets API (Requires API key and OAuth)
 const API_KEY = ''; // Add your Google Sheets API key here
 
-import { Transaction } from '../types/transaction';
-import { formatDate } from '../lib/utils';
+import { HistoryEntry, Transaction } from '../types/transaction';
+import {
+  SheetRecord,
+  TRANSACTION_HEADERS,
+  checkSheetHeaders,
+  sheetRecordToTransaction,
+  sheetRowToRecord,
+  transactionToSheetRecord,
+  transactionToSheetRow,
+} from './sheetColumns';
+import { WorkspaceService } from './workspaceService';
+
+// URL of the active workspace's Apps Script web app - also shown in error messages
+export function getGoogleSheetsURL(): string {
+  return WorkspaceService.getActiveWorkspace().appsScriptUrl.trim();
+}
 
 // Party Name Mapping interface (defined here to avoid circular dependency)
 export interface PartyNameMapping {
@@ -27,554 +36,350 @@ export interface PartyNameMapping {
 }
 
 /**
- * Update an existing transaction in Google Sheets
- * Finds the transaction by ID and updates the row
+ * Outcome of writing one row (a transaction or a party mapping) to the sheet
  */
-export async function updateTransactionInSheets(transaction: Transaction): Promise<boolean> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
-    console.warn('Google Apps Script URL not configured. Skipping Google Sheets update.');
-    return false;
+export interface SheetsRowResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of a conditional row update. On a conflict, `current` is the row as
+ * it is in the sheet now.
+ */
+export interface SheetsUpdateResult extends SheetsRowResult {
+  current?: Transaction;
+}
+
+interface AppsScriptResponse {
+  success: boolean;
+  error?: string;
+  /** Per-row outcome of a batch append (older scripts don't send it) */
+  results?: SheetsRowResult[];
+  /** Set by updateRow when the row's version didn't match */
+  conflict?: boolean;
+  /** The row as it is in the sheet now - keyed by header (older scripts send the bare row) */
+  current?: SheetRecord | unknown[];
+}
+
+/**
+ * POST an action to the Apps Script web app and return its JSON reply.
+ * The body is JSON sent as text/plain: that is a "simple" request, so the
+ * browser sends no CORS preflight (which Apps Script can't answer) and lets us
+ * read the reply. Throws when the script can't be reached or doesn't reply with JSON.
+ */
+async function postToAppsScript(payload: Record<string, unknown>): Promise<AppsScriptResponse> {
+  const response = await fetch(getGoogleSheetsURL(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+    body: JSON.stringify(payload),
+  });
+
+  const responseText = await response.text();
+  if (!response.ok) {
+    throw new Error(`Google Apps Script returned ${response.status}`);
+  }
+  if (responseText.includes('Sign in') || responseText.includes('Google Account')) {
+    throw new Error('Script requires authorization. Please authorize the Google Apps Script first.');
   }
 
   try {
-    // Format transaction data as row array
-    const rowData = formatTransactionAsRow(transaction);
-
-    console.log('Updating transaction in Google Sheets:', { id: transaction.id, url: APPS_SCRIPT_URL });
-
-    // Google Apps Script - use URL-encoded form data
-    return new Promise((resolve) => {
-      const iframe = document.createElement('iframe');
-      iframe.style.display = 'none';
-      iframe.name = 'google-sheets-iframe-update-' + Date.now();
-      document.body.appendChild(iframe);
-
-      const form = document.createElement('form');
-      form.method = 'POST';
-      form.action = APPS_SCRIPT_URL;
-      form.target = iframe.name;
-      form.enctype = 'application/x-www-form-urlencoded';
-      form.style.display = 'none';
-
-      // Send update data
-      const payload = {
-        action: 'updateRow',
-        transactionId: transaction.id,
-        data: JSON.stringify(rowData), // Send full row data as JSON string
-      };
+    return JSON.parse(responseText);
+  } catch {
+    throw new Error(`Unexpected reply from Google Apps Script: ${responseText.substring(0, 200)}`);
+  }
+}
 
-      console.log('Update payload:', payload);
+/**
+ * Convert a row from the sheet to a Transaction. Scripts that don't send the
+ * header row return rows in TRANSACTION_COLUMNS order.
+ */
+function parseTransactionRow(row: SheetRecord | unknown[], headers: string[] = TRANSACTION_HEADERS): Transaction {
+  return sheetRecordToTransaction(Array.isArray(row) ? sheetRowToRecord(headers, row) : row);
+}
 
-      // Add each field as a form input
-      Object.keys(payload).forEach(key => {
-        const input = document.createElement('input');
-        input.type = 'hidden';
-        input.name = key;
-        input.value = payload[key as keyof typeof payload];
-        form.appendChild(input);
-      });
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
 
-      document.body.appendChild(form);
+/**
+ * Update an existing transaction in Google Sheets
+ * Finds the transaction by ID and updates the row - but only if the row is
+ * still at transaction.version, so an edit based on an older copy can't
+ * overwrite someone else's change. The row is written at version + 1.
+ */
+export async function updateTransactionInSheets(transaction: Transaction): Promise<SheetsUpdateResult> {
+  if (!isGoogleSheetsConfigured()) {
+    console.warn('Google Apps Script URL not configured. Skipping Google Sheets update.');
+    return { id: transaction.id, success: false, error: 'Google Apps Script URL not configured' };
+  }
 
-      // Submit and wait
-      form.submit();
-      
-      // Clean up after a delay
-      setTimeout(() => {
-        try {
-          if (document.body.contains(form)) {
-            document.body.removeChild(form);
-          }
-          if (document.body.contains(iframe)) {
-            document.body.removeChild(iframe);
-          }
-        } catch (e) {
-          // Already removed
-        }
-        console.log('✓ Transaction updated in Google Sheets');
-        resolve(true);
-      }, 2000);
+  try {
+    // Sent keyed by column header - the script writes each value under its column
+    const expectedVersion = transaction.version ?? 0;
+    const record = transactionToSheetRecord({ ...transaction, version: expectedVersion + 1 });
+
+    console.log('Updating transaction in Google Sheets:', { id: transaction.id, expectedVersion, url: getGoogleSheetsURL() });
+
+    const result = await postToAppsScript({
+      action: 'updateRow',
+      transactionId: transaction.id,
+      expectedVersion,
+      data: record,
     });
+
+    if (result.conflict && result.current) {
+      console.warn('Transaction was changed in Google Sheets by someone else:', transaction.id);
+      return {
+        id: transaction.id,
+        success: false,
+        error: result.error || 'The transaction was changed by someone else',
+        current: parseTransactionRow(result.current),
+      };
+    }
+    if (!result.success) {
+      console.error('Google Sheets rejected the update:', transaction.id, result.error);
+      return { id: transaction.id, success: false, error: result.error || 'Google Sheets did not accept the update' };
+    }
+    console.log('✓ Transaction updated in Google Sheets');
+    return { id: transaction.id, success: true };
   } catch (error) {
     console.error('Error updating transaction in Google Sheets:', error);
-    return false;
+    return { id: transaction.id, success: false, error: errorMessage(error) };
   }
 }
 
 /**
- * Save transaction data to Google Sheets using Google Apps Script
+ * Test an Apps Script endpoint - the active workspace's unless another URL is
+ * given. The script answers a GET without an action with "Google Sheets API is
+ * running", so this checks the URL, the deployment and its authorization.
  */
-/**
- * Test Google Sheets connection
- */
-export async function testGoogleSheetsConnection(): Promise<{ success: boolean; error?: string }> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
+export async function testGoogleSheetsConnection(
+  url: string = getGoogleSheetsURL()
+): Promise<{ success: boolean; error?: string }> {
+  if (!url.trim()) {
     return { success: false, error: 'Google Apps Script URL not configured' };
   }
 
+  let responseText: string;
   try {
-    // Test with a simple GET request - CORS will fail but we can check the error
-    try {
-      const response = await fetch(APPS_SCRIPT_URL, {
-        method: 'GET',
-        mode: 'no-cors', // Use no-cors to avoid CORS error
-      });
-      
-      // With no-cors, we can't read the response, but if it doesn't throw, the URL is accessible
-      return { success: true, error: 'Connection test completed (CORS prevents reading response, but URL is accessible)' };
-    } catch (fetchError) {
-      // If it's a CORS error, that's actually normal for Google Apps Script
-      if (fetchError instanceof TypeError && fetchError.message.includes('CORS')) {
-        return { 
-          success: true, 
-          error: 'CORS error is normal for Google Apps Script. The form submission method will work around this.' 
-        };
-      }
-      throw fetchError;
+    const response = await fetch(url.trim(), { method: 'GET' });
+    responseText = await response.text();
+    if (!response.ok) {
+      return { success: false, error: `Google Apps Script returned ${response.status}` };
     }
   } catch (error) {
+    // fetch only rejects when nothing readable came back at all
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: `The URL could not be reached (${errorMessage(error)}). Check that it is the web app URL of an active deployment.`,
     };
   }
-}
 
-export async function saveTransactionToSheets(transaction: Transaction): Promise<boolean> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
-    console.warn('Google Apps Script URL not configured. Skipping Google Sheets write.');
-    return false;
+  if (responseText.includes('Sign in') || responseText.includes('Google Account')) {
+    return { success: false, error: 'Script requires authorization. Please authorize the Google Apps Script first.' };
   }
-
-  try {
-    // Format transaction data as row array
-    const rowData = formatTransactionAsRow(transaction);
-
-    console.log('Sending transaction to Google Sheets:', { url: APPS_SCRIPT_URL, rowCount: rowData.length });
-
-    // Google Apps Script - use URL-encoded form data which works better
-    // Create form with proper encoding
-    return new Promise((resolve, reject) => {
-      const iframe = document.createElement('iframe');
-      iframe.style.display = 'none';
-      iframe.name = 'google-sheets-iframe-' + Date.now();
-      document.body.appendChild(iframe);
-
-      const form = document.createElement('form');
-      form.method = 'POST';
-      form.action = APPS_SCRIPT_URL;
-      form.target = iframe.name;
-      form.enctype = 'application/x-www-form-urlencoded';
-      form.style.display = 'none';
-
-      // Send data as URL-encoded form fields
-      // Google Apps Script receives this as e.parameter.fieldName
-      const payload = {
-        action: 'appendRow',
-        data: JSON.stringify(rowData), // Send data array as JSON string
-      };
-
-      console.log('Form payload:', payload);
-      console.log('Row data being sent:', rowData);
-
-      // Add each field as a form input
-      Object.keys(payload).forEach(key => {
-        const input = document.createElement('input');
-        input.type = 'hidden';
-        input.name = key;
-        input.value = payload[key as keyof typeof payload];
-        form.appendChild(input);
-      });
-
-      document.body.appendChild(form);
-
-      // Submit and wait
-      form.submit();
-      
-      // Clean up after a delay
-      setTimeout(() => {
-        try {
-          if (document.body.contains(form)) {
-            document.body.removeChild(form);
-          }
-          if (document.body.contains(iframe)) {
-            document.body.removeChild(iframe);
-          }
-        } catch (e) {
-          // Already removed
-        }
-        console.log('✓ Transaction sent to Google Sheets');
-        resolve(true);
-      }, 2000);
-    });
-  } catch (error) {
-    console.error('Error saving to Google Sheets:', error);
-    return false;
+  if (!responseText.includes('Google Sheets API is running')) {
+    return { success: false, error: `Unexpected reply from Google Apps Script: ${responseText.substring(0, 200)}` };
   }
+  return { success: true };
+}
+
+/**
+ * Save one transaction to Google Sheets
+ */
+export async function saveTransactionToSheets(transaction: Transaction): Promise<SheetsRowResult> {
+  const { results } = await saveTransactionsToSheets([transaction]);
+  return results[0];
 }
 
 /**
- * Save multiple transactions to Google Sheets in a single batch
+ * Save multiple transactions to Google Sheets in a single batch.
+ * Returns a result for every transaction, in the same order.
  */
-export async function saveTransactionsToSheets(transactions: Transaction[]): Promise<{ success: number; failed: number }> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
+export async function saveTransactionsToSheets(
+  transactions: Transaction[]
+): Promise<{ success: number; failed: number; results: SheetsRowResult[] }> {
+  const allFailed = (error: string) => ({
+    success: 0,
+    failed: transactions.length,
+    results: transactions.map((t) => ({ id: t.id, success: false, error })),
+  });
+
+  if (!isGoogleSheetsConfigured()) {
     console.warn('Google Apps Script URL not configured. Skipping Google Sheets write.');
-    return { success: 0, failed: transactions.length };
+    return allFailed('Google Apps Script URL not configured');
   }
 
   if (transactions.length === 0) {
-    return { success: 0, failed: 0 };
+    return { success: 0, failed: 0, results: [] };
   }
 
   console.log(`Starting to save ${transactions.length} transactions to Google Sheets in batch...`);
 
+  let result: AppsScriptResponse;
   try {
-    // Format all transactions as rows
-    const allRows = transactions.map(transaction => formatTransactionAsRow(transaction));
-    
-    console.log(`Sending batch of ${allRows.length} transactions...`);
-
     // Send all transactions in one POST request
-    const iframe = document.createElement('iframe');
-    iframe.style.display = 'none';
-    iframe.name = 'google-sheets-iframe-batch-' + Date.now();
-    document.body.appendChild(iframe);
-
-    const form = document.createElement('form');
-    form.method = 'POST';
-    form.action = APPS_SCRIPT_URL;
-    form.target = iframe.name;
-    form.enctype = 'application/x-www-form-urlencoded';
-    form.style.display = 'none';
-
-    // Send batch data
-    const payload = {
+    result = await postToAppsScript({
       action: 'appendRows',
-      data: JSON.stringify(allRows), // Send all rows as JSON string
-    };
-
-    console.log('Batch payload:', { action: payload.action, rowCount: allRows.length });
-
-    // Add each field as a form input
-    Object.keys(payload).forEach(key => {
-      const input = document.createElement('input');
-      input.type = 'hidden';
-      input.name = key;
-      input.value = payload[key as keyof typeof payload];
-      form.appendChild(input);
-    });
-
-    document.body.appendChild(form);
-
-    // Submit and wait
-    form.submit();
-    
-    // Clean up after a delay
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        try {
-          if (document.body.contains(form)) {
-            document.body.removeChild(form);
-          }
-          if (document.body.contains(iframe)) {
-            document.body.removeChild(iframe);
-          }
-        } catch (e) {
-          // Already removed
-        }
-        console.log(`✓ Batch of ${transactions.length} transactions sent to Google Sheets`);
-        resolve({ success: transactions.length, failed: 0 });
-      }, 3000); // Give it a bit more time for batch processing
+      data: transactions.map(transactionToSheetRecord),
     });
   } catch (error) {
     console.error('Error saving batch to Google Sheets:', error);
-    return { success: 0, failed: transactions.length };
+    return allFailed(errorMessage(error));
   }
+
+  if (!result.success) {
+    console.error('Google Sheets rejected the batch:', result.error);
+    return allFailed(result.error || 'Google Sheets did not accept the new rows');
+  }
+
+  // Scripts from before per-row results only report success for the whole batch
+  const byId = new Map((result.results || []).map((r) => [String(r.id), r]));
+  const results = transactions.map((t): SheetsRowResult => {
+    if (!result.results) return { id: t.id, success: true };
+    const row = byId.get(t.id);
+    if (!row) return { id: t.id, success: false, error: 'Google Sheets returned no result for this row' };
+    return { id: t.id, success: Boolean(row.success), error: row.success ? undefined : row.error || 'Row was not saved' };
+  });
+
+  const success = results.filter((r) => r.success).length;
+  console.log(`✓ Saved ${success} of ${transactions.length} transactions to Google Sheets`);
+  return { success, failed: transactions.length - success, results };
 }
 
 /**
- * Format transaction as row data for Google Sheets
- * Adjust column order based on your Google Sheet structure
+ * Fetch all transactions from Google Sheets
  */
-function formatTransactionAsRow(transaction: Transaction): (string | number)[] {
-  // CRITICAL: Date should ONLY be set from CSV upload, NEVER modified
-  // This function just formats the date for display - it does NOT modify the date value
-  const dateValue = transaction.date; // Use original date value
-  console.log('📅 Formatting transaction date (NOT modifying):', dateValue, 'for transaction:', transaction.id);
-  
-  return [
-    transaction.id, // Transaction ID (unique key) - FIRST COLUMN
-    formatDate(dateValue), // Date - formatted for display, but original value preserved
-    transaction.description || '', // Narration/Description
-    transaction.referenceNumber || '', // Bank Ref No.
-    transaction.amount, // Amount
-    transaction.partyName || '', // Party Name
-    transaction.category || '', // Category
-    transaction.type || 'credit', // Type
-    transaction.added_to_vyapar ? 'Yes' : 'No', // Added to Vyapar
-    transaction.vyapar_reference_number || '', // Vyapar Ref No.
-    transaction.hold ? 'Yes' : 'No', // Hold Status
-    transaction.selfTransfer ? 'Yes' : 'No', // Self Transfer Status
-    transaction.notes || '', // Notes
-    transaction.createdAt ? formatDate(transaction.createdAt) : '', // Created At
-    transaction.updatedAt ? formatDate(transaction.updatedAt) : '', // Updated At
-  ];
+export async function fetchTransactionsFromSheets(): Promise<Transaction[]> {
+  try {
+    return await loadTransactionsFromSheets();
+  } catch (error) {
+    console.error('Error fetching transactions from Google Sheets:', error);
+    return [];
+  }
 }
 
 /**
- * Fetch all transactions from Google Sheets
+ * Fetch all transactions from Google Sheets, throwing when the sheet can't be
+ * read - unlike fetchTransactionsFromSheets, a failure is not an empty list
  */
-export async function fetchTransactionsFromSheets(): Promise<Transaction[]> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
+export async function loadTransactionsFromSheets(): Promise<Transaction[]> {
+  if (!isGoogleSheetsConfigured()) {
     console.warn('Google Apps Script URL not configured. Cannot fetch transactions.');
     return [];
   }
 
-  try {
-    console.log('Fetching transactions from Google Sheets...');
+  console.log('Fetching transactions from Google Sheets...');
 
-    // Use GET request to fetch data
-    const response = await fetch(`${APPS_SCRIPT_URL}?action=getTransactions`, {
-      method: 'GET',
-    });
+  // Use GET request to fetch data
+  const response = await fetch(`${getGoogleSheetsURL()}?action=getTransactions`, {
+    method: 'GET',
+  });
 
-    const responseText = await response.text();
-    console.log('Google Sheets response:', responseText.substring(0, 500));
+  const responseText = await response.text();
+  console.log('Google Sheets response:', responseText.substring(0, 500));
 
-    // Check if response is HTML (sign-in page) instead of JSON
-    if (responseText.includes('Sign in') || responseText.includes('Google Account')) {
-      console.error('Google Apps Script requires authorization.');
-      throw new Error('Script requires authorization. Please authorize the Google Apps Script first.');
-    }
+  // Check if response is HTML (sign-in page) instead of JSON
+  if (responseText.includes('Sign in') || responseText.includes('Google Account')) {
+    console.error('Google Apps Script requires authorization.');
+    throw new Error('Script requires authorization. Please authorize the Google Apps Script first.');
+  }
 
-    // Parse JSON response
-    const result = JSON.parse(responseText);
-    
-    if (result.success && result.data) {
-      // Convert sheet rows to Transaction objects
-      const transactions = result.data.map((row: any[]) => {
-        // Column order: [ID, Date, Narration, Bank Ref No., Amount, Party Name, Category, Type, Added to Vyapar, Vyapar Ref No., Hold, Notes, Created At, Updated At]
-        
-        // Parse date - handle both string and Date object from Google Sheets
-        let dateStr = row[1];
-        if (dateStr instanceof Date) {
-          dateStr = dateStr.toISOString().split('T')[0];
-        } else if (typeof dateStr === 'string') {
-          // If it's already in ISO format or DD MMM YYYY format, keep it
-          // Otherwise try to parse it
-          if (!dateStr.match(/^\d{4}-\d{2}-\d{2}$/) && !dateStr.match(/^\d{2} \w{3} \d{4}$/)) {
-            try {
-              const parsedDate = new Date(dateStr);
-              if (!isNaN(parsedDate.getTime())) {
-                dateStr = parsedDate.toISOString().split('T')[0];
-              }
-            } catch (e) {
-              // Keep original if parsing fails
-            }
-          }
-        }
-        
-        // Parse amount - handle both number and string
-        let amount = 0;
-        if (typeof row[4] === 'number') {
-          amount = row[4];
-        } else if (typeof row[4] === 'string') {
-          // Remove commas and parse
-          amount = parseFloat(row[4].replace(/,/g, '')) || 0;
-        }
-        
-        // Ensure vyapar_reference_number is a string or undefined
-        let vyaparRef = row[9];
-        if (vyaparRef !== null && vyaparRef !== undefined && vyaparRef !== '') {
-          vyaparRef = String(vyaparRef).trim();
-          if (vyaparRef === '') vyaparRef = undefined;
-        } else {
-          vyaparRef = undefined;
-        }
-        
-        // Ensure referenceNumber is a string or undefined
-        let refNumber = row[3];
-        if (refNumber !== null && refNumber !== undefined && refNumber !== '') {
-          refNumber = String(refNumber).trim();
-          if (refNumber === '') refNumber = undefined;
-        } else {
-          refNumber = undefined;
-        }
-        
-        // Ensure notes is a string or undefined
-        let notesValue = row[11];
-        if (notesValue !== null && notesValue !== undefined && notesValue !== '') {
-          notesValue = String(notesValue).trim();
-          if (notesValue === '') notesValue = undefined;
-        } else {
-          notesValue = undefined;
-        }
-        
-        return {
-          id: String(row[0] || '').trim() || '',
-          date: dateStr || new Date().toISOString().split('T')[0],
-          description: String(row[2] || '').trim(),
-          referenceNumber: refNumber,
-          amount: amount,
-          partyName: String(row[5] || '').trim(),
-          category: (row[6] || 'Other Credit') as Transaction['category'],
-          type: (row[7] || 'credit') as 'credit' | 'debit',
-          added_to_vyapar: row[8] === 'Yes' || row[8] === true || row[8] === 'true',
-          vyapar_reference_number: vyaparRef,
-          hold: row[10] === 'Yes' || row[10] === true || row[10] === 'true',
-          selfTransfer: row[11] === 'Yes' || row[11] === true || row[11] === 'true',
-          notes: notesValue,
-          createdAt: row[13] || new Date().toISOString(),
-          updatedAt: row[14] || new Date().toISOString(),
-        } as Transaction;
-      });
-
-      console.log(`✓ Fetched ${transactions.length} transactions from Google Sheets`);
-      return transactions;
-    } else {
-      console.error('Failed to fetch transactions:', result.error);
-      return [];
-    }
-  } catch (error) {
-    console.error('Error fetching transactions from Google Sheets:', error);
-    return [];
+  // Parse JSON response
+  const result = JSON.parse(responseText);
+  
+  if (result.success && result.data) {
+    // Rows are read by the sheet's own header row; older scripts don't send it
+    const headers: string[] = result.headers || TRANSACTION_HEADERS;
+    checkSheetHeaders(headers);
+    const rows: unknown[][] = result.data;
+    const transactions = rows.map((row) => parseTransactionRow(row, headers));
+
+    console.log(`✓ Fetched ${transactions.length} transactions from Google Sheets`);
+    return transactions;
+  } else {
+    throw new Error(`Failed to fetch transactions: ${result.error || 'unknown error'}`);
   }
 }
 
+function formatPartyMappingAsRow(mapping: PartyNameMapping): (string | number)[] {
+  return [
+    mapping.id,
+    mapping.originalName,
+    mapping.correctedName,
+    mapping.confidence,
+    mapping.lastUsed,
+    mapping.createdAt,
+  ];
+}
+
 /**
- * Save party mapping to Google Sheets
+ * Send a party mapping action and turn the reply into a row result
  */
-export async function savePartyMappingToSheets(mapping: PartyNameMapping): Promise<boolean> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
-    console.warn('Google Apps Script URL not configured. Skipping party mapping save.');
-    return false;
+async function writePartyMapping(
+  mappingId: string,
+  payload: Record<string, unknown>,
+  description: string
+): Promise<SheetsRowResult> {
+  if (!isGoogleSheetsConfigured()) {
+    console.warn(`Google Apps Script URL not configured. Skipping party mapping ${description}.`);
+    return { id: mappingId, success: false, error: 'Google Apps Script URL not configured' };
   }
 
   try {
-    const rowData = [
-      mapping.id,
-      mapping.originalName,
-      mapping.correctedName,
-      mapping.confidence,
-      mapping.lastUsed,
-      mapping.createdAt,
-    ];
-
-    return new Promise((resolve) => {
-      const iframe = document.createElement('iframe');
-      iframe.style.display = 'none';
-      iframe.name = 'google-sheets-iframe-mapping-' + Date.now();
-      document.body.appendChild(iframe);
-
-      const form = document.createElement('form');
-      form.method = 'POST';
-      form.action = APPS_SCRIPT_URL;
-      form.target = iframe.name;
-      form.enctype = 'application/x-www-form-urlencoded';
-      form.style.display = 'none';
-
-      const payload = {
-        action: 'appendPartyMapping',
-        data: JSON.stringify(rowData),
-      };
-
-      Object.keys(payload).forEach(key => {
-        const input = document.createElement('input');
-        input.type = 'hidden';
-        input.name = key;
-        input.value = payload[key as keyof typeof payload];
-        form.appendChild(input);
-      });
-
-      document.body.appendChild(form);
-      form.submit();
-
-      setTimeout(() => {
-        try {
-          if (document.body.contains(form)) document.body.removeChild(form);
-          if (document.body.contains(iframe)) document.body.removeChild(iframe);
-        } catch (e) {}
-        resolve(true);
-      }, 2000);
-    });
+    const result = await postToAppsScript(payload);
+    if (!result.success) {
+      console.error(`Google Sheets rejected the party mapping ${description}:`, mappingId, result.error);
+      return { id: mappingId, success: false, error: result.error || `Party mapping ${description} failed` };
+    }
+    return { id: mappingId, success: true };
   } catch (error) {
-    console.error('Error saving party mapping to Google Sheets:', error);
-    return false;
+    console.error(`Error sending party mapping ${description} to Google Sheets:`, error);
+    return { id: mappingId, success: false, error: errorMessage(error) };
   }
 }
 
 /**
- * Update party mapping in Google Sheets
+ * Save party mapping to Google Sheets
  */
-export async function updatePartyMappingInSheets(mapping: PartyNameMapping): Promise<boolean> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
-    return false;
-  }
+export function savePartyMappingToSheets(mapping: PartyNameMapping): Promise<SheetsRowResult> {
+  return writePartyMapping(
+    mapping.id,
+    { action: 'appendPartyMapping', data: formatPartyMappingAsRow(mapping) },
+    'save'
+  );
+}
 
-  try {
-    const rowData = [
-      mapping.id,
-      mapping.originalName,
-      mapping.correctedName,
-      mapping.confidence,
-      mapping.lastUsed,
-      mapping.createdAt,
-    ];
-
-    return new Promise((resolve) => {
-      const iframe = document.createElement('iframe');
-      iframe.style.display = 'none';
-      iframe.name = 'google-sheets-iframe-update-mapping-' + Date.now();
-      document.body.appendChild(iframe);
-
-      const form = document.createElement('form');
-      form.method = 'POST';
-      form.action = APPS_SCRIPT_URL;
-      form.target = iframe.name;
-      form.enctype = 'application/x-www-form-urlencoded';
-      form.style.display = 'none';
-
-      const payload = {
-        action: 'updatePartyMapping',
-        mappingId: mapping.id,
-        data: JSON.stringify(rowData),
-      };
+/**
+ * Update party mapping in Google Sheets
+ */
+export function updatePartyMappingInSheets(mapping: PartyNameMapping): Promise<SheetsRowResult> {
+  return writePartyMapping(
+    mapping.id,
+    { action: 'updatePartyMapping', mappingId: mapping.id, data: formatPartyMappingAsRow(mapping) },
+    'update'
+  );
+}
 
-      Object.keys(payload).forEach(key => {
-        const input = document.createElement('input');
-        input.type = 'hidden';
-        input.name = key;
-        input.value = payload[key as keyof typeof payload];
-        form.appendChild(input);
-      });
-
-      document.body.appendChild(form);
-      form.submit();
-
-      setTimeout(() => {
-        try {
-          if (document.body.contains(form)) document.body.removeChild(form);
-          if (document.body.contains(iframe)) document.body.removeChild(iframe);
-        } catch (e) {}
-        resolve(true);
-      }, 2000);
-    });
-  } catch (error) {
-    console.error('Error updating party mapping in Google Sheets:', error);
-    return false;
-  }
+/**
+ * Delete party mapping from Google Sheets
+ */
+export function deletePartyMappingFromSheets(mappingId: string): Promise<SheetsRowResult> {
+  return writePartyMapping(mappingId, { action: 'deletePartyMapping', mappingId }, 'deletion');
 }
 
 /**
  * Fetch all party mappings from Google Sheets
  */
 export async function fetchPartyMappingsFromSheets(): Promise<PartyNameMapping[]> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
+  if (!isGoogleSheetsConfigured()) {
     return [];
   }
 
   try {
-    const response = await fetch(`${APPS_SCRIPT_URL}?action=getPartyMappings`, {
+    const response = await fetch(`${getGoogleSheetsURL()}?action=getPartyMappings`, {
       method: 'GET',
     });
 
@@ -607,17 +412,92 @@ export async function fetchPartyMappingsFromSheets(): Promise<PartyNameMapping[]
   }
 }
 
+function formatHistoryEntryAsRow(entry: HistoryEntry): string[] {
+  return [
+    entry.id,
+    entry.transactionId,
+    entry.action,
+    entry.field || '',
+    entry.oldValue ?? '',
+    entry.newValue ?? '',
+    entry.timestamp,
+    entry.operator,
+  ];
+}
+
+/**
+ * Append audit trail entries to the History tab. The script skips entries
+ * whose ID is already there, so a retried batch isn't recorded twice.
+ */
+export async function appendHistoryToSheets(entries: HistoryEntry[]): Promise<{ success: boolean; error?: string }> {
+  if (!isGoogleSheetsConfigured()) {
+    return { success: false, error: 'Google Apps Script URL not configured' };
+  }
+  if (entries.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const result = await postToAppsScript({ action: 'appendHistory', data: entries.map(formatHistoryEntryAsRow) });
+    if (!result.success) {
+      console.error('Google Sheets rejected the history entries:', result.error);
+      return { success: false, error: result.error || 'History entries were not saved' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending history entries to Google Sheets:', error);
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Fetch the audit trail from the History tab, throwing when it can't be read
+ */
+export async function loadHistoryFromSheets(): Promise<HistoryEntry[]> {
+  if (!isGoogleSheetsConfigured()) {
+    return [];
+  }
+
+  const response = await fetch(`${getGoogleSheetsURL()}?action=getHistory`, {
+    method: 'GET',
+  });
+
+  const responseText = await response.text();
+  if (responseText.includes('Sign in') || responseText.includes('Google Account')) {
+    throw new Error('Script requires authorization. Please authorize the Google Apps Script first.');
+  }
+
+  const result = JSON.parse(responseText);
+  if (!result.success || !result.data) {
+    throw new Error(`Failed to fetch history: ${result.error || 'unknown error'}`);
+  }
+
+  const rows: unknown[][] = result.data;
+  return rows
+    .filter((row) => row[0])
+    .map((row): HistoryEntry => ({
+      id: String(row[0]),
+      transactionId: String(row[1] || ''),
+      action: String(row[2] || 'updated') as HistoryEntry['action'],
+      field: (String(row[3] || '') || undefined) as HistoryEntry['field'],
+      oldValue: String(row[4] ?? ''),
+      newValue: String(row[5] ?? ''),
+      timestamp: String(row[6] || ''),
+      operator: String(row[7] || ''),
+    }));
+}
+
 /**
  * Fetch all parties from Google Sheets (from a separate Parties sheet)
  * Expected format: Each row contains a party name
  */
 export async function fetchPartiesFromSheets(): Promise<string[]> {
-  if (!APPS_SCRIPT_URL || APPS_SCRIPT_URL.trim() === '') {
+  if (!isGoogleSheetsConfigured()) {
     return [];
   }
 
   try {
-    const response = await fetch(`${APPS_SCRIPT_URL}?action=getParties`, {
+    const response = await fetch(`${getGoogleSheetsURL()}?action=getParties`, {
       method: 'GET',
     });
 
@@ -703,16 +583,17 @@ export function findMatchingParties(narration: string, parties: string[], maxMat
  * Get Google Sheets configuration status
  */
 export function isGoogleSheetsConfigured(): boolean {
-  return APPS_SCRIPT_URL.trim() !== '';
+  return getGoogleSheetsURL() !== '';
 }
 
 /**
- * Set Google Sheets Apps Script URL (for settings page)
+ * Set the active workspace's Apps Script URL. The remote backend is picked
+ * again when a workspace changes (see storageBackends), so this takes effect
+ * straight away.
  */
 export function setGoogleSheetsURL(url: string): void {
-  // In a real app, you'd save this to localStorage or settings
-  // For now, we'll use a constant that needs to be updated in code
-  console.warn('To configure Google Sheets URL, update APPS_SCRIPT_URL in googleSheetsService.ts');
+  const workspace = WorkspaceService.getActiveWorkspace();
+  WorkspaceService.updateWorkspace(workspace.id, { ...workspace, appsScriptUrl: url });
 }
 
 /**
@@ -727,7 +608,7 @@ export function formatTransactionAsCSV(transaction: Transaction): string {
     return str;
   };
 
-  const row = formatTransactionAsRow(transaction);
+  const row = transactionToSheetRow(transaction);
   return row.map(escapeCSV).join(',');
 }
 
@@ -735,24 +616,8 @@ export function formatTransactionAsCSV(transaction: Transaction): string {
  * Copy multiple transactions as CSV to clipboard
  */
 export async function copyTransactionsToClipboard(transactions: Transaction[]): Promise<void> {
-  const headers = [
-    'Date',
-    'Narration',
-    'Bank Ref No.',
-    'Amount',
-    'Party Name',
-    'Category',
-    'Type',
-    'Added to Vyapar',
-    'Vyapar Ref No.',
-    'Hold',
-    'Notes',
-    'Created At',
-    'Updated At',
-  ];
-
   const csvRows = [
-    headers.join(','),
+    TRANSACTION_HEADERS.join(','),
     ...transactions.map(formatTransactionAsCSV),
   ];
 
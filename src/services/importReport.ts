@@ -0,0 +1,132 @@
+// Per-row diagnostics for statement imports
+// Every row below the detected header ends up in the report with what happened
+// to it, so a parse can be checked for rows that went missing.
+
+import Papa from "papaparse";
+
+export type ImportRowOutcome =
+  | "imported"
+  | "skipped-deposit"
+  | "skipped-withdrawal"
+  | "skipped-zero-amount"
+  | "skipped-invalid-date"
+  | "skipped-separator"
+  | "error";
+
+export const IMPORT_ROW_OUTCOMES: ImportRowOutcome[] = [
+  "imported",
+  "skipped-deposit",
+  "skipped-withdrawal",
+  "skipped-zero-amount",
+  "skipped-invalid-date",
+  "skipped-separator",
+  "error",
+];
+
+const OUTCOME_LABELS: Record<ImportRowOutcome, string> = {
+  imported: "Imported",
+  "skipped-deposit": "Skipped (deposit)",
+  "skipped-withdrawal": "Skipped (withdrawal)",
+  "skipped-zero-amount": "Skipped (no amount)",
+  "skipped-invalid-date": "Skipped (invalid date)",
+  "skipped-separator": "Skipped (separator/summary)",
+  error: "Error",
+};
+
+/**
+ * What the row parser decided for one statement row
+ */
+export interface RowOutcome {
+  outcome: ImportRowOutcome;
+  reason: string;
+  transactionId?: string;
+}
+
+/**
+ * A row the parser chose not to import (returned instead of a transaction)
+ */
+export interface RowSkip extends RowOutcome {
+  skipped: true;
+}
+
+export interface ImportRowReport extends RowOutcome {
+  /** Line number in the file (or sheet / entry number for structured formats) */
+  rowNumber: number;
+  /** Raw cell values as read from the file */
+  values: string[];
+  sheetName?: string;
+}
+
+export interface ImportReport {
+  rows: ImportRowReport[];
+  counts: Record<ImportRowOutcome, number>;
+}
+
+export function skipRow(outcome: ImportRowOutcome, reason: string): RowSkip {
+  return { skipped: true, outcome, reason };
+}
+
+export function isRowSkip(value: unknown): value is RowSkip {
+  return typeof value === "object" && value !== null && (value as RowSkip).skipped === true;
+}
+
+export function describeOutcome(outcome: ImportRowOutcome): string {
+  return OUTCOME_LABELS[outcome];
+}
+
+export function toRawValues(row: unknown[]): string[] {
+  return (row || []).map((cell) => String(cell ?? "").trim());
+}
+
+/**
+ * Build a report from row entries, ordered by sheet and row number
+ */
+export function createImportReport(rows: ImportRowReport[]): ImportReport {
+  const counts = Object.fromEntries(IMPORT_ROW_OUTCOMES.map((o) => [o, 0])) as Record<ImportRowOutcome, number>;
+  rows.forEach((row) => {
+    counts[row.outcome]++;
+  });
+  return { rows, counts };
+}
+
+export function mergeImportReports(reports: ImportReport[]): ImportReport {
+  return createImportReport(reports.flatMap((r) => r.rows));
+}
+
+/**
+ * Merge the rows dropped while extracting the table with the row parser's outcomes
+ */
+export function buildImportReport(
+  dropped: ImportRowReport[],
+  parsed: { rowNumber: number; values: string[] }[],
+  outcomes: (RowOutcome | undefined)[],
+  sheetName?: string
+): ImportReport {
+  const rows: ImportRowReport[] = [
+    ...dropped,
+    ...parsed.map((row, index) => ({
+      ...row,
+      ...(outcomes[index] || { outcome: "error" as const, reason: "Row was not processed" }),
+    })),
+  ]
+    .map((row) => (sheetName ? { ...row, sheetName } : row))
+    .sort((a, b) => a.rowNumber - b.rowNumber);
+
+  return createImportReport(rows);
+}
+
+export function skippedRows(report: ImportReport): ImportRowReport[] {
+  return report.rows.filter((row) => row.outcome !== "imported");
+}
+
+/**
+ * CSV of report rows (row number, sheet, outcome, reason, then the raw values)
+ */
+export function importReportToCSV(rows: ImportRowReport[]): string {
+  const width = Math.max(0, ...rows.map((row) => row.values.length));
+  const header = ["Row", "Sheet", "Outcome", "Reason", ...Array.from({ length: width }, (_, i) => `Column ${i + 1}`)];
+  return Papa.unparse([
+    header,
+    ...rows.map((row) => [String(row.rowNumber), row.sheetName || "", row.outcome, row.reason, ...row.values]),
+  ]);
+}
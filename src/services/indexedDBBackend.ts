@@ -0,0 +1,74 @@
+// IndexedDB storage backend - the local working copy (see localStore)
+
+import { HistoryEntry, Party, Transaction } from "../types/transaction";
+import type { PartyNameMapping } from "./googleSheetsService";
+import { LocalStore } from "./localStore";
+import { StorageBackend, TransactionWriteResult } from "./storageBackend";
+
+export class IndexedDBBackend implements StorageBackend {
+  readonly id = "indexeddb" as const;
+  readonly label = "This browser";
+
+  getTransactions(): Promise<Transaction[]> {
+    return LocalStore.getTransactions();
+  }
+
+  async addTransactions(transactions: Transaction[]): Promise<TransactionWriteResult[]> {
+    await LocalStore.putTransactions(transactions);
+    return transactions.map((t) => ({ id: t.id, success: true }));
+  }
+
+  updateTransaction(transaction: Transaction): Promise<void> {
+    return LocalStore.putTransactions([transaction]);
+  }
+
+  /**
+   * Replace the whole working copy (after a full refresh from the remote backend)
+   */
+  replaceTransactions(transactions: Transaction[]): Promise<void> {
+    return LocalStore.replaceTransactions(transactions);
+  }
+
+  getParties(): Promise<Party[]> {
+    return LocalStore.getParties();
+  }
+
+  saveParties(parties: Party[]): Promise<void> {
+    return LocalStore.replaceParties(parties);
+  }
+
+  getPartyMappings(): Promise<PartyNameMapping[]> {
+    return LocalStore.getPartyMappings();
+  }
+
+  addPartyMapping(mapping: PartyNameMapping): Promise<void> {
+    return LocalStore.putPartyMappings([mapping]);
+  }
+
+  updatePartyMapping(mapping: PartyNameMapping): Promise<void> {
+    return LocalStore.putPartyMappings([mapping]);
+  }
+
+  deletePartyMapping(id: string): Promise<void> {
+    return LocalStore.deletePartyMapping(id);
+  }
+
+  getSettings(): Promise<Record<string, unknown>> {
+    return LocalStore.getSettings();
+  }
+
+  saveSetting(key: string, value: unknown): Promise<void> {
+    return LocalStore.putSetting(key, value);
+  }
+
+  getHistory(): Promise<HistoryEntry[]> {
+    return LocalStore.getHistory();
+  }
+
+  /**
+   * Entries are keyed by ID, so storing one again leaves it as it was
+   */
+  appendHistory(entries: HistoryEntry[]): Promise<void> {
+    return LocalStore.putHistory(entries);
+  }
+}
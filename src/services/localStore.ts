@@ -0,0 +1,302 @@
+// Local working copy of the data, kept in IndexedDB
+// Pages read from here so they load instantly and keep working offline; the
+// outbox store holds writes that still have to reach the remote backend (see
+// syncOutbox), and the history outbox holds audit trail entries that still
+// have to (see auditTrail). localStorage is too small for a few years of statements and
+// would block the UI on every write. Each workspace (see workspaceService) has
+// a database of its own.
+
+import { HistoryEntry, Party, Transaction } from "../types/transaction";
+import type { PartyNameMapping } from "./googleSheetsService";
+import { DEFAULT_WORKSPACE_ID, WorkspaceService } from "./workspaceService";
+
+// Database of the default workspace; other workspaces add their ID to it
+const DB_NAME = "credit-reconciliation";
+// 1: transactions, outbox; 2: parties, party mappings, settings; 3: history, history outbox
+const DB_VERSION = 3;
+
+// localStorage keys used before the data moved to IndexedDB
+const LEGACY_KEYS = {
+  TRANSACTIONS: "credit_transactions",
+  PARTIES: "credit_parties",
+} as const;
+
+export const STORES = {
+  TRANSACTIONS: "transactions",
+  OUTBOX: "outbox",
+  PARTIES: "parties",
+  PARTY_MAPPINGS: "partyMappings",
+  SETTINGS: "settings",
+  HISTORY: "history",
+  HISTORY_OUTBOX: "historyOutbox",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/**
+ * A write waiting to be sent to the remote backend. There is at most one entry per
+ * transaction - a later edit replaces the queued snapshot.
+ */
+export interface OutboxEntry {
+  transactionId: string;
+  kind: "append" | "update";
+  /** Full transaction as it should appear in the sheet */
+  transaction: Transaction;
+  /** Bumped on every edit, to tell whether the entry changed while it was being sent */
+  revision: number;
+  /** The copy the queued edits were made from, to merge them if the row changed meanwhile */
+  base?: Transaction;
+  /** The stored row, when the update was refused because someone else changed it */
+  conflict?: Transaction;
+  attempts: number;
+  /** Epoch ms before which the entry is not retried */
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+interface SettingRecord {
+  key: string;
+  value: unknown;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("IndexedDB transaction aborted"));
+  });
+}
+
+function readLegacy<T>(key: string): T[] {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Copy what older versions kept in localStorage into the new stores.
+ * The localStorage keys are left in place, so nothing is lost if this fails.
+ */
+function migrateLegacyData(upgrade: IDBTransaction, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const transactions = readLegacy<Transaction>(LEGACY_KEYS.TRANSACTIONS).filter((t) => t && t.id);
+    const store = upgrade.objectStore(STORES.TRANSACTIONS);
+    transactions.forEach((t) => store.put(t));
+  }
+  if (oldVersion < 2) {
+    const parties = readLegacy<Party>(LEGACY_KEYS.PARTIES).filter((p) => p && p.id);
+    const store = upgrade.objectStore(STORES.PARTIES);
+    parties.forEach((p) => store.put(p));
+  }
+}
+
+function databaseName(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? DB_NAME : `${DB_NAME}-${workspaceId}`;
+}
+
+function openNamedDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.TRANSACTIONS)) {
+        db.createObjectStore(STORES.TRANSACTIONS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.OUTBOX)) {
+        db.createObjectStore(STORES.OUTBOX, { keyPath: "transactionId" });
+      }
+      if (!db.objectStoreNames.contains(STORES.PARTIES)) {
+        db.createObjectStore(STORES.PARTIES, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.PARTY_MAPPINGS)) {
+        db.createObjectStore(STORES.PARTY_MAPPINGS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
+        db.createObjectStore(STORES.SETTINGS, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(STORES.HISTORY)) {
+        db.createObjectStore(STORES.HISTORY, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.HISTORY_OUTBOX)) {
+        db.createObjectStore(STORES.HISTORY_OUTBOX, { keyPath: "id" });
+      }
+      // The localStorage data is from before there were workspaces
+      if (name === DB_NAME) {
+        migrateLegacyData(request.transaction!, event.oldVersion);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The active workspace's database, opened once and kept open
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openNamedDatabase(databaseName(WorkspaceService.getActiveWorkspace().id)).catch((error) => {
+      // Let the next call try again (e.g. after the user closes a tab blocking an upgrade)
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function getOne<T>(storeName: StoreName, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, "readonly").objectStore(storeName).get(key) as IDBRequest<T>);
+}
+
+async function getAll<T>(storeName: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, "readonly").objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+async function putAll<T>(storeName: StoreName, values: T[], clearFirst = false): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  if (clearFirst) store.clear();
+  values.forEach((value) => store.put(value));
+  await transactionDone(tx);
+}
+
+async function deleteKeys(storeName: StoreName, keys: string[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  keys.forEach((key) => store.delete(key));
+  await transactionDone(tx);
+}
+
+function deleteKey(storeName: StoreName, key: string): Promise<void> {
+  return deleteKeys(storeName, [key]);
+}
+
+export class LocalStore {
+  static isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  // Transactions
+  static getTransactions(): Promise<Transaction[]> {
+    return getAll<Transaction>(STORES.TRANSACTIONS);
+  }
+
+  /**
+   * Another workspace's working copy, as it was when that workspace was last open
+   */
+  static async getWorkspaceTransactions(workspaceId: string): Promise<Transaction[]> {
+    if (workspaceId === WorkspaceService.getActiveWorkspace().id) {
+      return this.getTransactions();
+    }
+    const db = await openNamedDatabase(databaseName(workspaceId));
+    try {
+      const store = db.transaction(STORES.TRANSACTIONS, "readonly").objectStore(STORES.TRANSACTIONS);
+      return await requestToPromise(store.getAll() as IDBRequest<Transaction[]>);
+    } finally {
+      db.close();
+    }
+  }
+
+  static getTransaction(id: string): Promise<Transaction | undefined> {
+    return getOne<Transaction>(STORES.TRANSACTIONS, id);
+  }
+
+  static putTransactions(transactions: Transaction[]): Promise<void> {
+    return putAll(STORES.TRANSACTIONS, transactions);
+  }
+
+  /**
+   * Replace the whole working copy (after a full refresh from the remote backend)
+   */
+  static replaceTransactions(transactions: Transaction[]): Promise<void> {
+    return putAll(STORES.TRANSACTIONS, transactions, true);
+  }
+
+  static deleteTransaction(id: string): Promise<void> {
+    return deleteKey(STORES.TRANSACTIONS, id);
+  }
+
+  // Parties
+  static getParties(): Promise<Party[]> {
+    return getAll<Party>(STORES.PARTIES);
+  }
+
+  static replaceParties(parties: Party[]): Promise<void> {
+    return putAll(STORES.PARTIES, parties, true);
+  }
+
+  // Party name mappings
+  static getPartyMappings(): Promise<PartyNameMapping[]> {
+    return getAll<PartyNameMapping>(STORES.PARTY_MAPPINGS);
+  }
+
+  static putPartyMappings(mappings: PartyNameMapping[]): Promise<void> {
+    return putAll(STORES.PARTY_MAPPINGS, mappings);
+  }
+
+  static deletePartyMapping(id: string): Promise<void> {
+    return deleteKey(STORES.PARTY_MAPPINGS, id);
+  }
+
+  // Settings
+  static async getSettings(): Promise<Record<string, unknown>> {
+    const records = await getAll<SettingRecord>(STORES.SETTINGS);
+    return Object.fromEntries(records.map((r) => [r.key, r.value]));
+  }
+
+  static putSetting(key: string, value: unknown): Promise<void> {
+    return putAll<SettingRecord>(STORES.SETTINGS, [{ key, value }]);
+  }
+
+  // Audit trail
+  static getHistory(): Promise<HistoryEntry[]> {
+    return getAll<HistoryEntry>(STORES.HISTORY);
+  }
+
+  static putHistory(entries: HistoryEntry[]): Promise<void> {
+    return putAll(STORES.HISTORY, entries);
+  }
+
+  static getHistoryOutbox(): Promise<HistoryEntry[]> {
+    return getAll<HistoryEntry>(STORES.HISTORY_OUTBOX);
+  }
+
+  static putHistoryOutbox(entries: HistoryEntry[]): Promise<void> {
+    return putAll(STORES.HISTORY_OUTBOX, entries);
+  }
+
+  static deleteHistoryOutboxEntries(ids: string[]): Promise<void> {
+    return deleteKeys(STORES.HISTORY_OUTBOX, ids);
+  }
+
+  // Outbox
+  static async getOutbox(): Promise<OutboxEntry[]> {
+    const entries = await getAll<OutboxEntry>(STORES.OUTBOX);
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  static putOutboxEntries(entries: OutboxEntry[]): Promise<void> {
+    return putAll(STORES.OUTBOX, entries);
+  }
+
+  static deleteOutboxEntry(transactionId: string): Promise<void> {
+    return deleteKey(STORES.OUTBOX, transactionId);
+  }
+}
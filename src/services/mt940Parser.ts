@@ -0,0 +1,175 @@
+import { ImportMode, StatementParseResult } from "./bankProfiles";
+import {
+  StructuredEntry,
+  StructuredStatement,
+  buildStructuredResult,
+  readFileAsText,
+  structuredProfile,
+} from "./structuredStatement";
+
+interface MT940Field {
+  tag: string;
+  value: string;
+}
+
+export class MT940Parser {
+  /**
+   * Parse a SWIFT MT940 customer statement (.sta / .mt940 / .940 / .txt).
+   * A file may hold several statement messages; their entries are combined,
+   * with the opening balance of the first and the closing balance of the last.
+   */
+  static async parseFile(file: File, mode: ImportMode = "deposits"): Promise<StatementParseResult> {
+    const text = await readFileAsText(file);
+    const statement = this.parse(text);
+    return buildStructuredResult(statement, structuredProfile("mt940", "MT940 statement"), mode);
+  }
+
+  /**
+   * Quick check used to route .txt files
+   */
+  static looksLikeMT940(text: string): boolean {
+    return /^:20:/m.test(text) && /^:61:/m.test(text);
+  }
+
+  static parse(text: string): StructuredStatement {
+    if (!this.looksLikeMT940(text)) {
+      throw new Error("Not an MT940 file: :20: and :61: fields not found");
+    }
+
+    const fields = this.splitFields(text);
+    const entries: StructuredEntry[] = [];
+    let openingBalance: number | undefined;
+    let closingBalance: number | undefined;
+    let accountNumber: string | undefined;
+    let lastEntry: StructuredEntry | null = null;
+
+    fields.forEach(({ tag, value }) => {
+      switch (tag) {
+        case "25":
+          accountNumber = accountNumber || value.trim();
+          break;
+        case "60F":
+        case "60M": {
+          const balance = this.parseBalance(value);
+          // Only the first opening balance counts when messages are combined
+          if (balance !== null && openingBalance === undefined) {
+            openingBalance = balance;
+          }
+          break;
+        }
+        case "62F":
+        case "62M": {
+          const balance = this.parseBalance(value);
+          if (balance !== null) {
+            closingBalance = balance;
+          }
+          break;
+        }
+        case "61": {
+          lastEntry = this.parseStatementLine(value);
+          if (lastEntry) {
+            entries.push(lastEntry);
+          } else {
+            console.warn("Skipping unreadable MT940 :61: line:", value);
+          }
+          break;
+        }
+        case "86":
+          // Information to account owner - the narration of the preceding :61:
+          if (lastEntry) {
+            lastEntry.narration = this.cleanNarration(value) || lastEntry.narration;
+            lastEntry = null;
+          }
+          break;
+      }
+    });
+
+    return { entries, openingBalance, closingBalance, accountNumber };
+  }
+
+  /**
+   * Split the message into :tag: fields; continuation lines belong to the previous field
+   */
+  static splitFields(text: string): MT940Field[] {
+    const fields: MT940Field[] = [];
+    text.split(/\r?\n/).forEach((line) => {
+      const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length > 0 && line.trim() !== "" && !/^-\}?$/.test(line.trim())) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    });
+    return fields;
+  }
+
+  /**
+   * :61: Value date (YYMMDD), optional entry date (MMDD), C/D/RC/RD mark,
+   * optional funds code, amount (comma decimal), transaction type, customer
+   * reference, optional //bank reference, optional supplementary details line
+   */
+  static parseStatementLine(value: string): StructuredEntry | null {
+    const [firstLine, ...rest] = value.split("\n");
+    const match = firstLine.match(
+      /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([A-Z][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/
+    );
+    if (!match) return null;
+
+    const [, yy, mm, dd, entryDate, mark, , amountStr, , customerRef, bankRef] = match;
+    const year = 2000 + parseInt(yy);
+    const valueDate = `${year}-${mm}-${dd}`;
+
+    let date = valueDate;
+    if (entryDate) {
+      const entryMonth = entryDate.substring(0, 2);
+      // Entry date in January for a December value date (or vice versa) crosses the year end
+      let entryYear = year;
+      if (entryMonth === "01" && mm === "12") entryYear = year + 1;
+      if (entryMonth === "12" && mm === "01") entryYear = year - 1;
+      date = `${entryYear}-${entryMonth}-${entryDate.substring(2, 4)}`;
+    }
+
+    const amount = parseFloat(amountStr.replace(",", "."));
+    // RC = reversal of credit (money out), RD = reversal of debit (money in)
+    const sign = mark === "C" || mark === "RD" ? 1 : -1;
+
+    const customerReference = customerRef.trim();
+    const reference =
+      customerReference && customerReference.toUpperCase() !== "NONREF"
+        ? customerReference
+        : (bankRef || "").trim();
+
+    return {
+      date,
+      valueDate,
+      amount: sign * amount,
+      narration: rest.join(" ").trim(),
+      reference: reference || undefined,
+    };
+  }
+
+  /**
+   * :60F: / :62F: balance - C/D mark, YYMMDD, currency, amount
+   */
+  static parseBalance(value: string): number | null {
+    const match = value.trim().match(/^([CD])\d{6}[A-Z]{3}(\d+,\d*)/);
+    if (!match) return null;
+    const amount = parseFloat(match[2].replace(",", "."));
+    return match[1] === "D" ? -amount : amount;
+  }
+
+  /**
+   * Join :86: lines and drop structured sub-field markers (?20, ?21, ...)
+   */
+  static cleanNarration(value: string): string {
+    // Structured :86: fields wrap mid-word, free text wraps between words
+    const structured = /\?\d{2}/.test(value);
+    return value
+      .replace(/\n/g, structured ? "" : " ")
+      // ?21-?29 and ?61-?63 continue the remittance text of ?20 / ?60
+      .replace(/\?(2[1-9]|6[1-3])/g, "")
+      .replace(/\?\d{2}/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
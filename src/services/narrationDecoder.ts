@@ -0,0 +1,207 @@
+// Narration decoder for Indian bank statements
+// Turns a narration such as
+//   "UPI-JOHN DOE-johndoe@okaxis-SBIN0001234-412345678901-PAYMENT"
+//   "NEFT CR-SBIN0002776-MERCURE MEDI SURGE-OUR NAME-SBINN52025110406690875"
+//   "CHQ DEP - HYDERABAD - CTS CLG2 - WBO HYD: ACME TRADERS :UNION BANK"
+//   "BY TRANSFER-NEFT*HDFC0000001*N093180234567891*RAMESH KUMAR"
+// into typed fields (channel, UTR/RRN, payer VPA, account, IFSC, name, bank,
+// cheque number). The narration is split into segments on "/", "-", ":" and "*" and
+// each segment is classified by shape, since banks order the same pieces
+// differently.
+
+import { NarrationChannel, Transaction } from "../types/transaction";
+
+export type NarrationDetails = Pick<
+  Transaction,
+  "channel" | "utr" | "payerVpa" | "payerAccount" | "payerIfsc" | "payerName" | "remitterBank" | "chequeNumber"
+>;
+
+export const NARRATION_FIELDS: (keyof NarrationDetails)[] = [
+  "channel",
+  "utr",
+  "payerVpa",
+  "payerAccount",
+  "payerIfsc",
+  "payerName",
+  "remitterBank",
+  "chequeNumber",
+];
+
+// IFSC / UTR prefixes of the banks seen most often in narrations
+const BANK_CODES: Record<string, string> = {
+  SBIN: "State Bank of India",
+  HDFC: "HDFC Bank",
+  ICIC: "ICICI Bank",
+  UTIB: "Axis Bank",
+  KKBK: "Kotak Mahindra Bank",
+  PUNB: "Punjab National Bank",
+  CNRB: "Canara Bank",
+  UBIN: "Union Bank of India",
+  BARB: "Bank of Baroda",
+  BKID: "Bank of India",
+  IDIB: "Indian Bank",
+  IOBA: "Indian Overseas Bank",
+  CBIN: "Central Bank of India",
+  MAHB: "Bank of Maharashtra",
+  UCBA: "UCO Bank",
+  YESB: "Yes Bank",
+  INDB: "IndusInd Bank",
+  IDFB: "IDFC First Bank",
+  FDRL: "Federal Bank",
+  KVBL: "Karur Vysya Bank",
+  TMBL: "Tamilnad Mercantile Bank",
+  CIUB: "City Union Bank",
+  AUBL: "AU Small Finance Bank",
+  PYTM: "Paytm Payments Bank",
+  AIRP: "Airtel Payments Bank",
+};
+
+const CHANNEL_PATTERNS: [NarrationChannel, RegExp][] = [
+  ["UPI", /\bUPI\b/i],
+  ["IMPS", /\b(IMPS|MMT)\b/i],
+  ["RTGS", /\bRTGS\b/i],
+  ["NEFT", /\bNEFT\b/i],
+  ["CHEQUE", /\b(CHQ|CHEQUE|CLG|CTS)\b/i],
+  ["CASH", /\b(CASH|CSH)\b/i],
+  ["TRANSFER", /\b(FT|TPT|IFT|TRANSFER|TRF)\b/i],
+];
+
+// Words that label a segment rather than name a payer
+const KEYWORDS = new Set([
+  "UPI", "NEFT", "RTGS", "IMPS", "MMT", "FT", "TPT", "IFT", "TRF", "TRANSFER", "CR", "DR", "CREDIT", "DEBIT",
+  "BY", "TO", "FROM", "INB", "IB", "MB", "NA", "ATTN", "REV", "P2A", "P2M", "PAY", "PAYMENT", "SENT", "RECEIVED",
+  "CHQ", "CHEQUE", "DEP", "DEPOSIT", "CLG", "CTS", "CLG2", "INWARD", "OUTWARD", "CASH", "CSH", "REF", "NO",
+  "UTR", "RRN", "TXN", "ID", "WBO", "HYD",
+]);
+
+const VPA_PATTERN = /\b([\w.]{2,}@[a-z][a-z0-9]{1,})\b/i;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const LABELLED_UTR_PATTERN = /\b(?:UTR|RRN)\s*(?:NO)?\.?\s*[:-]?\s*([A-Z0-9]{12,22})\b/i;
+const LABELLED_CHEQUE_PATTERN = /\b(?:CHQ|CHEQUE)\s*(?:NO)?\.?\s*[:-]?\s*(\d{6})\b/i;
+// NEFT/RTGS UTRs: bank code + N/R/H + digits (SBINN52025110406690875), or one
+// letter + digits as SBI shows them (N093180234567891)
+const BANK_UTR_PATTERN = /^(?:[A-Z]{4}[A-Z0-9]{1,2}\d{8,}|[A-Z]\d{9,})$/;
+// UPI and IMPS reference numbers (RRN) are 12 digits
+const RRN_PATTERN = /^\d{12}$/;
+const ACCOUNT_PATTERN = /^(?:[X*]{2,}\d{4,}|\d{9,18})$/i;
+const NAME_PATTERN = /^[A-Z][A-Z .&'()]*[A-Z.)]$/i;
+// Prose in front of a payer name, e.g. "Payment from RAMESH" or "TRF FROM RAMESH"
+const NAME_PREFIX_PATTERN =
+  /^(?:(?:payment|transfer|trf|received|recd|funds|money)\s+(?:from|frm)|by\s+(?:transfer|trf|clearing)|from|frm)\s+/i;
+// A lone "*" separates fields (SBI); runs of them mask account numbers
+const SEGMENT_SEPARATOR = /[/:]|\s+-\s+|-|(?<!\*)\*(?!\*)/;
+
+export function detectNarrationChannel(narration: string): NarrationChannel {
+  for (const [channel, pattern] of CHANNEL_PATTERNS) {
+    if (pattern.test(narration)) return channel;
+  }
+  return "OTHER";
+}
+
+export function bankNameFromCode(code: string): string | undefined {
+  return BANK_CODES[(code || "").substring(0, 4).toUpperCase()];
+}
+
+function isKeywordSegment(segment: string): boolean {
+  return segment.split(/\s+/).every((word) => KEYWORDS.has(word.toUpperCase()));
+}
+
+function isBankSegment(segment: string): boolean {
+  return /\bBANK\b/i.test(segment) || Boolean(BANK_CODES[segment.toUpperCase()]);
+}
+
+/**
+ * Decode a narration into typed payment fields. Only fields found in the
+ * narration are set; the payer name is only taken for known channels, since a
+ * free-text narration gives no way to tell the payer from anything else.
+ */
+export function decodeNarration(narration: string): NarrationDetails {
+  const text = (narration || "").trim();
+  const details: NarrationDetails = { channel: detectNarrationChannel(text) };
+  if (!text) return details;
+
+  const vpa = text.match(VPA_PATTERN);
+  if (vpa) details.payerVpa = vpa[1].toLowerCase();
+
+  const labelledUtr = text.match(LABELLED_UTR_PATTERN);
+  if (labelledUtr) details.utr = labelledUtr[1].toUpperCase();
+
+  if (details.channel === "CHEQUE") {
+    const cheque = text.match(LABELLED_CHEQUE_PATTERN);
+    if (cheque) details.chequeNumber = cheque[1];
+    // Cheque deposits put the drawer between colons, followed by the drawee bank
+    const drawer = text.match(/:\s*([A-Z][A-Z0-9 .&]+?)\s*:\s*([A-Z][A-Z .&]*)?/i);
+    if (drawer && !isBankSegment(drawer[1])) {
+      details.payerName = drawer[1].trim();
+      if (drawer[2] && drawer[2].trim().length > 2) details.remitterBank = drawer[2].trim();
+    }
+  }
+
+  const segments = text
+    .replace(/\bBY\s+TRANSFER\b/i, " ")
+    .split(SEGMENT_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  for (const segment of segments) {
+    const compact = segment.replace(/\s+/g, "").toUpperCase();
+
+    if (VPA_PATTERN.test(segment) || isKeywordSegment(segment)) continue;
+
+    if (IFSC_PATTERN.test(compact)) {
+      details.payerIfsc = details.payerIfsc || compact;
+      continue;
+    }
+    if (!details.utr && (details.channel === "UPI" || details.channel === "IMPS") && RRN_PATTERN.test(compact)) {
+      details.utr = compact;
+      continue;
+    }
+    if (!details.utr && (details.channel === "NEFT" || details.channel === "RTGS") && BANK_UTR_PATTERN.test(compact)) {
+      details.utr = compact;
+      continue;
+    }
+    if (details.channel === "CHEQUE" && !details.chequeNumber && /^\d{6}$/.test(compact)) {
+      details.chequeNumber = compact;
+      continue;
+    }
+    if (ACCOUNT_PATTERN.test(compact)) {
+      details.payerAccount = details.payerAccount || compact;
+      continue;
+    }
+    if (isBankSegment(segment)) {
+      details.remitterBank = details.remitterBank || bankNameFromCode(segment) || segment;
+      continue;
+    }
+    const name = segment.replace(NAME_PREFIX_PATTERN, "").trim();
+    if (
+      !details.payerName &&
+      details.channel !== "OTHER" &&
+      details.channel !== "CASH" &&
+      NAME_PATTERN.test(name) &&
+      name.replace(/[^A-Z]/gi, "").length >= 3 &&
+      !isKeywordSegment(name)
+    ) {
+      details.payerName = name.replace(/\s+/g, " ");
+    }
+  }
+
+  if (!details.remitterBank) {
+    const bankCode = details.payerIfsc || (details.utr && /^[A-Z]{4}/.test(details.utr) ? details.utr : "");
+    details.remitterBank = bankNameFromCode(bankCode);
+  }
+
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined && value !== "")
+  ) as NarrationDetails;
+}
+
+/**
+ * The decoded fields stored on a transaction, or decoded from its narration
+ * for transactions saved before the fields existed
+ */
+export function narrationDetailsOf(transaction: Transaction): NarrationDetails {
+  if (transaction.channel) {
+    return Object.fromEntries(NARRATION_FIELDS.map((field) => [field, transaction[field]])) as NarrationDetails;
+  }
+  return decodeNarration(transaction.description);
+}
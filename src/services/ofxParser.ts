@@ -0,0 +1,102 @@
+import { ImportMode, StatementParseResult } from "./bankProfiles";
+import {
+  StructuredEntry,
+  StructuredStatement,
+  buildStructuredResult,
+  readFileAsText,
+  structuredProfile,
+} from "./structuredStatement";
+
+export class OFXParser {
+  /**
+   * Parse an OFX/QFX bank statement download.
+   * Handles both OFX 1.x (SGML, leaf tags not closed) and OFX 2.x (XML).
+   */
+  static async parseFile(file: File, mode: ImportMode = "deposits"): Promise<StatementParseResult> {
+    const text = await readFileAsText(file);
+    const statement = this.parse(text);
+    return buildStructuredResult(statement, structuredProfile("ofx", "OFX/QFX statement"), mode);
+  }
+
+  static parse(text: string): StructuredStatement {
+    if (!/<OFX>/i.test(text)) {
+      throw new Error("Not an OFX file: <OFX> element not found");
+    }
+
+    const entries: StructuredEntry[] = [];
+    const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+    blocks.forEach((block) => {
+      const date = this.parseDate(this.getField(block, "DTPOSTED"));
+      const amount = this.parseAmount(this.getField(block, "TRNAMT"));
+      if (!date || amount === null) {
+        console.warn("Skipping OFX transaction without date or amount:", block);
+        return;
+      }
+
+      const name = this.getField(block, "NAME");
+      const memo = this.getField(block, "MEMO");
+      // NAME is truncated to 32 characters by most banks - MEMO carries the rest
+      const narration = memo && memo !== name ? `${name} ${memo}`.trim() : name || memo;
+
+      entries.push({
+        date,
+        valueDate: this.parseDate(this.getField(block, "DTAVAIL")) || undefined,
+        amount,
+        narration,
+        reference:
+          this.getField(block, "REFNUM") ||
+          this.getField(block, "CHECKNUM") ||
+          this.getField(block, "FITID") ||
+          undefined,
+      });
+    });
+
+    const ledgerBalance = text.match(/<LEDGERBAL>[\s\S]*?(?:<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i);
+    const closingBalance = ledgerBalance ? this.parseAmount(this.getField(ledgerBalance[0], "BALAMT")) : null;
+
+    const accountNumber = this.getField(text, "ACCTID");
+
+    // Entries are usually newest-first or unsorted - put them in booking order
+    entries.sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      entries,
+      closingBalance: closingBalance ?? undefined,
+      accountNumber: accountNumber || undefined,
+    };
+  }
+
+  /**
+   * Value of a leaf element: <TAG>value (SGML) or <TAG>value</TAG> (XML)
+   */
+  static getField(block: string, tag: string): string {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+    return match ? this.decodeEntities(match[1].trim()) : "";
+  }
+
+  /**
+   * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]] - only the calendar date is kept
+   */
+  static parseDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  }
+
+  static parseAmount(value: string): number | null {
+    if (!value) return null;
+    // Some European exports use a comma as decimal separator
+    const normalised = value.includes(",") && !value.includes(".") ? value.replace(",", ".") : value.replace(/,/g, "");
+    const parsed = parseFloat(normalised);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+}
@@ -0,0 +1,48 @@
+import { workspaceKey } from "./workspaceService";
+
+const OWN_ACCOUNTS_KEY = "own_accounts";
+const PAIR_WINDOW_KEY = "self_transfer_pair_window_days";
+const DEFAULT_PAIR_WINDOW_DAYS = 2;
+
+/**
+ * One of our own bank accounts or UPI IDs. Money arriving from one of these is
+ * a self transfer, not a payment to record in Vyapar.
+ */
+export interface OwnAccount {
+  id: string;
+  label: string;
+  /** Full or masked account number (at least the last four digits) */
+  accountNumber?: string;
+  vpa?: string;
+}
+
+export class OwnAccountService {
+  static getOwnAccounts(): OwnAccount[] {
+    const data = localStorage.getItem(workspaceKey(OWN_ACCOUNTS_KEY));
+    return data ? JSON.parse(data) : [];
+  }
+
+  static saveOwnAccounts(accounts: OwnAccount[]): void {
+    localStorage.setItem(workspaceKey(OWN_ACCOUNTS_KEY), JSON.stringify(accounts));
+  }
+
+  static addOwnAccount(account: OwnAccount): void {
+    this.saveOwnAccounts([...this.getOwnAccounts(), account]);
+  }
+
+  static deleteOwnAccount(id: string): void {
+    this.saveOwnAccounts(this.getOwnAccounts().filter((a) => a.id !== id));
+  }
+
+  /**
+   * How many days apart a withdrawal and a deposit may be and still be offered as a transfer pair
+   */
+  static getPairWindowDays(): number {
+    const days = parseInt(localStorage.getItem(workspaceKey(PAIR_WINDOW_KEY)) || "", 10);
+    return isNaN(days) || days < 0 ? DEFAULT_PAIR_WINDOW_DAYS : days;
+  }
+
+  static setPairWindowDays(days: number): void {
+    localStorage.setItem(workspaceKey(PAIR_WINDOW_KEY), String(days));
+  }
+}
@@ -0,0 +1,38 @@
+// Progress of a statement parse, reported while large files are read and
+// mapped (statement parsing runs in a Web Worker - see statementParserClient)
+
+// Report progress every this many rows
+const PROGRESS_INTERVAL = 500;
+
+export interface ParseProgress {
+  stage: "reading" | "parsing";
+  /** Rows read from the file (reading) or mapped to transactions so far (parsing) */
+  rowsRead: number;
+  /** Rows to map, once known */
+  totalRows?: number;
+  /** Transactions kept so far for the import mode */
+  transactionsFound: number;
+}
+
+export type ParseProgressCallback = (progress: ParseProgress) => void;
+
+/**
+ * Report parsing progress after row `index`, every PROGRESS_INTERVAL rows and on the last row
+ */
+export function reportParseProgress(
+  onProgress: ParseProgressCallback | undefined,
+  index: number,
+  totalRows: number,
+  transactionsFound: number
+): void {
+  if (!onProgress) return;
+  if ((index + 1) % PROGRESS_INTERVAL !== 0 && index !== totalRows - 1) return;
+  onProgress({ stage: "parsing", rowsRead: index + 1, totalRows, transactionsFound });
+}
+
+/**
+ * Whether a reading-stage update is due after `rowsRead` rows
+ */
+export function isProgressDue(rowsRead: number): boolean {
+  return rowsRead % PROGRESS_INTERVAL === 0;
+}
@@ -0,0 +1,92 @@
+// Party balances
+// A party's balance, totals and last transaction date are worked out from the
+// transactions in the local working copy rather than adjusted one save at a
+// time, so edits, a transaction moving to another party and self-transfer
+// marking are always reflected. Self transfers move money between our own
+// accounts and count for no party. The result is cached until a transaction or
+// the party list changes.
+
+import { Party, Transaction } from "../types/transaction";
+import { compareCalendarDates } from "../lib/calendarDate";
+import { getLocalBackend } from "./storageBackends";
+
+// Writes in this tab clear the cache; this picks up those made in another tab
+const CACHE_DURATION = 60000; // 1 minute
+
+let cache: Promise<Party[]> | null = null;
+let cacheTime = 0;
+
+function partyKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * The stored parties with their balances worked out from the transactions, plus
+ * a party for every name transactions use that isn't in the list
+ */
+export function derivePartyBalances(transactions: Transaction[], storedParties: Party[]): Party[] {
+  const parties = new Map<string, Party>();
+  storedParties.forEach((party) => {
+    const key = partyKey(party.name);
+    if (!key || parties.has(key)) return;
+    parties.set(key, { ...party, balance: 0, totalCredits: 0, totalDebits: 0, lastTransactionDate: undefined });
+  });
+  const listed = new Set(parties.keys());
+
+  transactions.forEach((t) => {
+    if (t.selfTransfer || !t.partyName?.trim()) return;
+    const key = partyKey(t.partyName);
+    let party = parties.get(key);
+    if (!party) {
+      party = {
+        id: `party_${key.replace(/\s/g, "_")}`,
+        name: t.partyName.trim(),
+        type: "customer",
+        balance: 0,
+        totalCredits: 0,
+        totalDebits: 0,
+      };
+      parties.set(key, party);
+    }
+    if (t.type === "debit") {
+      party.totalDebits += t.amount;
+    } else {
+      party.totalCredits += t.amount;
+    }
+    if (!party.lastTransactionDate || compareCalendarDates(t.date, party.lastTransactionDate) > 0) {
+      party.lastTransactionDate = t.date;
+    }
+  });
+
+  return Array.from(parties.entries()).map(([key, party]) => ({
+    ...party,
+    balance: party.totalCredits - party.totalDebits,
+    // A party only known from transactions is a supplier if we mostly pay it
+    type: listed.has(key) ? party.type : party.totalDebits > party.totalCredits ? "supplier" : "customer",
+  }));
+}
+
+export class PartyLedger {
+  static getParties(): Promise<Party[]> {
+    if (!cache || Date.now() - cacheTime > CACHE_DURATION) {
+      const backend = getLocalBackend();
+      const loading = Promise.all([backend.getTransactions(), backend.getParties()]).then(
+        ([transactions, parties]) => derivePartyBalances(transactions, parties)
+      );
+      // Try again on the next call rather than keep the error
+      loading.catch(() => {
+        if (cache === loading) cache = null;
+      });
+      cache = loading;
+      cacheTime = Date.now();
+    }
+    return cache;
+  }
+
+  /**
+   * Work the balances out again on the next call, after transactions or the party list changed
+   */
+  static invalidate(): void {
+    cache = null;
+  }
+}
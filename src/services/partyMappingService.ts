@@ -1,30 +1,39 @@
-// Import Google Sheets functions and interface
-import { 
-  fetchPartyMappingsFromSheets, 
-  savePartyMappingToSheets, 
-  updatePartyMappingInSheets,
-  isGoogleSheetsConfigured,
-  PartyNameMapping,
-  fetchPartiesFromSheets,
-  findMatchingParties
-} from './googleSheetsService';
+// Import Google Sheets helpers and interface
+import { PartyNameMapping, findMatchingParties } from './googleSheetsService';
+import { decodeNarration } from './narrationDecoder';
+import { StorageBackend } from './storageBackend';
+import { getLocalBackend, getRemoteBackend } from './storageBackends';
+import { WorkspaceService, workspaceKey } from './workspaceService';
 
 // Re-export for backward compatibility
 export type { PartyNameMapping };
 
-// Cache for party mappings (loaded from Google Sheets)
+// Cache for party mappings (loaded from the storage backend)
 let mappingsCache: PartyNameMapping[] = [];
 let mappingsCacheTime: number = 0;
 const CACHE_DURATION = 60000; // 1 minute cache
 
-// Cache for parties list (loaded from Google Sheets)
+// Cache for parties list (loaded from the storage backend)
 let partiesCache: string[] = [];
 let partiesCacheTime: number = 0;
 const PARTIES_CACHE_DURATION = 300000; // 5 minutes cache (parties list changes less frequently)
 
+// Mappings shared from another workspace, kept in this browser until the
+// workspace they were shared with is next opened. Mappings are per company and
+// only reach another one this way.
+const SHARED_MAPPINGS_KEY = 'shared_party_mappings';
+
+/**
+ * Mappings and the party list live in the remote backend (Google Sheets or the
+ * file server) when there is one, otherwise in this browser
+ */
+function mappingBackend(): StorageBackend {
+  return getRemoteBackend() ?? getLocalBackend();
+}
+
 export class PartyMappingService {
   /**
-   * Get all party name mappings from Google Sheets
+   * Get all party name mappings from the storage backend
    */
   static async getMappings(): Promise<PartyNameMapping[]> {
     // Use cache if available and fresh
@@ -33,32 +42,14 @@ export class PartyMappingService {
       return mappingsCache;
     }
 
-    if (isGoogleSheetsConfigured()) {
-      try {
-        mappingsCache = await fetchPartyMappingsFromSheets();
-        mappingsCacheTime = now;
-        return mappingsCache;
-      } catch (error) {
-        console.error('Error fetching party mappings from Google Sheets:', error);
-        return mappingsCache; // Return cached data on error
-      }
-    }
-    
-    return [];
-  }
-
-  /**
-   * Save all mappings (saves to Google Sheets)
-   */
-  static async saveMappings(mappings: PartyNameMapping[]): Promise<void> {
-    mappingsCache = mappings;
-    mappingsCacheTime = Date.now();
-    
-    if (isGoogleSheetsConfigured()) {
-      // Save each mapping to Google Sheets
-      for (const mapping of mappings) {
-        await savePartyMappingToSheets(mapping);
-      }
+    try {
+      await this.importSharedMappings();
+      mappingsCache = await mappingBackend().getPartyMappings();
+      mappingsCacheTime = now;
+      return mappingsCache;
+    } catch (error) {
+      console.error('Error fetching party mappings:', error);
+      return mappingsCache; // Return cached data on error
     }
   }
 
@@ -76,7 +67,7 @@ export class PartyMappingService {
   }
 
   /**
-   * Get all parties from Google Sheets (cached)
+   * Get all party names from the storage backend (cached)
    */
   static async getParties(): Promise<string[]> {
     const now = Date.now();
@@ -84,18 +75,15 @@ export class PartyMappingService {
       return partiesCache;
     }
 
-    if (isGoogleSheetsConfigured()) {
-      try {
-        partiesCache = await fetchPartiesFromSheets();
-        partiesCacheTime = now;
-        return partiesCache;
-      } catch (error) {
-        console.error('Error fetching parties from Google Sheets:', error);
-        return partiesCache; // Return cached data on error
-      }
+    try {
+      const parties = await mappingBackend().getParties();
+      partiesCache = parties.map((p) => p.name.trim()).filter((name) => name.length > 0);
+      partiesCacheTime = now;
+      return partiesCache;
+    } catch (error) {
+      console.error('Error fetching parties:', error);
+      return partiesCache; // Return cached data on error
     }
-    
-    return [];
   }
 
   /**
@@ -177,6 +165,22 @@ export class PartyMappingService {
     return null;
   }
 
+  /**
+   * Suggested party for a narration from the fields the narration decoder finds:
+   * the payer's VPA and account number first (exact identifiers), then the payer name
+   */
+  static async getSuggestedNameFromNarration(narration: string): Promise<string | null> {
+    const { payerVpa, payerAccount, payerName } = decodeNarration(narration);
+    for (const key of [payerVpa, payerAccount, payerName]) {
+      if (!key) continue;
+      const suggested = await this.getSuggestedName(key);
+      if (suggested && suggested.trim().length > 0) {
+        return suggested;
+      }
+    }
+    return null;
+  }
+
   /**
    * Learn a new mapping or update existing one (async)
    * When user edits party name from "vamshi" to "krishna", this is called
@@ -208,8 +212,7 @@ export class PartyMappingService {
           confidence: Math.min(existing.confidence + 1, 10), // Cap at 10
           lastUsed: now,
         };
-        // Update in Google Sheets
-        await updatePartyMappingInSheets(mappings[existingIndex]);
+        await mappingBackend().updatePartyMapping(mappings[existingIndex]);
       } else {
         // Same correction, just update confidence and last used
         mappings[existingIndex] = {
@@ -217,8 +220,7 @@ export class PartyMappingService {
           confidence: Math.min(existing.confidence + 1, 10),
           lastUsed: now,
         };
-        // Update in Google Sheets
-        await updatePartyMappingInSheets(mappings[existingIndex]);
+        await mappingBackend().updatePartyMapping(mappings[existingIndex]);
       }
     } else {
       // Create new mapping
@@ -231,14 +233,13 @@ export class PartyMappingService {
         createdAt: now,
       };
       mappings.push(newMapping);
-      // Save to Google Sheets
-      await savePartyMappingToSheets(newMapping);
+      await mappingBackend().addPartyMapping(newMapping);
     }
 
     // Update cache and invalidate to force refresh on next getMappings call
     // This ensures new mappings are immediately available for suggestions
     mappingsCache = mappings;
-    mappingsCacheTime = 0; // Invalidate cache so next call fetches fresh data from Google Sheets
+    mappingsCacheTime = 0; // Invalidate cache so next call fetches fresh data from the backend
     
     // Invalidate cache to force refresh on next getMappings call
     // This ensures new mappings are immediately available
@@ -258,10 +259,9 @@ export class PartyMappingService {
    */
   static async deleteMapping(id: string): Promise<void> {
     const mappings = await this.getMappings();
-    const filtered = mappings.filter((m) => m.id !== id);
-    mappingsCache = filtered;
+    await mappingBackend().deletePartyMapping(id);
+    mappingsCache = mappings.filter((m) => m.id !== id);
     mappingsCacheTime = Date.now();
-    await this.saveMappings(filtered);
   }
 
   /**
@@ -274,15 +274,82 @@ export class PartyMappingService {
     const mappings = await this.getMappings();
     const index = mappings.findIndex((m) => m.id === id);
     if (index >= 0) {
-      mappings[index] = {
+      const updated = {
         ...mappings[index],
         ...updates,
         lastUsed: new Date().toISOString(),
       };
+      // Only change the cache once the backend has the update
+      await mappingBackend().updatePartyMapping(updated);
+      mappings[index] = updated;
       mappingsCache = mappings;
       mappingsCacheTime = Date.now();
-      await updatePartyMappingInSheets(mappings[index]);
-      await this.saveMappings(mappings);
+    }
+  }
+
+  /**
+   * Bring mappings back from a backup: add the missing ones, overwrite the
+   * changed ones and delete the ones the backup doesn't have
+   */
+  static async restoreMappings(
+    added: PartyNameMapping[],
+    changed: PartyNameMapping[],
+    removedIds: string[]
+  ): Promise<void> {
+    const backend = mappingBackend();
+    for (const mapping of added) {
+      await backend.addPartyMapping(mapping);
+    }
+    for (const mapping of changed) {
+      await backend.updatePartyMapping(mapping);
+    }
+    for (const id of removedIds) {
+      await backend.deletePartyMapping(id);
+    }
+    // Fetch fresh from the backend on next use
+    mappingsCacheTime = 0;
+  }
+
+  /**
+   * Share mappings with another workspace. They are added to it the next time
+   * it is opened, except for names it already has a mapping for.
+   */
+  static shareMappings(mappings: PartyNameMapping[], workspaceId: string): void {
+    const key = workspaceKey(SHARED_MAPPINGS_KEY, workspaceId);
+    const waiting: PartyNameMapping[] = JSON.parse(localStorage.getItem(key) || '[]');
+    localStorage.setItem(key, JSON.stringify([...waiting, ...mappings]));
+  }
+
+  /**
+   * Add the mappings other workspaces shared with this one
+   */
+  private static async importSharedMappings(): Promise<void> {
+    const key = workspaceKey(SHARED_MAPPINGS_KEY);
+    const data = localStorage.getItem(key);
+    if (!data) return;
+    // Taken off the list first, so a second load running alongside doesn't add them again
+    localStorage.removeItem(key);
+
+    const backend = mappingBackend();
+    const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+    const known = new Set((await backend.getPartyMappings()).map((m) => normalize(m.originalName)));
+    const shared: PartyNameMapping[] = JSON.parse(data);
+    const now = new Date().toISOString();
+    for (const [index, mapping] of shared.entries()) {
+      if (known.has(normalize(mapping.originalName))) continue;
+      try {
+        await backend.addPartyMapping({
+          ...mapping,
+          id: `mapping_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          lastUsed: now,
+          createdAt: now,
+        });
+        known.add(normalize(mapping.originalName));
+      } catch (error) {
+        // Keep the rest for the next load
+        this.shareMappings(shared.slice(index), WorkspaceService.getActiveWorkspace().id);
+        throw error;
+      }
     }
   }
 
@@ -325,51 +392,16 @@ export class PartyMappingService {
     // Extract potential party names from narration
     const extractedPatterns: string[] = [];
 
-    // Method 1: Extract from colons (CHQ DEP patterns like "CHQ DEP - HYDERABAD - CTS CLG2 - WBO HYD: COMPANY NAME :BANK")
-    const colonPattern = desc.match(/:\s*([A-Z][A-Z\s\w&]+?)\s*:/i);
-    if (colonPattern && colonPattern[1]) {
-      const extracted = colonPattern[1].trim().toLowerCase();
-      // Filter out common bank names and locations
-      const excludeWords = ['union bank', 'state bank', 'canara bank', 'punjab national', 'hyderabad', 'wbo', 'cts', 'clg'];
-      const shouldExclude = excludeWords.some(word => extracted.includes(word));
-      if (!shouldExclude && extracted.length > 3 && extracted.length < 100) {
-        extractedPatterns.push(extracted);
-      }
-    }
-
-    // Method 2: Extract from NEFT/IMPS patterns (NEFT CR-XXXX-COMPANY NAME-XXXX)
-    // Pattern: NEFT CR-XXXX-COMPANY NAME-XXXX or NEFT CR-XXXX-COMPANY NAME-ACCOUNT
-    const neftPattern1 = desc.match(/(?:NEFT|IMPS|RTGS)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w&]+?)[\s\-]+(?:[A-Z]{4,}|[A-Z]{2,4}\d{6,}|SRI\s+RAJA|SRI\s+RAJESHWARI)/i);
-    if (neftPattern1 && neftPattern1[1]) {
-      const extracted = neftPattern1[1].trim().toLowerCase();
-      if (extracted.length > 3 && extracted.length < 100 && !extracted.includes('sri raja')) {
-        extractedPatterns.push(extracted);
+    // Method 1: Payer identifiers and name decoded from the narration
+    // The VPA and account number identify the payer exactly, so they are learned as-is
+    const { payerVpa, payerAccount, payerName } = decodeNarration(desc);
+    [payerVpa, payerAccount, payerName?.toLowerCase()].forEach((value) => {
+      if (value && value.length > 3 && value.length < 100 && !extractedPatterns.includes(value)) {
+        extractedPatterns.push(value);
       }
-    }
-
-    // Method 3: Extract between transaction codes and account numbers (enhanced patterns)
-    const patterns = [
-      // NEFT CR-XXXX-COMPANY NAME-SRI RAJA... or NEFT CR-XXXX-COMPANY NAME-ACCOUNT
-      /(?:NEFT|IMPS|RTGS)\s*(?:CR|DR)?[\s\-]+[A-Z0-9]+[\s\-]+([A-Z][A-Z\s\w&]+?)[\s\-]+(?:SRI\s+RAJA|SRI\s+RAJESHWARI|[A-Z]{2,4}\d{6,})/i,
-      // CHQ DEP patterns with company name before bank name
-      /CHQ\s+DEP[^:]*:\s*([A-Z][A-Z\s\w&]+?)\s*:[A-Z\s]+BANK/i,
-      // UPI patterns
-      /(?:UPI|NEFT|IMPS)[\s\-]+[\d\-@]+[\s\-]+([A-Z][A-Z\s\w&]+?)[\s\-]+(?:[A-Z0-9@]+|\d+)/i,
-      // Generic pattern for transactions with company names
-      /(?:NEFT|IMPS|RTGS|UPI|FT|CHQ)\s*(?:CR|DR)?[\s\-]+\d+[\s\-]+([A-Z][A-Z\s\w&]+?)(?:\s*-\s*\d+|\s*$)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = desc.match(pattern);
-      if (match && match[1]) {
-        const extracted = match[1].trim().toLowerCase();
-        if (extracted.length > 3 && extracted.length < 100 && !extractedPatterns.includes(extracted)) {
-          extractedPatterns.push(extracted);
-        }
-      }
-    }
+    });
 
-    // Method 3: Extract meaningful parts
+    // Method 2: Extract meaningful parts
     const parts = desc
       .split(/[\s\-:]+/)
       .filter(p => p.length > 2)
@@ -390,7 +422,7 @@ export class PartyMappingService {
       }
     }
 
-    // Method 4: Clean full description
+    // Method 3: Clean full description
     let cleanedDesc = desc
       .replace(/REF\s*NO[:\-]?\s*[A-Z0-9]+/gi, " ")
       .replace(/TXN\s*ID[:\-]?\s*[A-Z0-9]+/gi, " ")
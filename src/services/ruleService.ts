@@ -0,0 +1,194 @@
+import { NarrationChannel, Transaction, TransactionCategory, TransactionType } from "../types/transaction";
+import { narrationDetailsOf } from "./narrationDecoder";
+import { workspaceKey } from "./workspaceService";
+
+const RULES_KEY = "categorisation_rules";
+
+export interface RuleConditions {
+  type?: TransactionType;
+  /** Regular expression tested against the narration (case-insensitive) */
+  narrationPattern?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  channel?: NarrationChannel;
+  /** Masked bank account, e.g. "XXXX1234" */
+  bankAccount?: string;
+  /** Regular expression tested against the bank reference number (case-insensitive) */
+  referencePattern?: string;
+}
+
+export interface RuleActions {
+  category?: TransactionCategory;
+  partyName?: string;
+  hold?: boolean;
+  selfTransfer?: boolean;
+  notes?: string;
+}
+
+export interface CategorisationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RuleRunResult {
+  transactions: Transaction[];
+  /** Transactions a rule changed, with the fields it set */
+  changes: { transaction: Transaction; updates: Partial<Transaction> }[];
+}
+
+function testPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, "i").test(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * User-defined categorisation and routing rules.
+ * Rules are stored locally in priority order; the first enabled rule whose
+ * conditions all hold is applied to a transaction and recorded on it.
+ */
+export class RuleService {
+  static getRules(): CategorisationRule[] {
+    const data = localStorage.getItem(workspaceKey(RULES_KEY));
+    return data ? JSON.parse(data) : [];
+  }
+
+  static saveRules(rules: CategorisationRule[]): void {
+    localStorage.setItem(workspaceKey(RULES_KEY), JSON.stringify(rules));
+  }
+
+  /**
+   * Add a rule (at the lowest priority) or replace the rule with the same id
+   */
+  static saveRule(rule: CategorisationRule): void {
+    const rules = this.getRules();
+    const index = rules.findIndex((r) => r.id === rule.id);
+    if (index >= 0) {
+      rules[index] = rule;
+    } else {
+      rules.push(rule);
+    }
+    this.saveRules(rules);
+  }
+
+  static deleteRule(id: string): void {
+    this.saveRules(this.getRules().filter((r) => r.id !== id));
+  }
+
+  /**
+   * Move a rule up (-1) or down (+1) in priority
+   */
+  static moveRule(id: string, direction: -1 | 1): void {
+    const rules = this.getRules();
+    const index = rules.findIndex((r) => r.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= rules.length) return;
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.saveRules(rules);
+  }
+
+  /**
+   * Problems that would stop a rule from ever matching (empty list if it is valid)
+   */
+  static validateRule(rule: Pick<CategorisationRule, "name" | "conditions" | "actions">): string[] {
+    const errors: string[] = [];
+    const { conditions, actions } = rule;
+    if (!rule.name.trim()) errors.push("Give the rule a name");
+
+    for (const [label, pattern] of [
+      ["Narration", conditions.narrationPattern],
+      ["Reference", conditions.referencePattern],
+    ]) {
+      if (!pattern) continue;
+      try {
+        new RegExp(pattern);
+      } catch {
+        errors.push(`${label} pattern is not a valid regular expression`);
+      }
+    }
+
+    if (
+      conditions.minAmount !== undefined &&
+      conditions.maxAmount !== undefined &&
+      conditions.minAmount > conditions.maxAmount
+    ) {
+      errors.push("Minimum amount is greater than the maximum amount");
+    }
+    if (!this.hasConditions(conditions)) errors.push("Add at least one condition");
+    if (Object.values(actions).every((value) => value === undefined || value === "" || value === false)) {
+      errors.push("Add at least one action");
+    }
+    return errors;
+  }
+
+  static hasConditions(conditions: RuleConditions): boolean {
+    return Object.entries(conditions).some(([key, value]) => key !== "type" && value !== undefined && value !== "");
+  }
+
+  static matches(rule: CategorisationRule, transaction: Transaction): boolean {
+    const { conditions } = rule;
+    // A rule with only a type would categorise every transaction of that type
+    if (!rule.enabled || !this.hasConditions(conditions)) return false;
+
+    if (conditions.type && (transaction.type || "credit") !== conditions.type) return false;
+    if (conditions.minAmount !== undefined && transaction.amount < conditions.minAmount) return false;
+    if (conditions.maxAmount !== undefined && transaction.amount > conditions.maxAmount) return false;
+    if (conditions.bankAccount && transaction.bankAccount !== conditions.bankAccount) return false;
+    if (conditions.channel && narrationDetailsOf(transaction).channel !== conditions.channel) return false;
+    if (conditions.narrationPattern && !testPattern(conditions.narrationPattern, transaction.description || "")) {
+      return false;
+    }
+    if (
+      conditions.referencePattern &&
+      !testPattern(conditions.referencePattern, String(transaction.referenceNumber ?? ""))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  static findMatchingRule(transaction: Transaction, rules: CategorisationRule[]): CategorisationRule | undefined {
+    return rules.find((rule) => this.matches(rule, transaction));
+  }
+
+  /**
+   * Fields a rule sets on a transaction. A party name or note already on the
+   * transaction is kept, so re-running rules never overwrites what was typed in.
+   */
+  static ruleUpdates(rule: CategorisationRule, transaction: Transaction): Partial<Transaction> {
+    const { actions } = rule;
+    const updates: Partial<Transaction> = { ruleId: rule.id };
+    if (actions.category) updates.category = actions.category;
+    if (actions.partyName && !transaction.partyName?.trim()) updates.partyName = actions.partyName;
+    if (actions.hold) updates.hold = true;
+    if (actions.selfTransfer) updates.selfTransfer = true;
+    if (actions.notes && !transaction.notes?.trim()) updates.notes = actions.notes;
+    return updates;
+  }
+
+  /**
+   * Run the rules over transactions in priority order (first match wins)
+   */
+  static applyRules(transactions: Transaction[], rules: CategorisationRule[] = this.getRules()): RuleRunResult {
+    const changes: RuleRunResult["changes"] = [];
+    const result = transactions.map((transaction) => {
+      const rule = this.findMatchingRule(transaction, rules);
+      if (!rule) return transaction;
+
+      const updates = this.ruleUpdates(rule, transaction);
+      const changed = (Object.keys(updates) as (keyof Transaction)[]).some((key) => transaction[key] !== updates[key]);
+      if (!changed) return transaction;
+
+      changes.push({ transaction, updates });
+      return { ...transaction, ...updates };
+    });
+    return { transactions: result, changes };
+  }
+}
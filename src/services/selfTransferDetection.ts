@@ -0,0 +1,132 @@
+// Self-transfer detection between our own accounts
+// A deposit whose narration names one of our own accounts or UPI IDs is money
+// we moved ourselves, so it never belongs in the Vyapar queue. When withdrawals
+// are imported too, a withdrawal from one account and a deposit of the same
+// amount into another a few days later are offered as a linked transfer pair.
+
+import { Transaction } from "../types/transaction";
+import { daysBetween, toCalendarDate } from "../lib/calendarDate";
+import { narrationDetailsOf } from "./narrationDecoder";
+import { maskAccountNumber } from "./statementAccount";
+import { OwnAccount } from "./ownAccountService";
+
+// Account numbers shorter than this are masked or partial, so only their tail can be compared
+const FULL_ACCOUNT_DIGITS = 9;
+
+export interface TransferPair {
+  debit: Transaction;
+  credit: Transaction;
+  /** Days between the withdrawal and the deposit */
+  days: number;
+}
+
+function digitsOf(value?: string): string {
+  return String(value ?? "").replace(/\D/g, "");
+}
+
+/**
+ * Full numbers must be equal; a masked or partial number matches on its last digits
+ */
+function accountNumbersMatch(a: string, b: string): boolean {
+  const digitsA = digitsOf(a);
+  const digitsB = digitsOf(b);
+  if (digitsA.length < 4 || digitsB.length < 4) return false;
+  if (digitsA.length >= FULL_ACCOUNT_DIGITS && digitsB.length >= FULL_ACCOUNT_DIGITS && !/[X*]/i.test(a + b)) {
+    return digitsA === digitsB;
+  }
+  const [shorter, longer] = digitsA.length <= digitsB.length ? [digitsA, digitsB] : [digitsB, digitsA];
+  return longer.endsWith(shorter);
+}
+
+/**
+ * The own account a transaction's narration identifies as the other side, if any.
+ * The account the statement belongs to is skipped, since narrations often repeat it.
+ */
+export function findOwnAccount(transaction: Transaction, accounts: OwnAccount[]): OwnAccount | undefined {
+  const details = narrationDetailsOf(transaction);
+  const narration = transaction.description || "";
+  const narrationDigits = narration.replace(/[\s-]/g, "");
+
+  return accounts.find((account) => {
+    if (account.accountNumber) {
+      const masked = maskAccountNumber(account.accountNumber);
+      const isStatementAccount = Boolean(masked && masked === transaction.bankAccount);
+      if (!isStatementAccount) {
+        if (details.payerAccount && accountNumbersMatch(details.payerAccount, account.accountNumber)) return true;
+        const fullNumber = digitsOf(account.accountNumber);
+        if (fullNumber.length >= FULL_ACCOUNT_DIGITS && narrationDigits.includes(fullNumber)) return true;
+      }
+    }
+    if (account.vpa) {
+      const vpa = account.vpa.trim().toLowerCase();
+      if (details.payerVpa === vpa || narration.toLowerCase().includes(vpa)) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Set selfTransfer on deposits that come from one of our own accounts
+ */
+export function markSelfTransfers(
+  transactions: Transaction[],
+  accounts: OwnAccount[]
+): { transactions: Transaction[]; marked: number } {
+  if (accounts.length === 0) return { transactions, marked: 0 };
+
+  let marked = 0;
+  const result = transactions.map((t) => {
+    if (t.type !== "credit" || t.selfTransfer || !findOwnAccount(t, accounts)) return t;
+    marked++;
+    return { ...t, selfTransfer: true };
+  });
+  return { transactions: result, marked };
+}
+
+/**
+ * Withdrawals and deposits of the same amount, in different accounts and at
+ * most windowDays apart. Only pairs with at least one side in `incoming` are
+ * returned; `existing` supplies the other side from earlier imports. Each
+ * transaction is used once, closest dates first.
+ */
+export function findTransferPairs(
+  incoming: Transaction[],
+  existing: Transaction[],
+  windowDays: number
+): TransferPair[] {
+  const incomingIds = new Set(incoming.map((t) => t.id));
+  const pool = [...incoming, ...existing.filter((t) => !incomingIds.has(t.id))].filter(
+    (t) => !t.linkedTransactionId && toCalendarDate(t.date)
+  );
+
+  const creditsByAmount = new Map<string, Transaction[]>();
+  pool
+    .filter((t) => t.type === "credit")
+    .forEach((t) => {
+      const key = t.amount.toFixed(2);
+      creditsByAmount.set(key, [...(creditsByAmount.get(key) || []), t]);
+    });
+
+  const candidates: TransferPair[] = [];
+  pool
+    .filter((t) => t.type === "debit")
+    .forEach((debit) => {
+      const debitDate = toCalendarDate(debit.date)!;
+      (creditsByAmount.get(debit.amount.toFixed(2)) || []).forEach((credit) => {
+        if (!incomingIds.has(debit.id) && !incomingIds.has(credit.id)) return;
+        if (debit.bankAccount && credit.bankAccount && debit.bankAccount === credit.bankAccount) return;
+        const days = Math.abs(daysBetween(debitDate, toCalendarDate(credit.date)!));
+        if (days <= windowDays) candidates.push({ debit, credit, days });
+      });
+    });
+
+  const used = new Set<string>();
+  return candidates
+    .sort((a, b) => a.days - b.days)
+    .filter((pair) => {
+      if (used.has(pair.debit.id) || used.has(pair.credit.id)) return false;
+      used.add(pair.debit.id);
+      used.add(pair.credit.id);
+      return true;
+    });
+}
@@ -0,0 +1,204 @@
+// Columns of the Transactions sheet
+// Rows are read and written by header name, not by position: the app sends each
+// transaction as a record keyed by header, and the Apps Script puts every value
+// under the column with that header (adding the column if the sheet doesn't have
+// it yet). Columns people add to the sheet, or reordering it, don't shift data.
+
+import { Transaction } from "../types/transaction";
+import { formatDate } from "../lib/utils";
+import { toCalendarDate, todayCalendarDate } from "../lib/calendarDate";
+import { NARRATION_FIELDS, NarrationDetails, decodeNarration } from "./narrationDecoder";
+
+/**
+ * How a column's value is written to and read back from the sheet:
+ * - text: as is; read back as trimmed text (Sheets turns long digit strings into numbers)
+ * - number: as a number; read back with thousands separators removed
+ * - yesno: "Yes" / "No"
+ * - date: a calendar date shown as DD/MM/YYYY; read back as YYYY-MM-DD
+ * - timestamp: an ISO timestamp, written and read back as is so the time is kept
+ */
+export type SheetColumnType = "text" | "number" | "yesno" | "date" | "timestamp";
+
+export interface SheetColumn {
+  key: keyof Transaction;
+  header: string;
+  type: SheetColumnType;
+}
+
+/** A sheet row keyed by column header */
+export type SheetRecord = Record<string, unknown>;
+
+/**
+ * Every column the app reads and writes. The order is the one new sheets are
+ * created with, and the positional layout of rows from scripts that don't send
+ * their header row.
+ */
+export const TRANSACTION_COLUMNS: SheetColumn[] = [
+  { key: "id", header: "Transaction ID", type: "text" },
+  { key: "date", header: "Date", type: "date" },
+  { key: "description", header: "Narration", type: "text" },
+  { key: "referenceNumber", header: "Bank Ref No.", type: "text" },
+  { key: "amount", header: "Amount", type: "number" },
+  { key: "partyName", header: "Party Name", type: "text" },
+  { key: "category", header: "Category", type: "text" },
+  { key: "type", header: "Type", type: "text" },
+  { key: "added_to_vyapar", header: "Added to Vyapar", type: "yesno" },
+  { key: "vyapar_reference_number", header: "Vyapar Ref No.", type: "text" },
+  { key: "hold", header: "Hold", type: "yesno" },
+  { key: "selfTransfer", header: "Self Transfer", type: "yesno" },
+  { key: "notes", header: "Notes", type: "text" },
+  { key: "createdAt", header: "Created At", type: "timestamp" },
+  { key: "updatedAt", header: "Updated At", type: "timestamp" },
+  { key: "bankAccount", header: "Bank Account", type: "text" },
+  { key: "channel", header: "Channel", type: "text" },
+  { key: "utr", header: "UTR / RRN", type: "text" },
+  { key: "payerVpa", header: "Payer VPA", type: "text" },
+  { key: "payerAccount", header: "Payer Account", type: "text" },
+  { key: "payerIfsc", header: "Payer IFSC", type: "text" },
+  { key: "payerName", header: "Payer Name", type: "text" },
+  { key: "remitterBank", header: "Remitter Bank", type: "text" },
+  { key: "chequeNumber", header: "Cheque No.", type: "text" },
+  { key: "ruleId", header: "Rule", type: "text" },
+  { key: "linkedTransactionId", header: "Linked Transaction", type: "text" },
+  { key: "version", header: "Version", type: "number" },
+  { key: "valueDate", header: "Value Date", type: "date" },
+  { key: "closingBalance", header: "Closing Balance", type: "number" },
+];
+
+export const TRANSACTION_HEADERS = TRANSACTION_COLUMNS.map((column) => column.header);
+
+// Without these a row can't be matched to a transaction
+const REQUIRED_HEADERS = ["Transaction ID", "Date", "Amount"];
+
+function columnFor(key: keyof Transaction): SheetColumn {
+  const column = TRANSACTION_COLUMNS.find((c) => c.key === key);
+  if (!column) throw new Error(`No sheet column for ${key}`);
+  return column;
+}
+
+function formatValue(column: SheetColumn, value: unknown): string | number {
+  if (value === undefined || value === null) {
+    return column.type === "yesno" ? "No" : "";
+  }
+  switch (column.type) {
+    case "yesno":
+      return value ? "Yes" : "No";
+    case "date":
+      return value ? formatDate(String(value)) : "";
+    case "timestamp":
+      return String(value);
+    case "number":
+      return typeof value === "number" ? value : String(value);
+    default:
+      return String(value);
+  }
+}
+
+function parseValue(column: SheetColumn, value: unknown): unknown {
+  switch (column.type) {
+    case "yesno":
+      return value === "Yes" || value === true || value === "true";
+    case "date":
+      return toCalendarDate(value) || undefined;
+    case "number": {
+      if (typeof value === "number") return value;
+      const number = parseFloat(String(value ?? "").replace(/,/g, ""));
+      return isNaN(number) ? undefined : number;
+    }
+    case "timestamp":
+      return value ? String(value) : undefined;
+    default:
+      return String(value ?? "").trim() || undefined;
+  }
+}
+
+/**
+ * A transaction as a sheet record, with a value for every column
+ */
+export function transactionToSheetRecord(transaction: Transaction): SheetRecord {
+  return Object.fromEntries(
+    TRANSACTION_COLUMNS.map((column) => [column.header, formatValue(column, transaction[column.key])])
+  );
+}
+
+/**
+ * The transaction's values in TRANSACTION_COLUMNS order, e.g. for CSV
+ */
+export function transactionToSheetRow(transaction: Transaction): (string | number)[] {
+  const record = transactionToSheetRecord(transaction);
+  return TRANSACTION_HEADERS.map((header) => record[header] as string | number);
+}
+
+/**
+ * Key a sheet row by the sheet's header row
+ */
+export function sheetRowToRecord(headers: string[], row: unknown[]): SheetRecord {
+  return Object.fromEntries(headers.map((header, index) => [String(header).trim(), row[index]]));
+}
+
+/**
+ * Check a header row from the sheet. Missing optional columns read as empty
+ * (and are added the next time a row is written); missing required ones are
+ * an error.
+ */
+export function checkSheetHeaders(headers: string[]): void {
+  const present = new Set(headers.map((h) => String(h).trim()));
+  const missingRequired = REQUIRED_HEADERS.filter((h) => !present.has(h));
+  if (missingRequired.length > 0) {
+    throw new Error(
+      `The Transactions sheet has no ${missingRequired.map((h) => `"${h}"`).join(", ")} ` +
+        `column${missingRequired.length > 1 ? "s" : ""}. ` +
+        "Check the header row (row 1) of the sheet."
+    );
+  }
+  const missing = TRANSACTION_HEADERS.filter((h) => !present.has(h));
+  if (missing.length > 0) {
+    console.warn("Transactions sheet is missing columns, reading them as empty:", missing);
+  }
+}
+
+/**
+ * Narration fields from their columns, or decoded from the narration for rows
+ * written before those columns existed
+ */
+function narrationDetailsFromRecord(record: SheetRecord, narration: string): NarrationDetails {
+  if (!String(record[columnFor("channel").header] ?? "").trim()) {
+    return decodeNarration(narration);
+  }
+  return Object.fromEntries(
+    NARRATION_FIELDS.map((field) => {
+      const column = columnFor(field);
+      return [field, parseValue(column, record[column.header])];
+    })
+  ) as NarrationDetails;
+}
+
+/**
+ * Convert a sheet record to a Transaction
+ */
+export function sheetRecordToTransaction(record: SheetRecord): Transaction {
+  const values = Object.fromEntries(
+    TRANSACTION_COLUMNS.map((column) => [column.key, parseValue(column, record[column.header])])
+  ) as Partial<Transaction>;
+
+  if (!values.date && record["Date"]) {
+    console.warn("Unrecognised date in Google Sheets row:", record["Transaction ID"], record["Date"]);
+  }
+
+  const description = values.description || "";
+  const now = new Date().toISOString();
+  return {
+    ...values,
+    id: values.id || "",
+    date: values.date || todayCalendarDate(),
+    description,
+    amount: values.amount || 0,
+    partyName: values.partyName || "",
+    category: values.category || "Other Credit",
+    type: values.type || "credit",
+    createdAt: values.createdAt || now,
+    updatedAt: values.updatedAt || now,
+    version: values.version || undefined,
+    ...narrationDetailsFromRecord(record, description),
+  } as Transaction;
+}
@@ -0,0 +1,89 @@
+// Bank account detection for statement imports
+// Statement exports print the account number, branch and IFSC in the rows above
+// the transaction header. Only a masked identifier (last four digits) is kept and
+// stored on transactions, so deposits can be told apart by account without the
+// full account number ending up in Sheets.
+
+export interface StatementAccount {
+  /** Masked account number, e.g. "XXXX1234" */
+  maskedAccount: string;
+  ifsc?: string;
+  branch?: string;
+}
+
+const ACCOUNT_NUMBER_PATTERN =
+  /\b(?:a\/?c|account)\s*(?:no|number|num)\b\.?[\s:|#.-]*([0-9Xx*][0-9Xx*\s-]{2,}[0-9])/i;
+const IFSC_PATTERN = /\b(?:IFSC?\s*code|IFSC)\b[\s:|.,-]*([A-Z]{4}0[A-Z0-9]{6})\b/i;
+const BRANCH_PATTERN = /\bbranch(?:\s*name)?\b\s*[:|-]\s*\|?\s*([^|]+?)\s*(?:\||$)/i;
+
+/**
+ * Masked identifier from a (possibly already masked) account number.
+ * Returns null when there are fewer than four trailing digits to keep.
+ */
+export function maskAccountNumber(accountNumber: string): string | null {
+  const cleaned = (accountNumber || "").replace(/[^0-9Xx*]/g, "");
+  const lastDigits = cleaned.match(/(\d{4})$/);
+  return lastDigits ? `XXXX${lastDigits[1]}` : null;
+}
+
+/**
+ * Look for the account number, IFSC and branch in the statement preamble
+ * (the rows above the header). Labels and values may share a cell
+ * ("Account No :50100012345678") or sit in neighbouring cells.
+ */
+export function detectStatementAccount(preambleRows: unknown[][]): StatementAccount | null {
+  let maskedAccount: string | null = null;
+  let ifsc: string | undefined;
+  let branch: string | undefined;
+
+  for (const row of preambleRows) {
+    const line = (row || [])
+      .map((cell) => String(cell ?? "").trim())
+      .filter(Boolean)
+      .join(" | ");
+    if (!line) continue;
+
+    if (!maskedAccount) {
+      const account = line.match(ACCOUNT_NUMBER_PATTERN);
+      if (account) maskedAccount = maskAccountNumber(account[1]);
+    }
+    if (!ifsc) {
+      const code = line.match(IFSC_PATTERN);
+      if (code) ifsc = code[1].toUpperCase();
+    }
+    if (!branch) {
+      const name = line.match(BRANCH_PATTERN);
+      if (name) branch = name[1];
+    }
+  }
+
+  if (!maskedAccount) return null;
+  return { maskedAccount, ifsc, branch };
+}
+
+export function describeStatementAccount(account: StatementAccount): string {
+  return [account.maskedAccount, account.branch, account.ifsc && `IFSC ${account.ifsc}`].filter(Boolean).join(" · ");
+}
+
+/**
+ * Tag transactions with the statement's account (leaves them untouched if none was found)
+ */
+export function tagBankAccount<T extends { bankAccount?: string }>(
+  transactions: T[],
+  account: StatementAccount | null
+): T[] {
+  if (!account) return transactions;
+  return transactions.map((t) => ({ ...t, bankAccount: account.maskedAccount }));
+}
+
+/**
+ * Distinct accounts, in the order they were found
+ */
+export function uniqueAccounts(accounts: (StatementAccount | null)[]): StatementAccount[] {
+  const seen = new Set<string>();
+  return accounts.filter((a): a is StatementAccount => {
+    if (!a || seen.has(a.maskedAccount)) return false;
+    seen.add(a.maskedAccount);
+    return true;
+  });
+}
@@ -0,0 +1,127 @@
+import { BankCSVParser } from "./bankCSVParser";
+import { BankExcelParser, ExcelSheetInfo } from "./bankExcelParser";
+import { ImportMode, StatementParseResult, UnrecognisedStatementError } from "./bankProfiles";
+import { ParseProgressCallback } from "./parseProgress";
+import { StatementTemplateService } from "./statementTemplateService";
+import type { StatementWorkerRequest, StatementWorkerResponse } from "../workers/statementParser.worker";
+
+/**
+ * Thrown (as the task's rejection) when a parse is cancelled
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super("Parsing was cancelled");
+    this.name = "ParseCancelledError";
+  }
+}
+
+export interface StatementParseTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Runs CSV and Excel statement parsing in a Web Worker so the page stays
+ * responsive, with progress updates and cancellation.
+ * Falls back to parsing on the main thread where workers are unavailable.
+ */
+export class StatementParserClient {
+  static parse(
+    file: File,
+    format: "csv" | "excel",
+    mode: ImportMode,
+    sheetNames?: string[],
+    onProgress?: ParseProgressCallback
+  ): StatementParseTask<StatementParseResult> {
+    if (typeof Worker === "undefined") {
+      return this.onMainThread(() =>
+        format === "csv" ? BankCSVParser.parseFile(file, mode) : BankExcelParser.parseFile(file, mode, sheetNames)
+      );
+    }
+
+    return this.run<StatementParseResult>(
+      { type: "parse", format, file, mode, sheetNames, templates: StatementTemplateService.getTemplates() },
+      (response) => (response.type === "result" ? response.result : undefined),
+      onProgress
+    );
+  }
+
+  static listSheets(file: File): StatementParseTask<ExcelSheetInfo[]> {
+    if (typeof Worker === "undefined") {
+      return this.onMainThread(() => BankExcelParser.listSheets(file));
+    }
+
+    return this.run<ExcelSheetInfo[]>(
+      { type: "listSheets", file, templates: StatementTemplateService.getTemplates() },
+      (response) => (response.type === "sheets" ? response.sheets : undefined)
+    );
+  }
+
+  private static run<T>(
+    request: StatementWorkerRequest,
+    resultOf: (response: StatementWorkerResponse) => T | undefined,
+    onProgress?: ParseProgressCallback
+  ): StatementParseTask<T> {
+    const worker = new Worker(new URL("../workers/statementParser.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    let settle: { reject: (error: Error) => void } | null = null;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      settle = { reject };
+
+      worker.onmessage = (event: MessageEvent<StatementWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") {
+          onProgress?.(response.progress);
+          return;
+        }
+
+        worker.terminate();
+        if (response.type === "error") {
+          reject(this.toError(response.error));
+          return;
+        }
+        resolve(resultOf(response) as T);
+      };
+
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(`Statement parser failed: ${event.message || "Unknown error"}`));
+      };
+
+      worker.postMessage(request);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        worker.terminate();
+        settle?.reject(new ParseCancelledError());
+      },
+    };
+  }
+
+  private static onMainThread<T>(parse: () => Promise<T>): StatementParseTask<T> {
+    let cancelled = false;
+    return {
+      promise: parse().then((result) => {
+        if (cancelled) throw new ParseCancelledError();
+        return result;
+      }),
+      cancel: () => {
+        cancelled = true;
+      },
+    };
+  }
+
+  /**
+   * Rebuild the error thrown inside the worker (class instances don't survive postMessage)
+   */
+  private static toError(error: { name: string; message: string; rows?: string[][] }): Error {
+    if (error.name === "UnrecognisedStatementError" && error.rows) {
+      return new UnrecognisedStatementError(error.rows);
+    }
+    return new Error(error.message);
+  }
+}
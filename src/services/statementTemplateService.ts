@@ -0,0 +1,127 @@
+import {
+  BankProfile,
+  BankProfileMatch,
+  COMMON_FOOTERS,
+  StatementColumn,
+  StatementDateFormat,
+  detectBankProfile,
+  normaliseHeader,
+} from "./bankProfiles";
+
+const TEMPLATES_KEY = "statement_templates";
+
+// How far down the file a saved header row is looked for
+const MAX_TEMPLATE_HEADER_ROW = 30;
+
+// Web Workers have no localStorage - the page sends its templates with each parse request
+let workerTemplates: StatementTemplate[] = [];
+
+export interface StatementTemplate {
+  id: string;
+  name: string;
+  /** Normalised header row labels joined with "|" - see StatementTemplateService.fingerprint */
+  fingerprint: string;
+  /** Index of each column in the header row chosen in the wizard */
+  columnIndexes: Partial<Record<StatementColumn, number>>;
+  dateFormat: StatementDateFormat;
+  createdAt: string;
+}
+
+/**
+ * User-defined column mappings for statements the built-in bank profiles
+ * don't recognise. Stored locally and matched by header row fingerprint.
+ */
+export class StatementTemplateService {
+  static getTemplates(): StatementTemplate[] {
+    if (typeof localStorage === "undefined") {
+      return workerTemplates;
+    }
+    const data = localStorage.getItem(TEMPLATES_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Templates to match against inside a Web Worker (see getTemplates)
+   */
+  static setWorkerTemplates(templates: StatementTemplate[]): void {
+    workerTemplates = templates;
+  }
+
+  static saveTemplates(templates: StatementTemplate[]): void {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  }
+
+  /**
+   * Save a template, replacing any existing template with the same fingerprint
+   */
+  static saveTemplate(template: StatementTemplate): void {
+    const templates = this.getTemplates().filter((t) => t.fingerprint !== template.fingerprint);
+    templates.push(template);
+    this.saveTemplates(templates);
+  }
+
+  static deleteTemplate(id: string): void {
+    this.saveTemplates(this.getTemplates().filter((t) => t.id !== id));
+  }
+
+  /**
+   * Fingerprint of a header row: normalised labels joined with "|".
+   * Trailing empty cells are dropped so padding differences don't matter.
+   */
+  static fingerprint(headerRow: unknown[]): string {
+    const labels = headerRow.map(normaliseHeader);
+    while (labels.length > 0 && labels[labels.length - 1] === "") {
+      labels.pop();
+    }
+    return labels.join("|");
+  }
+
+  /**
+   * Build a profile for a template so the parsers can treat it like a bank profile
+   */
+  static toProfile(template: StatementTemplate): BankProfile {
+    return {
+      id: `template:${template.id}`,
+      name: template.name,
+      columns: {},
+      signature: [],
+      maxPreambleRows: MAX_TEMPLATE_HEADER_ROW,
+      dateFormat: template.dateFormat,
+      footerPatterns: [...COMMON_FOOTERS],
+    };
+  }
+
+  /**
+   * Find a saved template whose header row appears near the top of the file
+   */
+  static findMatch(rows: unknown[][]): BankProfileMatch | null {
+    const templates = this.getTemplates();
+    if (templates.length === 0) return null;
+
+    const scanLimit = Math.min(rows.length, MAX_TEMPLATE_HEADER_ROW);
+    for (let i = 0; i < scanLimit; i++) {
+      const fingerprint = this.fingerprint(rows[i] || []);
+      if (!fingerprint) continue;
+
+      const template = templates.find((t) => t.fingerprint === fingerprint);
+      if (template) {
+        return {
+          profile: this.toProfile(template),
+          headerRowIndex: i,
+          columnIndexes: template.columnIndexes,
+          score: Number.MAX_SAFE_INTEGER,
+        };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Work out which profile applies to a statement: saved templates first,
+ * then the built-in bank profiles
+ */
+export function matchStatement(rows: unknown[][]): BankProfileMatch | null {
+  return StatementTemplateService.findMatch(rows) ?? detectBankProfile(rows);
+}
@@ -0,0 +1,79 @@
+// Storage backend interface
+// Everything the app persists - transactions, parties, party name mappings,
+// settings and the audit trail - goes through a StorageBackend. IndexedDB holds the local working
+// copy; Google Sheets (via the Apps Script endpoint) or the local file server
+// is the shared copy that the sync outbox writes to. Pages never talk to a
+// backend directly, they go through StorageService.
+
+import { HistoryEntry, Party, Transaction } from "../types/transaction";
+import type { PartyNameMapping } from "./googleSheetsService";
+
+export type StorageBackendId = "indexeddb" | "google-sheets" | "file-server";
+
+/**
+ * Outcome of writing one transaction in a batch
+ */
+export interface TransactionWriteResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface StorageBackend {
+  readonly id: StorageBackendId;
+  /** Shown in the UI, e.g. "Google Sheets" */
+  readonly label: string;
+
+  // Transactions. Writes reject when the backend did not store them, so the
+  // outbox can retry; a batch append reports each row, since part of it can fail.
+  // An update only goes through if the stored row is still at
+  // transaction.version, and leaves it at version + 1; otherwise it rejects
+  // with TransactionConflictError.
+  getTransactions(): Promise<Transaction[]>;
+  addTransactions(transactions: Transaction[]): Promise<TransactionWriteResult[]>;
+  updateTransaction(transaction: Transaction): Promise<void>;
+
+  // Parties
+  getParties(): Promise<Party[]>;
+  saveParties(parties: Party[]): Promise<void>;
+
+  // Party name mappings (learned narration -> party corrections)
+  getPartyMappings(): Promise<PartyNameMapping[]>;
+  addPartyMapping(mapping: PartyNameMapping): Promise<void>;
+  updatePartyMapping(mapping: PartyNameMapping): Promise<void>;
+  deletePartyMapping(id: string): Promise<void>;
+
+  // Settings, as a flat key/value map
+  getSettings(): Promise<Record<string, unknown>>;
+  saveSetting(key: string, value: unknown): Promise<void>;
+
+  // Audit trail of transaction changes. Append only: entries already stored
+  // (same ID) are skipped, so a retried batch isn't recorded twice.
+  getHistory(): Promise<HistoryEntry[]>;
+  appendHistory(entries: HistoryEntry[]): Promise<void>;
+}
+
+/**
+ * Thrown when an update was based on an older copy of the row - someone else
+ * changed it in the meantime. Carries the row as it is stored now.
+ */
+export class TransactionConflictError extends Error {
+  current: Transaction;
+
+  constructor(current: Transaction) {
+    super("The transaction was changed by someone else");
+    this.name = "TransactionConflictError";
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown by a backend for data it has no place to keep (e.g. party balances
+ * in the Google Sheet, which only has a list of party names)
+ */
+export class UnsupportedStorageOperationError extends Error {
+  constructor(backend: string, operation: string) {
+    super(`${backend} does not support ${operation}`);
+    this.name = "UnsupportedStorageOperationError";
+  }
+}
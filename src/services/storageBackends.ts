@@ -0,0 +1,44 @@
+// Which storage backends are in use
+// The local backend is always IndexedDB. The remote one is the local file
+// server when VITE_STORAGE_SERVER_URL is set, otherwise Google Sheets when the
+// active workspace has an Apps Script URL, otherwise there is none and the
+// data only lives in this browser. On the file server, every workspace but the
+// default one keeps its data under /workspaces/<id>.
+
+import { isGoogleSheetsConfigured } from "./googleSheetsService";
+import { FileServerBackend } from "./fileServerBackend";
+import { GoogleSheetsBackend } from "./googleSheetsBackend";
+import { IndexedDBBackend } from "./indexedDBBackend";
+import { StorageBackend } from "./storageBackend";
+import { DEFAULT_WORKSPACE_ID, WorkspaceService } from "./workspaceService";
+
+const localBackend = new IndexedDBBackend();
+let remoteBackend: StorageBackend | null | undefined;
+
+// Setting or clearing the Apps Script URL can change which remote backend there is
+WorkspaceService.subscribe(() => {
+  remoteBackend = undefined;
+});
+
+export function getLocalBackend(): IndexedDBBackend {
+  return localBackend;
+}
+
+export function getRemoteBackend(): StorageBackend | null {
+  if (remoteBackend === undefined) {
+    const serverUrl = String(import.meta.env.VITE_STORAGE_SERVER_URL || "").trim();
+    if (serverUrl) {
+      const workspaceId = WorkspaceService.getActiveWorkspace().id;
+      remoteBackend = new FileServerBackend(
+        workspaceId === DEFAULT_WORKSPACE_ID
+          ? serverUrl
+          : `${serverUrl.replace(/\/+$/, "")}/workspaces/${encodeURIComponent(workspaceId)}`
+      );
+    } else if (isGoogleSheetsConfigured()) {
+      remoteBackend = new GoogleSheetsBackend();
+    } else {
+      remoteBackend = null;
+    }
+  }
+  return remoteBackend;
+}
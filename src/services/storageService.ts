@@ -1,31 +1,146 @@
 import { Transaction, Party, DashboardStats } from "../types/transaction";
 import { PartyMappingService } from "./partyMappingService";
-import { updateTransactionInSheets, isGoogleSheetsConfigured } from "./googleSheetsService";
-
-const STORAGE_KEYS = {
-  TRANSACTIONS: "credit_transactions",
-  PARTIES: "credit_parties",
-} as const;
+import { SyncOutbox } from "./syncOutbox";
+import { AuditTrail } from "./auditTrail";
+import { StorageBackendId, UnsupportedStorageOperationError } from "./storageBackend";
+import { getLocalBackend, getRemoteBackend } from "./storageBackends";
+import { LocalStore } from "./localStore";
+import { PartyLedger } from "./partyLedger";
+import { compareCalendarDates, startOfMonth, startOfYear, todayCalendarDate } from "../lib/calendarDate";
 
+/**
+ * The one place pages read and write data. The local backend (IndexedDB) is
+ * the working copy; transactions reach the remote backend (Google Sheets or
+ * the local file server) through the sync outbox.
+ */
 export class StorageService {
+  /**
+   * Whether there is a remote backend to sync with, or the data only lives in this browser
+   */
+  static hasRemoteBackend(): boolean {
+    return getRemoteBackend() !== null;
+  }
+
+  static getRemoteBackendLabel(): string | null {
+    return getRemoteBackend()?.label ?? null;
+  }
+
+  static getRemoteBackendId(): StorageBackendId | null {
+    return getRemoteBackend()?.id ?? null;
+  }
+
   // Transactions
-  static getTransactions(): Transaction[] {
-    const data = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-    return data ? JSON.parse(data) : [];
+  // Pages read the local copy instantly and refresh it from the remote
+  // backend; writes land locally first and reach the remote via the outbox.
+  static async getLocalTransactions(): Promise<Transaction[]> {
+    try {
+      return await getLocalBackend().getTransactions();
+    } catch (error) {
+      console.error('Error reading the local transaction store:', error);
+      return [];
+    }
   }
 
-  static saveTransactions(transactions: Transaction[]): void {
-    localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
+  /**
+   * Another workspace's transactions from its local copy in this browser, as of
+   * when that workspace was last open here (for the consolidated dashboard)
+   */
+  static async getWorkspaceTransactions(workspaceId: string): Promise<Transaction[]> {
+    try {
+      return await LocalStore.getWorkspaceTransactions(workspaceId);
+    } catch (error) {
+      console.error(`Error reading the local transaction store of workspace ${workspaceId}:`, error);
+      return [];
+    }
   }
 
-  static addTransaction(transaction: Transaction): void {
+  /**
+   * Reload the working copy from the remote backend. Edits still waiting in
+   * the outbox are laid over the remote rows, so they don't flip back to the
+   * old values before they have synced. Returns null when the remote can't be
+   * reached - the local copy is kept as it is.
+   */
+  static async refreshTransactions(): Promise<Transaction[] | null> {
+    const remote = getRemoteBackend();
+    if (!remote) {
+      return this.getLocalTransactions();
+    }
+
+    let remoteTransactions: Transaction[];
+    try {
+      remoteTransactions = await remote.getTransactions();
+    } catch (error) {
+      console.error(`${remote.label} could not be reached - keeping the local copy:`, error);
+      return null;
+    }
+
+    const byId = new Map<string, Transaction>();
+    const withoutId: Transaction[] = [];
+    remoteTransactions.forEach((t) => {
+      if (t.id) {
+        byId.set(t.id, t);
+      } else {
+        withoutId.push(t);
+      }
+    });
+    (await SyncOutbox.getQueuedTransactions()).forEach((t) => byId.set(t.id, t));
+
+    const transactions = Array.from(byId.values());
+    try {
+      await getLocalBackend().replaceTransactions(transactions);
+      PartyLedger.invalidate();
+    } catch (error) {
+      console.error('Error saving the local transaction store:', error);
+    }
+    // Rows without an ID can't be stored or updated, but are still shown
+    return [...transactions, ...withoutId];
+  }
+
+  /**
+   * Save new transactions to the local copy and queue them for the remote backend
+   */
+  static async saveNewTransactions(transactions: Transaction[]): Promise<void> {
+    // New rows start at version 1; every update moves them one version on
+    const versioned = transactions.map((t) => ({ ...t, version: t.version ?? 1 }));
+    await getLocalBackend().addTransactions(versioned);
+    PartyLedger.invalidate();
+    await AuditTrail.recordCreated(versioned);
+    await SyncOutbox.enqueueAll("append", versioned);
+  }
+
+  /**
+   * Set stored transactions back to the given copies (when restoring a backup).
+   * Recorded in the audit trail and sent to the remote backend like any edit;
+   * the date and row version stay as stored.
+   */
+  static async restoreTransactions(transactions: Transaction[]): Promise<void> {
+    if (transactions.length === 0) return;
+    const current = new Map((await this.getLocalTransactions()).map((t) => [t.id, t]));
+    const now = new Date().toISOString();
+    const bases: Transaction[] = [];
+    const restored: Transaction[] = [];
+    transactions.forEach((t) => {
+      const existing = current.get(t.id);
+      if (!existing) return;
+      bases.push(existing);
+      restored.push({ ...t, date: existing.date, version: existing.version, updatedAt: now });
+    });
+
+    await getLocalBackend().addTransactions(restored);
+    PartyLedger.invalidate();
+    for (let i = 0; i < restored.length; i++) {
+      await AuditTrail.recordChanges(bases[i], restored[i]);
+    }
+    await SyncOutbox.enqueueAll("update", restored, bases);
+  }
+
+  static async addTransaction(transaction: Transaction): Promise<void> {
     // Ensure new fields are set
     if (transaction.added_to_vyapar === undefined) {
       transaction.added_to_vyapar = transaction.inVyapar || false;
     }
     
-    // NO LOCAL STORAGE - Only sync to Google Sheets
-    // Transactions are now stored only in Google Sheets
+    await this.saveNewTransactions([transaction]);
     
     // AUTOMATIC TRAINING: Learn from narration automatically
     // System trains itself from narrations even when party name is blank
@@ -33,13 +148,14 @@ export class StorageService {
       PartyMappingService.autoTrainFromNarration(
         transaction.description,
         transaction.partyName || undefined
-      );
+      ).catch(err => {
+        console.error('Error training party mapping:', err);
+      });
     }
   }
 
   static updateTransaction(id: string, updates: Partial<Transaction>, fullTransaction?: Transaction): void {
-    // NO LOCAL STORAGE - Only sync to Google Sheets
-    // We need the full transaction object to update Google Sheets
+    // We need the full transaction object to save the local copy and update the remote backend
     
     // CRITICAL: NEVER ALLOW DATE TO BE UPDATED - Remove date from updates if present
     // Date should ONLY be set from CSV upload, NEVER modified after that
@@ -60,8 +176,8 @@ export class StorageService {
       });
     }
 
-    // SYNC TO GOOGLE SHEETS: Update transaction in Google Sheets if configured
-    if (isGoogleSheetsConfigured() && fullTransaction) {
+    // SAVE LOCALLY, THEN QUEUE FOR THE REMOTE BACKEND (retried until it gets through)
+    if (fullTransaction) {
       // CRITICAL: Preserve original date - it should NEVER be changed
       const originalDate = fullTransaction.date;
       console.log('🔒 Preserving original date for transaction update:', originalDate);
@@ -81,107 +197,113 @@ export class StorageService {
         updatedTransaction.date = originalDate;
       }
       
-      // Update asynchronously (don't block the UI)
-      updateTransactionInSheets(updatedTransaction).catch(error => {
-        console.error('Failed to sync transaction update to Google Sheets:', error);
-      });
-    } else if (!isGoogleSheetsConfigured()) {
-      console.warn('Google Sheets not configured. Transaction update will not be saved.');
-    } else if (!fullTransaction) {
-      console.warn('Full transaction object not provided. Cannot update Google Sheets.');
+      // Save asynchronously (don't block the UI)
+      getLocalBackend().updateTransaction(updatedTransaction)
+        .then(() => {
+          // A new party name or self-transfer flag moves the amount between parties
+          PartyLedger.invalidate();
+          return AuditTrail.recordChanges(fullTransaction, updatedTransaction);
+        })
+        .then(() => SyncOutbox.enqueue("update", updatedTransaction, fullTransaction))
+        .catch(error => {
+          console.error('Failed to save transaction update:', error);
+        });
+    } else {
+      console.warn(`Full transaction object not provided. Cannot save the update to transaction ${id}.`);
     }
   }
 
-  static deleteTransaction(id: string): void {
-    const transactions = this.getTransactions();
-    const filtered = transactions.filter((t) => t.id !== id);
-    this.saveTransactions(filtered);
+  // Parties
+  // The party list is kept locally and copied to the remote backend when it
+  // can take it (the Google Sheet only has a list of names). Balances in the
+  // list are not kept up to date - getPartyBalances works them out from the
+  // transactions.
+  static async getParties(): Promise<Party[]> {
+    try {
+      return await getLocalBackend().getParties();
+    } catch (error) {
+      console.error('Error reading the local party store:', error);
+      return [];
+    }
   }
 
-  // Parties
-  static getParties(): Party[] {
-    const data = localStorage.getItem(STORAGE_KEYS.PARTIES);
-    return data ? JSON.parse(data) : [];
+  /**
+   * Every party with its balance, totals and last transaction date, from the
+   * transactions in the local copy. Names used by transactions but missing
+   * from the party list are included.
+   */
+  static async getPartyBalances(): Promise<Party[]> {
+    try {
+      return await PartyLedger.getParties();
+    } catch (error) {
+      console.error('Error working out party balances:', error);
+      return [];
+    }
   }
 
-  static saveParties(parties: Party[]): void {
-    localStorage.setItem(STORAGE_KEYS.PARTIES, JSON.stringify(parties));
+  static async saveParties(parties: Party[]): Promise<void> {
+    await getLocalBackend().saveParties(parties);
+    PartyLedger.invalidate();
+    getRemoteBackend()
+      ?.saveParties(parties)
+      .catch((error) => {
+        if (!(error instanceof UnsupportedStorageOperationError)) {
+          console.error('Error saving parties to the remote backend:', error);
+        }
+      });
   }
 
-  static addParty(party: Party): void {
-    const parties = this.getParties();
+  static async addParty(party: Party): Promise<void> {
+    const parties = await this.getParties();
     parties.push(party);
-    this.saveParties(parties);
+    await this.saveParties(parties);
   }
 
-  static updateParty(id: string, updates: Partial<Party>): void {
-    const parties = this.getParties();
+  static async updateParty(id: string, updates: Partial<Party>): Promise<void> {
+    const parties = await this.getParties();
     const index = parties.findIndex((p) => p.id === id);
     if (index !== -1) {
       parties[index] = { ...parties[index], ...updates };
-      this.saveParties(parties);
+      await this.saveParties(parties);
     }
   }
 
-  static deleteParty(id: string): void {
-    const parties = this.getParties();
+  static async deleteParty(id: string): Promise<void> {
+    const parties = await this.getParties();
     const filtered = parties.filter((p) => p.id !== id);
-    this.saveParties(filtered);
+    await this.saveParties(filtered);
   }
 
-  // Update party balance when transaction is added/updated
-  static updatePartyBalance(
-    partyName: string,
-    amount: number,
-    type: "credit" | "debit",
-    isNew: boolean = true
-  ): void {
-    const parties = this.getParties();
-    let party = parties.find((p) => p.name.toLowerCase() === partyName.toLowerCase());
-
-    if (!party) {
-      // Create new party
-      party = {
-        id: `party_${Date.now()}`,
-        name: partyName,
-        type: type === "credit" ? "customer" : "supplier",
-        balance: type === "credit" ? amount : -amount,
-        totalCredits: type === "credit" ? amount : 0,
-        totalDebits: type === "debit" ? amount : 0,
-        lastTransactionDate: new Date().toISOString(),
-      };
-      parties.push(party);
-    } else {
-      if (isNew) {
-        // New transaction
-        if (type === "credit") {
-          party.balance += amount;
-          party.totalCredits += amount;
-        } else {
-          party.balance -= amount;
-          party.totalDebits += amount;
-        }
-      }
-      party.lastTransactionDate = new Date().toISOString();
+  // Settings
+  static async getSettings(): Promise<Record<string, unknown>> {
+    try {
+      return await getLocalBackend().getSettings();
+    } catch (error) {
+      console.error('Error reading local settings:', error);
+      return {};
     }
+  }
 
-    this.saveParties(parties);
+  static async saveSetting(key: string, value: unknown): Promise<void> {
+    await getLocalBackend().saveSetting(key, value);
+    getRemoteBackend()
+      ?.saveSetting(key, value)
+      .catch((error) => {
+        if (!(error instanceof UnsupportedStorageOperationError)) {
+          console.error('Error saving the setting to the remote backend:', error);
+        }
+      });
   }
 
   // Dashboard Stats
-  static getDashboardStats(dateFrom?: string, dateTo?: string): DashboardStats {
-    let transactions = this.getTransactions();
+  static async getDashboardStats(dateFrom?: string, dateTo?: string): Promise<DashboardStats> {
+    let transactions = await this.getLocalTransactions();
     
     // Apply date filter if provided
     if (dateFrom || dateTo) {
       transactions = transactions.filter((t) => {
-        const tDate = new Date(t.date);
-        if (dateFrom && tDate < new Date(dateFrom)) return false;
-        if (dateTo) {
-          const toDate = new Date(dateTo);
-          toDate.setHours(23, 59, 59, 999); // Include entire end date
-          if (tDate > toDate) return false;
-        }
+        if (dateFrom && compareCalendarDates(t.date, dateFrom) < 0) return false;
+        if (dateTo && compareCalendarDates(t.date, dateTo) > 0) return false; // Include entire end date
         return true;
       });
     }
@@ -194,9 +316,9 @@ export class StorageService {
       return t;
     });
 
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const startOfYear = new Date(now.getFullYear(), 0, 1);
+    const today = todayCalendarDate();
+    const monthStart = startOfMonth(today);
+    const yearStart = startOfYear(today);
 
     // Only process deposits (credits)
     const depositTransactions = transactions.filter((t) => t.type === "credit");
@@ -220,15 +342,13 @@ export class StorageService {
       .filter((t) => t.type === "debit")
       .reduce((sum, t) => sum + t.amount, 0);
 
-    const transactionsThisMonth = transactions.filter((t) => {
-      const tDate = new Date(t.date);
-      return tDate >= startOfMonth;
-    }).length;
+    const transactionsThisMonth = transactions.filter(
+      (t) => compareCalendarDates(t.date, monthStart) >= 0
+    ).length;
 
-    const transactionsThisYear = transactions.filter((t) => {
-      const tDate = new Date(t.date);
-      return tDate >= startOfYear;
-    }).length;
+    const transactionsThisYear = transactions.filter(
+      (t) => compareCalendarDates(t.date, yearStart) >= 0
+    ).length;
 
     return {
       totalDepositAmount,
@@ -243,23 +363,4 @@ export class StorageService {
       transactionsThisYear,
     };
   }
-
-  // Export/Import
-  static exportData() {
-    return {
-      transactions: this.getTransactions(),
-      parties: this.getParties(),
-      exportedAt: new Date().toISOString(),
-    };
-  }
-
-  static importData(data: { transactions: Transaction[]; parties: Party[] }) {
-    if (data.transactions) {
-      this.saveTransactions(data.transactions);
-    }
-    if (data.parties) {
-      this.saveParties(data.parties);
-    }
-  }
 }
-
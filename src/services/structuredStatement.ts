@@ -0,0 +1,195 @@
+// Shared pieces for structured statement formats (OFX/QFX, MT940, CAMT.053)
+// These formats carry typed dates, signed amounts and bank references, so no
+// header detection or date/amount guessing is needed - each parser only has to
+// produce a StructuredStatement.
+
+import { Transaction } from "../types/transaction";
+import { generateId } from "../lib/utils";
+import { BankCSVParser } from "./bankCSVParser";
+import { BalanceCheckResult } from "./balanceContinuity";
+import { BankProfile, ImportMode, StatementParseResult, describeImportMode } from "./bankProfiles";
+import { ImportRowReport, createImportReport } from "./importReport";
+import { maskAccountNumber, uniqueAccounts } from "./statementAccount";
+import { decodeNarration } from "./narrationDecoder";
+
+const TOLERANCE = 0.005;
+
+export interface StructuredEntry {
+  /** Booking date, YYYY-MM-DD */
+  date: string;
+  /** Value date, YYYY-MM-DD */
+  valueDate?: string;
+  /** Signed amount: positive = credit (deposit), negative = debit (withdrawal) */
+  amount: number;
+  narration: string;
+  reference?: string;
+}
+
+export interface StructuredStatement {
+  entries: StructuredEntry[];
+  openingBalance?: number;
+  closingBalance?: number;
+  accountNumber?: string;
+}
+
+/**
+ * Profile used to label results from a structured format (no column mapping involved)
+ */
+export function structuredProfile(id: string, name: string): BankProfile {
+  return {
+    id,
+    name,
+    columns: {},
+    signature: [],
+    maxPreambleRows: 0,
+    dateFormat: "YYYY-MM-DD",
+    footerPatterns: [],
+  };
+}
+
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      if (!text) {
+        reject(new Error("Failed to read file"));
+        return;
+      }
+      resolve(text);
+    };
+    reader.onerror = () => {
+      reject(new Error("Failed to read file"));
+    };
+    reader.readAsText(file);
+  });
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Turn a structured statement into transactions.
+ * The running closing balance is derived from the opening balance (or worked
+ * back from the closing balance), and opening + movements is checked against
+ * the statement's closing balance when both are present.
+ */
+export function buildStructuredResult(
+  statement: StructuredStatement,
+  profile: BankProfile,
+  mode: ImportMode
+): StatementParseResult {
+  const { entries } = statement;
+  if (entries.length === 0) {
+    throw new Error(`No transactions found in this ${profile.name}`);
+  }
+
+  const total = entries.reduce((sum, e) => sum + e.amount, 0);
+  const openingBalance =
+    statement.openingBalance ??
+    (statement.closingBalance !== undefined ? statement.closingBalance - total : undefined);
+
+  const maskedAccount = statement.accountNumber ? maskAccountNumber(statement.accountNumber) : null;
+  const transactions: Transaction[] = [];
+  const reportRows: ImportRowReport[] = [];
+  let running = openingBalance;
+
+  entries.forEach((entry, index) => {
+    if (running !== undefined) {
+      running = roundAmount(running + entry.amount);
+    }
+
+    // Structured formats have no rows - entries are numbered in file order
+    const reportRow = {
+      rowNumber: index + 1,
+      values: [entry.date, entry.narration, entry.reference || "", String(entry.amount)],
+    };
+
+    const type = entry.amount >= 0 ? "credit" : "debit";
+    if (entry.amount === 0) {
+      reportRows.push({ ...reportRow, outcome: "skipped-zero-amount", reason: "Zero amount" });
+      return;
+    }
+    if (type === "credit" && mode === "withdrawals") {
+      reportRows.push({ ...reportRow, outcome: "skipped-deposit", reason: "Only withdrawals are being imported" });
+      return;
+    }
+    if (type === "debit" && mode === "deposits") {
+      reportRows.push({ ...reportRow, outcome: "skipped-withdrawal", reason: "Only deposits are being imported" });
+      return;
+    }
+
+    const id = generateId();
+    reportRows.push({ ...reportRow, outcome: "imported", reason: "", transactionId: id });
+    transactions.push({
+      id,
+      date: entry.date,
+      amount: roundAmount(Math.abs(entry.amount)),
+      description: entry.narration,
+      type,
+      category:
+        type === "credit"
+          ? BankCSVParser.autoCategorize(entry.narration)
+          : BankCSVParser.autoCategorizeDebit(entry.narration),
+      partyName: "",
+      referenceNumber: entry.reference || undefined,
+      valueDate: entry.valueDate,
+      closingBalance: running,
+      bankAccount: maskedAccount || undefined,
+      ...decodeNarration(entry.narration),
+      added_to_vyapar: false,
+      vyapar_reference_number: undefined,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+  });
+
+  if (transactions.length === 0) {
+    // Returned anyway: the report says why each entry was skipped
+    console.warn(`No ${describeImportMode(mode)} transactions found in this ${profile.name}`);
+  }
+
+  let balanceCheck: BalanceCheckResult = {
+    checked: false,
+    passed: true,
+    rowsChecked: 0,
+    breaks: [],
+    order: "ascending",
+  };
+
+  if (statement.openingBalance !== undefined && statement.closingBalance !== undefined) {
+    const expected = roundAmount(statement.openingBalance + total);
+    const passed = Math.abs(expected - statement.closingBalance) <= TOLERANCE;
+    const last = entries[entries.length - 1];
+    balanceCheck = {
+      checked: true,
+      passed,
+      rowsChecked: entries.length,
+      breaks: passed
+        ? []
+        : [
+            {
+              rowNumber: entries.length,
+              date: last.date,
+              narration: last.narration,
+              expectedBalance: expected,
+              statementBalance: statement.closingBalance,
+              difference: roundAmount(statement.closingBalance - expected),
+            },
+          ],
+      openingBalance: statement.openingBalance,
+      closingBalance: statement.closingBalance,
+      order: "ascending",
+    };
+  }
+
+  console.log(`Parsed ${transactions.length} transactions from ${profile.name} (${entries.length} entries)`);
+  return {
+    transactions,
+    profile,
+    balanceCheck,
+    report: createImportReport(reportRows),
+    accounts: uniqueAccounts([maskedAccount ? { maskedAccount } : null]),
+  };
+}
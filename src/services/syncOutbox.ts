@@ -0,0 +1,381 @@
+// Durable outbox of writes to the remote storage backend (Google Sheets or the
+// local file server). Every new or edited transaction is queued here (in IndexedDB) before it is
+// sent, so a failed or offline save is retried with backoff instead of lost.
+// Queue changes run one at a time; the network calls run outside that lock
+// and an entry is only removed if it wasn't edited again while it was sent.
+// An update refused because someone else changed the row is merged with the
+// stored row; if both changed the same field it waits for a person to merge it.
+
+import { Transaction } from "../types/transaction";
+import { LocalStore, OutboxEntry } from "./localStore";
+import { getRemoteBackend } from "./storageBackends";
+import { TransactionConflictError } from "./storageBackend";
+import { mergeTransactions } from "./transactionConflicts";
+import { AuditTrail } from "./auditTrail";
+import { PartyLedger } from "./partyLedger";
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+/**
+ * A queued transaction whose last attempt to reach the remote backend failed
+ */
+export interface OutboxFailure {
+  transaction: Transaction;
+  attempts: number;
+  error: string;
+}
+
+/**
+ * A queued edit the remote backend refused because the row changed meanwhile,
+ * and that couldn't be merged automatically
+ */
+export interface OutboxConflict {
+  /** The edit made here */
+  mine: Transaction;
+  /** The row as it is stored now */
+  theirs: Transaction;
+  /** The copy the edit was made from */
+  base?: Transaction;
+}
+
+export interface OutboxStatus {
+  /** Writes waiting to reach the remote backend */
+  pending: number;
+  /** Of those, how many have failed at least once */
+  failing: number;
+  lastError?: string;
+  /** The failed writes, oldest first */
+  failures: OutboxFailure[];
+  /** Edits waiting to be merged by hand */
+  conflicts: OutboxConflict[];
+  isFlushing: boolean;
+}
+
+type OutboxListener = (status: OutboxStatus) => void;
+
+let lock: Promise<unknown> = Promise.resolve();
+let flushing = false;
+// Set when a flush is asked for while one is running, so new entries don't wait for the timer
+let flushRequested = false;
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+const listeners = new Set<OutboxListener>();
+let status: OutboxStatus = { pending: 0, failing: 0, failures: [], conflicts: [], isFlushing: false };
+
+/**
+ * Run queue changes one after another, so an edit can't overwrite a queued append
+ */
+function withLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = lock.then(task);
+  lock = result.catch(() => undefined);
+  return result;
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+async function publishStatus(): Promise<void> {
+  const entries = await LocalStore.getOutbox();
+  const failing = entries.filter((e) => e.attempts > 0 && !e.conflict);
+  status = {
+    pending: entries.length,
+    failing: failing.length,
+    lastError: failing.find((e) => e.lastError)?.lastError,
+    failures: failing.map((e) => ({
+      transaction: e.transaction,
+      attempts: e.attempts,
+      error: e.lastError || "Unknown error",
+    })),
+    conflicts: entries
+      .filter((e) => e.conflict)
+      .map((e) => ({ mine: e.transaction, theirs: e.conflict!, base: e.base })),
+    isFlushing: flushing,
+  };
+  listeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Remove the entries that were sent, unless they were edited again in the
+ * meantime, and record the row version the remote backend now has
+ */
+function markSent(sent: OutboxEntry[]): Promise<void> {
+  return withLock(async () => {
+    const current = new Map((await LocalStore.getOutbox()).map((e) => [e.transactionId, e]));
+    const stillQueued: OutboxEntry[] = [];
+    const versioned: Transaction[] = [];
+    for (const entry of sent) {
+      const latest = current.get(entry.transactionId);
+      if (!latest) continue;
+      // An update leaves the row one version further on; an append stores it as sent
+      const version = entry.kind === "update" ? (entry.transaction.version ?? 0) + 1 : entry.transaction.version;
+      const local = await LocalStore.getTransaction(entry.transactionId);
+      if (local) versioned.push({ ...local, version });
+
+      if (latest.revision === entry.revision) {
+        await LocalStore.deleteOutboxEntry(entry.transactionId);
+      } else {
+        // The row exists remotely now, so the newer snapshot is an update of the version just written
+        stillQueued.push({
+          ...latest,
+          kind: "update",
+          transaction: { ...latest.transaction, version },
+          base: { ...entry.transaction, version },
+          attempts: 0,
+          nextAttemptAt: 0,
+          lastError: undefined,
+        });
+      }
+    }
+    if (stillQueued.length > 0) await LocalStore.putOutboxEntries(stillQueued);
+    if (versioned.length > 0) await LocalStore.putTransactions(versioned);
+  });
+}
+
+/**
+ * An update was refused because the row changed. Merge what we can; if both
+ * sides changed the same field, park the entry until someone merges it by hand.
+ * Returns whether the merged edit should be sent again.
+ */
+function markConflict(sent: OutboxEntry, theirs: Transaction): Promise<boolean> {
+  return withLock(async () => {
+    const latest = (await LocalStore.getOutbox()).find((e) => e.transactionId === sent.transactionId);
+    if (!latest) return false;
+
+    const { merged, clashes } = mergeTransactions(latest.transaction, theirs, latest.base);
+    if (clashes.length === 0) {
+      await LocalStore.putTransactions([merged]);
+      PartyLedger.invalidate();
+      await LocalStore.putOutboxEntries([
+        { ...latest, transaction: merged, base: theirs, attempts: 0, nextAttemptAt: 0, lastError: undefined },
+      ]);
+      return true;
+    }
+
+    await LocalStore.putOutboxEntries([
+      { ...latest, conflict: theirs, lastError: "Changed by someone else - needs merging" },
+    ]);
+    return false;
+  });
+}
+
+function markFailed(sent: OutboxEntry[], error: string): Promise<void> {
+  return withLock(async () => {
+    const current = new Map((await LocalStore.getOutbox()).map((e) => [e.transactionId, e]));
+    const now = Date.now();
+    const failed = sent
+      .map((entry) => current.get(entry.transactionId))
+      .filter((e): e is OutboxEntry => Boolean(e))
+      .map((e) => ({
+        ...e,
+        attempts: e.attempts + 1,
+        nextAttemptAt: now + retryDelay(e.attempts + 1),
+        lastError: error,
+      }));
+    await LocalStore.putOutboxEntries(failed);
+  });
+}
+
+export class SyncOutbox {
+  /**
+   * Queue a new row or an edit. A transaction already waiting in the queue
+   * gets the newer snapshot and keeps its place (and stays an append if its
+   * row hasn't been written yet).
+   */
+  static enqueue(kind: OutboxEntry["kind"], transaction: Transaction, base?: Transaction): Promise<void> {
+    return this.enqueueAll(kind, [transaction], base ? [base] : undefined);
+  }
+
+  /**
+   * @param bases - for updates, the copies the edits were made from (same order as transactions)
+   */
+  static async enqueueAll(
+    kind: OutboxEntry["kind"],
+    transactions: Transaction[],
+    bases?: Transaction[]
+  ): Promise<void> {
+    if (!getRemoteBackend() || transactions.length === 0) return;
+
+    await withLock(async () => {
+      const queued = new Map((await LocalStore.getOutbox()).map((e) => [e.transactionId, e]));
+      const now = new Date().toISOString();
+      const entries = transactions.map((transaction, index): OutboxEntry => {
+        const existing = queued.get(transaction.id);
+        return existing
+          ? {
+              ...existing,
+              transaction,
+              revision: existing.revision + 1,
+              attempts: 0,
+              nextAttemptAt: 0,
+              lastError: undefined,
+            }
+          : {
+              transactionId: transaction.id,
+              kind,
+              transaction,
+              base: bases?.[index],
+              revision: 1,
+              attempts: 0,
+              nextAttemptAt: 0,
+              createdAt: now,
+            };
+      });
+      await LocalStore.putOutboxEntries(entries);
+    });
+    await publishStatus();
+    this.flush();
+  }
+
+  /**
+   * Queued snapshots, so a refresh from the remote backend doesn't hide edits that haven't reached it yet
+   */
+  static async getQueuedTransactions(): Promise<Transaction[]> {
+    return (await LocalStore.getOutbox()).map((e) => e.transaction);
+  }
+
+  /**
+   * Send every due entry: appends in one batch, then updates one by one.
+   * Rows the backend reports as failed stay queued and are retried with backoff.
+   * @param force - retry failed entries now instead of waiting for their backoff
+   */
+  static async flush(force: boolean = false): Promise<void> {
+    const backend = getRemoteBackend();
+    if (!backend) return;
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+    if (flushing) {
+      flushRequested = true;
+      return;
+    }
+
+    flushing = true;
+    flushRequested = false;
+    try {
+      // History entries recorded while the remote couldn't be reached go out with the next flush
+      await AuditTrail.flush();
+
+      const now = Date.now();
+      const due = (await LocalStore.getOutbox()).filter((e) => !e.conflict && (force || e.nextAttemptAt <= now));
+      if (due.length === 0) return;
+      await publishStatus();
+
+      const appends = due.filter((e) => e.kind === "append");
+      if (appends.length > 0) {
+        try {
+          const results = new Map(
+            (await backend.addTransactions(appends.map((e) => e.transaction))).map((r) => [r.id, r])
+          );
+          await markSent(appends.filter((e) => results.get(e.transactionId)?.success));
+          for (const entry of appends.filter((e) => !results.get(e.transactionId)?.success)) {
+            await markFailed([entry], results.get(entry.transactionId)?.error || "No result returned for this row");
+          }
+        } catch (error) {
+          await markFailed(appends, error instanceof Error ? error.message : "Unknown error");
+        }
+      }
+
+      for (const entry of due.filter((e) => e.kind === "update")) {
+        const sent = [entry];
+        try {
+          await backend.updateTransaction(entry.transaction);
+          await markSent(sent);
+        } catch (error) {
+          if (error instanceof TransactionConflictError) {
+            if (await markConflict(entry, error.current)) flushRequested = true;
+          } else {
+            await markFailed(sent, error instanceof Error ? error.message : "Unknown error");
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Error flushing the sync outbox:", error);
+    } finally {
+      flushing = false;
+      await publishStatus().catch(() => undefined);
+      if (flushRequested) this.flush();
+    }
+  }
+
+  /**
+   * Flush now, every FLUSH_INTERVAL_MS, and whenever the browser comes back online
+   */
+  static start(): () => void {
+    if (!LocalStore.isAvailable()) return () => undefined;
+
+    const handleOnline = () => this.flush(true);
+    window.addEventListener("online", handleOnline);
+    flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flush();
+    publishStatus().catch((error) => console.error("Error reading the sync outbox:", error));
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      if (flushTimer) clearInterval(flushTimer);
+      flushTimer = null;
+    };
+  }
+
+  /**
+   * Replace an edit that clashed with someone else's change by the merged
+   * version, and send it as an update of the row as it is stored now
+   */
+  static async resolveConflict(transactionId: string, merged: Transaction): Promise<void> {
+    const change = await withLock(async () => {
+      const entry = (await LocalStore.getOutbox()).find((e) => e.transactionId === transactionId);
+      if (!entry?.conflict) return null;
+      const theirs = entry.conflict;
+      // Date and version always come from the stored row
+      const resolved = { ...merged, date: theirs.date, version: theirs.version, updatedAt: new Date().toISOString() };
+      await LocalStore.putTransactions([resolved]);
+      PartyLedger.invalidate();
+      await LocalStore.putOutboxEntries([
+        {
+          ...entry,
+          kind: "update",
+          transaction: resolved,
+          base: theirs,
+          conflict: undefined,
+          revision: entry.revision + 1,
+          attempts: 0,
+          nextAttemptAt: 0,
+          lastError: undefined,
+        },
+      ]);
+      return { theirs, resolved };
+    });
+    // What the merge changes in the stored row
+    if (change) await AuditTrail.recordChanges(change.theirs, change.resolved, "merged");
+    await publishStatus();
+    this.flush();
+  }
+
+  /**
+   * Drop an edit that clashed and keep the stored row as it is
+   */
+  static async discardConflict(transactionId: string): Promise<void> {
+    const discarded = await withLock(async () => {
+      const entry = (await LocalStore.getOutbox()).find((e) => e.transactionId === transactionId);
+      if (!entry?.conflict) return null;
+      await LocalStore.putTransactions([entry.conflict]);
+      PartyLedger.invalidate();
+      await LocalStore.deleteOutboxEntry(transactionId);
+      return entry;
+    });
+    // The edits recorded here never reached the stored row - record them being undone
+    if (discarded) await AuditTrail.recordChanges(discarded.transaction, discarded.conflict!, "merged");
+    await publishStatus();
+  }
+
+  static getStatus(): OutboxStatus {
+    return status;
+  }
+
+  static subscribe(listener: OutboxListener): () => void {
+    listeners.add(listener);
+    listener(status);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
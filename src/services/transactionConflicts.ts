@@ -0,0 +1,73 @@
+// Merging concurrent edits to a transaction
+// Updates are conditional on the row version (see StorageBackend), so when two
+// people edit the same transaction the second write is refused. The refused
+// edit is then merged with the stored row field by field against the copy the
+// edit started from: a field only one side changed takes that side's value,
+// and only fields both sides changed differently need a person to choose.
+
+import { Transaction } from "../types/transaction";
+
+export type MergeField =
+  | "partyName"
+  | "category"
+  | "added_to_vyapar"
+  | "vyapar_reference_number"
+  | "hold"
+  | "selfTransfer"
+  | "notes"
+  | "linkedTransactionId";
+
+/**
+ * The fields people edit after import, in the order the merge screen shows them
+ */
+export const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: "partyName", label: "Party" },
+  { key: "category", label: "Category" },
+  { key: "added_to_vyapar", label: "Added to Vyapar" },
+  { key: "vyapar_reference_number", label: "Vyapar Ref No." },
+  { key: "hold", label: "Hold" },
+  { key: "selfTransfer", label: "Self Transfer" },
+  { key: "notes", label: "Notes" },
+  { key: "linkedTransactionId", label: "Linked Transaction" },
+];
+
+export interface MergeResult {
+  /** The stored row with every change that could be merged automatically */
+  merged: Transaction;
+  /** Fields both sides changed to different values */
+  clashes: MergeField[];
+}
+
+/**
+ * Empty, missing and false all mean "not set"
+ */
+function normalise(value: unknown): string {
+  if (value === undefined || value === null || value === false) return "";
+  return String(value).trim();
+}
+
+export function sameFieldValue(a: Transaction, b: Transaction, field: MergeField): boolean {
+  return normalise(a[field]) === normalise(b[field]);
+}
+
+/**
+ * Three-way merge of my edit into the stored row. Without the base copy there
+ * is no telling who changed what, so every differing field is a clash.
+ */
+export function mergeTransactions(mine: Transaction, theirs: Transaction, base?: Transaction): MergeResult {
+  const merged: Transaction = { ...theirs };
+  const clashes: MergeField[] = [];
+
+  MERGE_FIELDS.forEach(({ key }) => {
+    if (sameFieldValue(mine, theirs, key)) return;
+    if (base && sameFieldValue(theirs, base, key)) {
+      // Only I changed it
+      (merged as unknown as Record<MergeField, unknown>)[key] = mine[key];
+    } else if (!(base && sameFieldValue(mine, base, key))) {
+      // Both changed it (if only they did, their value is already in merged)
+      clashes.push(key);
+    }
+  });
+
+  return { merged, clashes };
+}
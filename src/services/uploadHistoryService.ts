@@ -0,0 +1,59 @@
+import { workspaceKey } from "./workspaceService";
+
+// Storage key for tracking uploaded files
+const UPLOADED_FILES_KEY = "uploaded_files_tracker";
+// Only the most recent uploads are kept, so localStorage doesn't fill up
+const MAX_UPLOADED_FILES = 100;
+
+export interface UploadedFileInfo {
+  name: string;
+  size: number;
+  lastModified: number;
+  uploadedAt: string;
+}
+
+/**
+ * Same file, as far as the browser can tell (name + size + lastModified)
+ */
+export function isSameUploadedFile(a: UploadedFileInfo | File, b: UploadedFileInfo | File): boolean {
+  return a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+}
+
+/**
+ * Statement files uploaded in this browser, to warn before one is imported twice
+ */
+export class UploadHistoryService {
+  static getUploadedFiles(): UploadedFileInfo[] {
+    try {
+      const data = localStorage.getItem(workspaceKey(UPLOADED_FILES_KEY));
+      return data ? JSON.parse(data) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static saveUploadedFiles(files: UploadedFileInfo[]): void {
+    localStorage.setItem(workspaceKey(UPLOADED_FILES_KEY), JSON.stringify(files.slice(-MAX_UPLOADED_FILES)));
+  }
+
+  static addUploadedFile(file: File): void {
+    try {
+      const uploadedFiles = this.getUploadedFiles();
+      if (!uploadedFiles.some((f) => isSameUploadedFile(f, file))) {
+        uploadedFiles.push({
+          name: file.name,
+          size: file.size,
+          lastModified: file.lastModified,
+          uploadedAt: new Date().toISOString(),
+        });
+        this.saveUploadedFiles(uploadedFiles);
+      }
+    } catch (error) {
+      console.error("Error saving uploaded file info:", error);
+    }
+  }
+
+  static isFileAlreadyUploaded(file: File): boolean {
+    return this.getUploadedFiles().some((f) => isSameUploadedFile(f, file));
+  }
+}
@@ -0,0 +1,176 @@
+// Workspaces
+// A workspace is one company: its name, optionally its GSTIN, the Apps Script
+// endpoint of its Google Sheet and its Vyapar reference series. Everything
+// the company owns is kept per workspace - the local working copy and outbox
+// (see localStore), the remote sheet or file, categorisation rules, own
+// accounts and the uploaded files list - so nothing learned for one company
+// turns up in another. Workspaces are kept in this browser: the endpoint can
+// be changed on the Settings page without rebuilding the app.
+
+// Workspaces were called backend profiles at first; the keys kept their names
+const WORKSPACES_KEY = "backend_profiles";
+const ACTIVE_WORKSPACE_KEY = "active_backend_profile";
+
+// The first workspace keeps the data that existed before there were workspaces
+export const DEFAULT_WORKSPACE_ID = "default";
+
+// Endpoint the app was built with, used for the first workspace. Change it on
+// the Settings page rather than here.
+const BUILT_IN_APPS_SCRIPT_URL =
+  "https://script.google.com/macros/s/AKfycbwaxqF-hd2tiQKukRnBqMD-Iir56Vpm0CWYL-70YHTXJoMpHTwf_GannYZO-xfrAipXOA/exec";
+
+// GSTIN: 2-digit state code, PAN, entity number, "Z", check character
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  gstin?: string;
+  /** Web app URL of the Apps Script; empty when the data only lives in this browser */
+  appsScriptUrl: string;
+  /** Start of the company's Vyapar reference numbers, e.g. "SLT/" */
+  vyaparRefPrefix?: string;
+  createdAt: string;
+}
+
+export type WorkspaceInput = Pick<Workspace, "name" | "gstin" | "appsScriptUrl" | "vyaparRefPrefix">;
+
+type WorkspacesListener = (workspaces: Workspace[]) => void;
+
+const listeners = new Set<WorkspacesListener>();
+
+/**
+ * Thrown when a workspace can't be saved as entered
+ */
+export class WorkspaceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceValidationError";
+  }
+}
+
+/**
+ * localStorage key of a per-workspace setting. The default workspace uses the
+ * key as it was before there were workspaces, so its data stays where it is.
+ */
+export function workspaceKey(key: string, workspaceId: string = WorkspaceService.getActiveWorkspace().id): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${key}:${workspaceId}`;
+}
+
+export class WorkspaceService {
+  static getWorkspaces(): Workspace[] {
+    try {
+      const data = localStorage.getItem(WORKSPACES_KEY);
+      const workspaces: Workspace[] = data ? JSON.parse(data) : [];
+      if (workspaces.length > 0) return workspaces;
+    } catch {
+      // Fall through to the default workspace
+    }
+    return [
+      {
+        id: DEFAULT_WORKSPACE_ID,
+        name: "Default",
+        appsScriptUrl: BUILT_IN_APPS_SCRIPT_URL,
+        createdAt: new Date(0).toISOString(),
+      },
+    ];
+  }
+
+  static saveWorkspaces(workspaces: Workspace[]): void {
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+    listeners.forEach((listener) => listener(workspaces));
+  }
+
+  /**
+   * Be told when workspaces are added, edited or deleted. Returns the unsubscribe function.
+   */
+  static subscribe(listener: WorkspacesListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static getActiveWorkspace(): Workspace {
+    const workspaces = this.getWorkspaces();
+    const activeId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    return workspaces.find((w) => w.id === activeId) || workspaces[0];
+  }
+
+  /**
+   * Make another workspace the active one. Services cache what they loaded
+   * from the old workspace, so the page is reloaded after this.
+   */
+  static setActiveWorkspace(id: string): void {
+    if (!this.getWorkspaces().some((w) => w.id === id)) {
+      throw new WorkspaceValidationError("That workspace no longer exists");
+    }
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  }
+
+  static addWorkspace(input: WorkspaceInput): Workspace {
+    const workspace: Workspace = {
+      ...this.validate(input),
+      id: `workspace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+    this.saveWorkspaces([...this.getWorkspaces(), workspace]);
+    return workspace;
+  }
+
+  static updateWorkspace(id: string, input: WorkspaceInput): void {
+    const valid = this.validate(input, id);
+    this.saveWorkspaces(this.getWorkspaces().map((w) => (w.id === id ? { ...w, ...valid } : w)));
+  }
+
+  /**
+   * Remove a workspace from the list. Its local working copy is left in the
+   * browser, and the active workspace can't be deleted.
+   */
+  static deleteWorkspace(id: string): void {
+    if (id === this.getActiveWorkspace().id) {
+      throw new WorkspaceValidationError("Switch to another workspace before deleting this one");
+    }
+    this.saveWorkspaces(this.getWorkspaces().filter((w) => w.id !== id));
+  }
+
+  /**
+   * Why a Vyapar reference doesn't belong to the active workspace's series, or
+   * null when it does (or the workspace has no series set)
+   */
+  static checkVyaparRef(reference: string): string | null {
+    const { name, vyaparRefPrefix } = this.getActiveWorkspace();
+    if (!vyaparRefPrefix || !reference.trim()) return null;
+    if (reference.trim().toUpperCase().startsWith(vyaparRefPrefix.toUpperCase())) return null;
+    return `"${reference.trim()}" is not in ${name}'s Vyapar series (${vyaparRefPrefix}...)`;
+  }
+
+  private static validate(input: WorkspaceInput, id?: string): WorkspaceInput {
+    const name = input.name.trim();
+    const gstin = input.gstin?.trim().toUpperCase() || undefined;
+    const appsScriptUrl = input.appsScriptUrl.trim();
+    const vyaparRefPrefix = input.vyaparRefPrefix?.trim() || undefined;
+    const others = this.getWorkspaces().filter((w) => w.id !== id);
+
+    if (!name) {
+      throw new WorkspaceValidationError("Enter a name for the workspace");
+    }
+    if (others.some((w) => w.name.toLowerCase() === name.toLowerCase())) {
+      throw new WorkspaceValidationError(`There is already a workspace called "${name}"`);
+    }
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      throw new WorkspaceValidationError("The GSTIN should be 15 characters, e.g. 29ABCDE1234F1Z5");
+    }
+    if (appsScriptUrl && !/^https:\/\/script\.google\.com\/.+\/exec$/.test(appsScriptUrl)) {
+      throw new WorkspaceValidationError(
+        "The Apps Script URL should look like https://script.google.com/macros/s/.../exec"
+      );
+    }
+    // Two companies on one sheet would see each other's transactions and mappings
+    const sharing = appsScriptUrl && others.find((w) => w.appsScriptUrl.trim() === appsScriptUrl);
+    if (sharing) {
+      throw new WorkspaceValidationError(`"${sharing.name}" already uses this Apps Script URL`);
+    }
+    return { name, gstin, appsScriptUrl, vyaparRefPrefix };
+  }
+}
@@ -0,0 +1,26 @@
+// Switching workspaces
+// Kept apart from workspaceService, which the local store and the outbox
+// themselves depend on.
+
+import { Workspace, WorkspaceService } from "./workspaceService";
+import { SyncOutbox } from "./syncOutbox";
+
+/**
+ * Make another workspace the active one and reload, after confirming if the
+ * current one still has changes waiting to sync
+ */
+export function switchToWorkspace(workspace: Workspace): void {
+  const { pending } = SyncOutbox.getStatus();
+  if (
+    pending > 0 &&
+    !confirm(
+      `${pending} change${pending === 1 ? " has" : "s have"} not synced to "${WorkspaceService.getActiveWorkspace().name}" yet. ` +
+        "They stay queued and are sent when you switch back. Switch anyway?"
+    )
+  ) {
+    return;
+  }
+  WorkspaceService.setActiveWorkspace(workspace.id);
+  // Every service loaded its data for the old workspace
+  window.location.reload();
+}
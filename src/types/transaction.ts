@@ -12,6 +12,14 @@ export type TransactionCategory =
   | "Expense"
   | "Other Debit";
 
+export const TRANSACTION_CATEGORIES: Record<TransactionType, TransactionCategory[]> = {
+  credit: ["Credit Sale", "Payment Received", "Refund", "Loan/Credit", "Interest Income", "Other Credit"],
+  debit: ["Purchase", "Payment Made", "Expense", "Other Debit"],
+};
+
+// Payment channel decoded from the narration
+export type NarrationChannel = "UPI" | "NEFT" | "RTGS" | "IMPS" | "CHEQUE" | "CASH" | "TRANSFER" | "OTHER";
+
 export interface Transaction {
   id: string;
   date: string; // ISO date string
@@ -21,18 +29,47 @@ export interface Transaction {
   category: TransactionCategory;
   partyName: string;
   referenceNumber?: string; // Bank reference number (Chq./Ref.No.)
+  valueDate?: string; // ISO date string - date the bank applied the funds
+  closingBalance?: number; // Account balance after this transaction, from the statement
   bankAccount?: string;
+  // Decoded from the narration (see narrationDecoder)
+  channel?: NarrationChannel;
+  utr?: string; // UTR (NEFT/RTGS) or RRN (UPI/IMPS)
+  payerVpa?: string; // UPI ID of the payer
+  payerAccount?: string; // Payer's account number (as printed, may be masked)
+  payerIfsc?: string;
+  payerName?: string; // Payer name as printed in the narration
+  remitterBank?: string;
+  chequeNumber?: string;
   added_to_vyapar: boolean; // Renamed from inVyapar for consistency
   vyapar_reference_number?: string; // Vyapar reference number
   hold?: boolean; // Hold status - transaction is on hold
   selfTransfer?: boolean; // Self Transfer status - transaction is a self transfer
   notes?: string;
+  ruleId?: string; // Categorisation rule that matched on import or re-run
+  linkedTransactionId?: string; // Other side of a self transfer between our own accounts
+  version?: number; // Row version on the remote backend - bumped on every update, so edits based on an older copy are refused
   createdAt: string; // ISO date string
   updatedAt: string; // ISO date string
   // Legacy support
   inVyapar?: boolean; // For backward compatibility
 }
 
+/**
+ * One change to a transaction in the audit trail (see auditTrail). Entries are
+ * only ever appended, never edited or removed.
+ */
+export interface HistoryEntry {
+  id: string;
+  transactionId: string;
+  action: "created" | "updated" | "merged";
+  field?: keyof Transaction; // The field that changed (not set for "created")
+  oldValue?: string;
+  newValue?: string;
+  timestamp: string; // ISO date string
+  operator: string; // Name of the person who made the change, as entered on their device
+}
+
 export interface Party {
   id: string;
   name: string;
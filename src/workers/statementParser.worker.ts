@@ -0,0 +1,72 @@
+// Parses CSV and Excel statements off the main thread so large statements
+// (a year of current-account rows) don't freeze the upload page.
+// Each request runs in its own worker; the page terminates it to cancel.
+
+import { BankCSVParser } from "../services/bankCSVParser";
+import { BankExcelParser, ExcelSheetInfo } from "../services/bankExcelParser";
+import { ImportMode, StatementParseResult, UnrecognisedStatementError } from "../services/bankProfiles";
+import { ParseProgress } from "../services/parseProgress";
+import { StatementTemplate, StatementTemplateService } from "../services/statementTemplateService";
+
+export type StatementWorkerRequest =
+  | {
+      type: "parse";
+      format: "csv" | "excel";
+      file: File;
+      mode: ImportMode;
+      sheetNames?: string[];
+      templates: StatementTemplate[];
+    }
+  | { type: "listSheets"; file: File; templates: StatementTemplate[] };
+
+export type StatementWorkerResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | { type: "result"; result: StatementParseResult }
+  | { type: "sheets"; sheets: ExcelSheetInfo[] }
+  | { type: "error"; error: { name: string; message: string; rows?: string[][] } };
+
+// The DOM lib types `self` as Window; in a dedicated worker it is the worker scope
+const workerScope = self as unknown as {
+  postMessage: (message: StatementWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<StatementWorkerRequest>) => void) | null;
+};
+
+const onProgress = (progress: ParseProgress) => {
+  workerScope.postMessage({ type: "progress", progress });
+};
+
+async function handleRequest(request: StatementWorkerRequest): Promise<StatementWorkerResponse> {
+  StatementTemplateService.setWorkerTemplates(request.templates);
+
+  if (request.type === "listSheets") {
+    const workbook = BankExcelParser.readWorkbookData(await request.file.arrayBuffer());
+    return { type: "sheets", sheets: BankExcelParser.describeSheets(workbook) };
+  }
+
+  if (request.format === "csv") {
+    const text = await request.file.text();
+    return { type: "result", result: await BankCSVParser.parseText(text, request.mode, onProgress) };
+  }
+
+  onProgress({ stage: "reading", rowsRead: 0, transactionsFound: 0 });
+  const workbook = BankExcelParser.readWorkbookData(await request.file.arrayBuffer());
+  return {
+    type: "result",
+    result: BankExcelParser.parseWorkbook(workbook, request.mode, request.sheetNames, onProgress),
+  };
+}
+
+workerScope.onmessage = (event) => {
+  handleRequest(event.data)
+    .then((response) => workerScope.postMessage(response))
+    .catch((error) => {
+      workerScope.postMessage({
+        type: "error",
+        error: {
+          name: error instanceof Error ? error.name : "Error",
+          message: error instanceof Error ? error.message : String(error),
+          rows: error instanceof UnrecognisedStatementError ? error.rows : undefined,
+        },
+      });
+    });
+};